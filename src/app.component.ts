@@ -1,8 +1,37 @@
 import { Component, inject, signal, computed, ElementRef, ViewChild, HostListener, AfterViewInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ChartStateService, NodePosition } from './services/chart-state.service';
+import { ChartStateService, NodePosition, EdgePort, LEVELS } from './services/chart-state.service';
 import { ChartNodeComponent } from './components/chart-node/chart-node.component';
 import { MinimapComponent } from './components/minimap/minimap.component';
+import { DocumentLibraryComponent } from './components/document-library/document-library.component';
+import { RosterImportComponent } from './components/roster-import/roster-import.component';
+import { ExportDialogComponent, ExportFormat } from './components/export-dialog/export-dialog.component';
+import { LayoutMenuComponent } from './components/layout-menu/layout-menu.component';
+import { EdgePropertiesComponent } from './components/edge-properties/edge-properties.component';
+import { ManagerEditorComponent } from './components/manager-editor/manager-editor.component';
+import { TemplateGalleryComponent } from './components/template-gallery/template-gallery.component';
+import { SearchBoxComponent } from './components/search-box/search-box.component';
+import { AnalyticsPanelComponent } from './components/analytics-panel/analytics-panel.component';
+import { ProblemsPanelComponent } from './components/problems-panel/problems-panel.component';
+import { FieldValuesComponent } from './components/field-values/field-values.component';
+import { FieldSchemaEditorComponent } from './components/field-schema-editor/field-schema-editor.component';
+import { CardDesignEditorComponent } from './components/card-design-editor/card-design-editor.component';
+import { StyleLegendComponent } from './components/style-legend/style-legend.component';
+import { ThemeMenuComponent } from './components/theme-menu/theme-menu.component';
+import { BulkEditorComponent } from './components/bulk-editor/bulk-editor.component';
+import { AlignToolsComponent } from './components/align-tools/align-tools.component';
+import { ChartSearchService } from './services/chart-search.service';
+import { ChartProblemsService } from './services/chart-problems.service';
+import { CardStyleService } from './services/card-styles.service';
+import { CARD_TEMPLATES, CardTemplate } from './services/card-styles';
+import { FONT_FAMILIES } from './services/node-styles';
+import { ALIGN_ACTIONS, DISTRIBUTE_ACTIONS, SIZE_ACTIONS, AlignEdge, DistributeAxis, SizeDimension } from './services/chart-align';
+import { DocumentLibraryService } from './services/document-library.service';
+import { buildChartFile, ValidationIssue } from './services/chart-schema';
+import { downloadFile, toFileName } from './services/download';
+import { getPathMidpoint, getPortPath, connectorAnchor, connectorSides, nearestPort, defaultNodeSize } from './services/chart-geometry';
+import { resolveEdgeStyle, defaultEdgeKind } from './services/chart-edges';
+import { routeEdges } from './services/edge-routing';
 
 type ToolMode = 'select' | 'hand' | 'note' | 'shape' | 'pen' | 'group' | 'text' | 'eraser';
 type ShapeType = 'rectangle' | 'circle' | 'triangle' | 'star' | 'diamond';
@@ -10,7 +39,7 @@ type ShapeType = 'rectangle' | 'circle' | 'triangle' | 'star' | 'diamond';
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CommonModule, ChartNodeComponent, MinimapComponent],
+  imports: [CommonModule, ChartNodeComponent, MinimapComponent, DocumentLibraryComponent, RosterImportComponent, ExportDialogComponent, LayoutMenuComponent, EdgePropertiesComponent, ManagerEditorComponent, TemplateGalleryComponent, SearchBoxComponent, AnalyticsPanelComponent, ProblemsPanelComponent, FieldValuesComponent, FieldSchemaEditorComponent, CardDesignEditorComponent, StyleLegendComponent, ThemeMenuComponent, BulkEditorComponent, AlignToolsComponent],
   templateUrl: './app.component.html',
   host: {
     '(window:keydown)': 'onKeyDown($event)',
@@ -20,6 +49,10 @@ type ShapeType = 'rectangle' | 'circle' | 'triangle' | 'star' | 'diamond';
 })
 export class AppComponent implements AfterViewInit, OnDestroy {
   chartState = inject(ChartStateService);
+  documentLibrary = inject(DocumentLibraryService);
+  search = inject(ChartSearchService);
+  problems = inject(ChartProblemsService);
+  cardStyles = inject(CardStyleService);
   
   @ViewChild('mainContainer') mainContainer!: ElementRef<HTMLDivElement>;
   @ViewChild('canvasContent') canvasContent!: ElementRef<HTMLDivElement>;
@@ -31,16 +64,38 @@ export class AppComponent implements AfterViewInit, OnDestroy {
   isLeftSidebarOpen = signal(window.innerWidth >= 1024);
   isRightSidebarOpen = signal(window.innerWidth >= 1024);
 
-  currentType = signal('functional');
+  currentType = this.chartState.chartType;
   activeTool = signal<ToolMode>('select');
   toolColor = signal<string>('#fef3c7'); // Default yellow note
+  formatPainter = signal(false); // Armed: the next node clicked takes the copied style
   
   // Export Menu State
   isExportMenuOpen = signal(false);
   isExporting = signal(false);
 
+  // Export options dialog (CSV, ...), null when closed
+  exportDialogFormat = signal<ExportFormat | null>(null);
+
   // Shortcuts Modal State
   showShortcutsModal = signal(false);
+
+  // Document Library Modal State
+  showLibraryModal = signal(false);
+
+  // Side panel over the left of the canvas: analytics or problems, one at a time
+  sidePanel = signal<'analytics' | 'problems' | null>(null);
+
+  // Roster (CSV/TSV) Import Modal State
+  showRosterImport = signal(false);
+
+  // Custom fields editor
+  showFieldSchema = signal(false);
+
+  // Card template and styling rules editor
+  showCardDesign = signal(false);
+
+  // Result of the last JSON import, shown when it had errors or repairs
+  importReport = signal<{ fileName: string; applied: boolean; issues: ValidationIssue[] } | null>(null);
   
   // Canvas Dimensions for Minimap
   canvasWidth = signal(0);
@@ -123,8 +178,10 @@ export class AppComponent implements AfterViewInit, OnDestroy {
   // Linking State
   isLinking = false;
   linkSourceId: string | null = null;
+  linkSourcePort: EdgePort = 'bottom';
   linkStartPos: NodePosition | null = null;
   linkCurrentPos: NodePosition | null = null;
+  linkTarget: { id: string; port: EdgePort } | null = null; // Port the ghost line snapped to
   
   // Mouse Tracking for Paste Logic
   lastMouseWorldPos: { x: number, y: number } | null = null;
@@ -137,19 +194,13 @@ export class AppComponent implements AfterViewInit, OnDestroy {
 
   chartTypes = [
     { id: 'whiteboard', name: 'Pizarrón', icon: 'gesture' },
-    { id: 'functional', name: 'Organigrama', icon: 'account_tree' }
+    { id: 'functional', name: 'Organigrama', icon: 'account_tree' },
+    { id: 'matrix', name: 'Matricial', icon: 'grid_view' }
   ];
   
-  levels = [
-    'P0 - Egresado',
-    'P1 - Seguir',
-    'P2 - Asistir',
-    'P3 - Aplicar',
-    'P4 - Facilitar',
-    'P5 - Asegurar, Asesorar',
-    'P6 - Iniciar, Ejercer influencia',
-    'P7 - Establecer estrategias, inspirar, movilizar'
-  ];
+  levels = LEVELS;
+  cardTemplates = CARD_TEMPLATES;
+  fontFamilies = FONT_FAMILIES;
   
   // Shortcuts Data Structure
   shortcutsList = [
@@ -159,7 +210,9 @@ export class AppComponent implements AfterViewInit, OnDestroy {
         { key: 'Espacio + Arrastrar', desc: 'Mover el Lienzo' },
         { key: 'Rueda del Ratón', desc: 'Mover Verticalmente' },
         { key: 'Ctrl + Rueda', desc: 'Aumentar/Reducir Zoom' },
-        { key: 'Ctrl + A', desc: 'Seleccionar Todo' }
+        { key: 'Ctrl + A', desc: 'Seleccionar Todo' },
+        { key: 'Ctrl + F', desc: 'Buscar y Filtrar' },
+        { key: 'Intro / Mayús + Intro', desc: 'Siguiente / Anterior Resultado' }
       ]
     },
     {
@@ -168,7 +221,8 @@ export class AppComponent implements AfterViewInit, OnDestroy {
         { key: 'Clic', desc: 'Seleccionar Nodo' },
         { key: 'Shift + Clic', desc: 'Selección Múltiple' },
         { key: 'Arrastrar', desc: 'Mover / Seleccionar Área' },
-        { key: 'Supr', desc: 'Eliminar Selección' }
+        { key: 'Supr', desc: 'Eliminar Selección' },
+        { key: 'Ctrl + Shift + L', desc: 'Bloquear / Desbloquear' }
       ]
     },
     {
@@ -176,9 +230,15 @@ export class AppComponent implements AfterViewInit, OnDestroy {
       items: [
         { key: 'Ctrl + C', desc: 'Copiar Selección' },
         { key: 'Ctrl + X', desc: 'Cortar Selección' },
-        { key: 'Ctrl + V', desc: 'Pegar Selección' }
+        { key: 'Ctrl + V', desc: 'Pegar Selección' },
+        { key: 'Ctrl + Alt + C', desc: 'Copiar Estilo' },
+        { key: 'Ctrl + Alt + V', desc: 'Pegar Estilo en la Selección' }
       ]
     },
+    {
+      category: 'Alineación',
+      items: [...ALIGN_ACTIONS, ...DISTRIBUTE_ACTIONS, ...SIZE_ACTIONS].map(action => ({ key: action.shortcut, desc: action.label }))
+    },
     {
       category: 'Historial',
       items: [
@@ -251,20 +311,36 @@ export class AppComponent implements AfterViewInit, OnDestroy {
 
   // Pre-calculate edges with paths for the template
   edgesWithPath = computed(() => {
-    const edges = this.chartState.edges();
-    const posMap = this.chartState.nodePositions();
+    const hidden = this.chartState.hiddenNodeIds();
+    const edges = this.chartState.edges().filter(e => !hidden.has(e.sourceId) && !hidden.has(e.targetId));
+    const paths = routeEdges(
+      edges,
+      this.chartState.nodes(),
+      this.chartState.visiblePositions(),
+      this.chartState.edgeFlow(),
+      this.chartState.layoutSettings().connectorStyle
+    );
+    const connector = this.chartState.connectorColor();
     
     return edges.map(edge => {
-      const source = posMap.get(edge.sourceId);
-      const target = posMap.get(edge.targetId);
-      let path = '';
-      if (source && target) {
-        path = this.getConnectorPath(source, target);
-      }
-      return { ...edge, path };
+      const path = paths.get(edge.id) || '';
+      const style = resolveEdgeStyle(edge, connector);
+      const labelPos = edge.label && path ? getPathMidpoint(path) : null;
+      return { ...edge, path, style, labelPos, marker: `url(#${this.markerId(style.color)})` };
     });
   });
 
+  // Matrix charts draw secondary (dotted) managers above the cards so they read across departments
+  baseEdges = computed(() => this.chartState.chartType() === 'matrix' ? this.edgesWithPath().filter(e => e.kind !== 'dotted') : this.edgesWithPath());
+  overlayEdges = computed(() => this.chartState.chartType() === 'matrix' ? this.edgesWithPath().filter(e => e.kind === 'dotted') : []);
+
+  // One arrowhead marker per connector colour in use
+  edgeColors = computed(() => Array.from(new Set(this.edgesWithPath().map(e => e.style.color))));
+
+  markerId(color: string): string {
+    return 'arrowhead-' + color.replace(/[^a-zA-Z0-9]/g, '');
+  }
+
   ngAfterViewInit() {
     // Setup Resize Observer for minimap
     if (this.mainContainer) {
@@ -277,10 +353,11 @@ export class AppComponent implements AfterViewInit, OnDestroy {
         this.resizeObserver.observe(this.mainContainer.nativeElement);
     }
 
-    // Center the chart initially
-    setTimeout(() => {
-        this.zoomToFit();
-    }, 100);
+    // Restore the last document; only brand new documents need centering,
+    // saved ones come back with their own viewport
+    this.documentLibrary.init().then(isNew => {
+        if (isNew) setTimeout(() => this.zoomToFit(), 100);
+    });
   }
 
   ngOnDestroy() {
@@ -289,16 +366,7 @@ export class AppComponent implements AfterViewInit, OnDestroy {
       }
   }
 
-  changeChartType(typeId: string) {
-    this.currentType.set(typeId);
-    switch (typeId) {
-      case 'functional':
-        this.chartState.loadFunctionalChart();
-        break;
-      case 'whiteboard':
-        this.chartState.loadWhiteboard();
-        break;
-    }
+  onTemplateApplied() {
     // Small delay to allow canvas to re-render before calculating bounds
     setTimeout(() => this.zoomToFit(), 100);
   }
@@ -307,10 +375,28 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     return this.chartTypes.find(t => t.id === this.currentType())?.name || 'Structure';
   }
 
+  toggleSidePanel(panel: 'analytics' | 'problems') {
+    this.sidePanel.update(current => current === panel ? null : panel);
+  }
+
   toggleShortcutsModal() {
     this.showShortcutsModal.update(v => !v);
   }
 
+  toggleLibraryModal() {
+    this.showLibraryModal.update(v => !v);
+  }
+
+  onDocumentOpened(isNew: boolean) {
+    this.activeTool.set('select');
+    if (isNew) setTimeout(() => this.zoomToFit(), 100);
+  }
+
+  renameCurrentDocument(e: Event) {
+    const id = this.documentLibrary.currentDocumentId();
+    if (id) this.documentLibrary.renameDocument(id, (e.target as HTMLInputElement).value);
+  }
+
   toggleLeftSidebar() {
     this.isLeftSidebarOpen.update(v => !v);
   }
@@ -334,6 +420,16 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     this.selectedShapeType.set(type);
   }
 
+  // Copies the selected node's style and arms the painter; pressing it again puts it away
+  startFormatPainter() {
+    if (this.formatPainter()) {
+      this.formatPainter.set(false);
+      return;
+    }
+    this.chartState.copyStyle();
+    this.formatPainter.set(!!this.chartState.styleClipboard());
+  }
+
   // --- Connector Logic ---
 
   onNodeDimensionsChange(dims: {w: number, h: number}, nodeId: string) {
@@ -344,47 +440,34 @@ export class AppComponent implements AfterViewInit, OnDestroy {
      this.chartState.updateNode({ name: text });
   }
 
-  getConnectorPath(source: NodePosition, target: NodePosition): string {
-    const sourceW = source.width || 208; // fallback to default w-52
-    const sourceH = source.height || 100; // fallback default
-    const targetW = target.width || 208;
-    
-    // Start Center-Bottom of source
-    const startX = source.x + sourceW / 2;
-    const startY = source.y + sourceH; 
-    
-    // End Center-Top of target
-    const endX = target.x + targetW / 2;
-    const endY = target.y;
-
-    // Logic for control points
-    const verticalDist = endY - startY;
-    
-    if (verticalDist > 0) {
-       // Target is below
-       const midY = (startY + endY) / 2;
-       // We want vertical exit
-       const strength = Math.min(Math.abs(verticalDist) * 0.5, 80);
-       
-       // Standard cubic bezier with vertical bias
-       return `M ${startX} ${startY} C ${startX} ${startY + strength}, ${endX} ${endY - strength}, ${endX} ${endY}`;
-    } else {
-       // Target is above or parallel
-       const strength = 100;
-       return `M ${startX} ${startY} C ${startX} ${startY + strength}, ${endX} ${endY - strength}, ${endX} ${endY}`;
-    }
-  }
-
   getGhostPath(): string {
      if (!this.linkStartPos || !this.linkCurrentPos) return '';
-     
-     const startX = this.linkStartPos.x;
-     const startY = this.linkStartPos.y;
-     const endX = this.linkCurrentPos.x;
-     const endY = this.linkCurrentPos.y;
+     return getPortPath(this.linkStartPos, this.linkSourcePort, this.linkCurrentPos, this.linkTarget?.port);
+  }
 
-     // Simple bezier
-     return `M ${startX} ${startY} C ${startX} ${startY + 50}, ${endX} ${endY - 50}, ${endX} ${endY}`;
+  // Nearest port of the node under (or just beside) the pointer, other than the source.
+  // Groups only count when the pointer is over nothing else inside them
+  private findLinkTarget(x: number, y: number): { id: string; port: EdgePort } | null {
+     const snap = 24 / (this.chartState.zoomLevel() / 100);
+     const nodes = this.chartState.nodes();
+     let best: { id: string; port: EdgePort; distance: number } | null = null;
+
+     this.chartState.nodePositions().forEach((pos, id) => {
+        const node = nodes.get(id);
+        if (!node || id === this.linkSourceId) return;
+        const size = defaultNodeSize(node.type);
+        const w = pos.width || size.width, h = pos.height || size.height;
+        const margin = node.type === 'group' ? 0 : snap;
+        if (x < pos.x - margin || x > pos.x + w + margin || y < pos.y - margin || y > pos.y + h + margin) return;
+
+        const sized = { ...pos, width: w, height: h };
+        const port = nearestPort(sized, { x, y });
+        const anchor = connectorAnchor(sized, port);
+        const distance = Math.hypot(anchor.x - x, anchor.y - y) + (node.type === 'group' ? 1e6 : 0);
+        if (!best || distance < best.distance) best = { id, port, distance };
+     });
+
+     return best ? { id: best.id, port: best.port } : null;
   }
 
   // Properties Panel Handlers
@@ -403,6 +486,17 @@ export class AppComponent implements AfterViewInit, OnDestroy {
   updateLevel(e: Event) {
     this.chartState.updateNode({ level: (e.target as HTMLSelectElement).value });
   }
+
+  // Empty means "use the chart's template"
+  updateCardTemplate(e: Event) {
+    const value = (e.target as HTMLSelectElement).value as CardTemplate | '';
+    this.chartState.saveHistory();
+    this.chartState.updateNode({ cardTemplate: value || undefined });
+  }
+
+  chartTemplateLabel(): string {
+    return CARD_TEMPLATES.find(t => t.id === this.chartState.cardDesign().template)?.label || '';
+  }
   
   // Typography Handlers
   updateTypography(prop: 'fontSize' | 'fontFamily', e: Event) {
@@ -412,7 +506,7 @@ export class AppComponent implements AfterViewInit, OnDestroy {
           this.chartState.updateNode({ fontSize: parseInt(val, 10) });
       } else {
           this.chartState.saveHistory();
-          this.chartState.updateNode({ fontFamily: val });
+          this.chartState.updateNode({ fontFamily: val }, val === this.chartState.theme().fontFamily);
       }
   }
 
@@ -460,10 +554,13 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     const input = event.target as HTMLInputElement;
     const file = input.files?.[0];
     if (file) {
-      this.chartState.saveHistory();
-      // Use URL.createObjectURL instead of Base64 to save memory and avoid long strings
-      const blobUrl = URL.createObjectURL(file);
-      this.chartState.updateNode({ avatarImage: blobUrl, avatarType: 'image' });
+      // Stored as a data URL: documents are saved, and a blob: URL stops resolving after a reload
+      const reader = new FileReader();
+      reader.onload = () => {
+        this.chartState.saveHistory();
+        this.chartState.updateNode({ avatarImage: reader.result as string, avatarType: 'image' });
+      };
+      reader.readAsDataURL(file);
       // Clear input so same file can be selected again if needed
       input.value = '';
     }
@@ -522,6 +619,12 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     this.jsonImportInput.nativeElement.click();
   }
 
+  onRosterImported() {
+    // A roster is always an org chart, even if it was imported into a whiteboard
+    if (this.currentType() === 'whiteboard') this.currentType.set('functional');
+    setTimeout(() => this.zoomToFit(), 100);
+  }
+
   onJsonFileSelected(event: Event) {
     const input = event.target as HTMLInputElement;
     const file = input.files?.[0];
@@ -534,14 +637,23 @@ export class AppComponent implements AfterViewInit, OnDestroy {
       try {
         const content = e.target?.result as string;
         const data = JSON.parse(content);
-        this.chartState.importFromJson(data);
-        
-        // Small delay to allow canvas to re-render before calculating bounds
-        setTimeout(() => this.zoomToFit(), 100);
+        const issues = this.chartState.importFromJson(data);
+        const applied = !issues.some(issue => issue.severity === 'error');
 
+        if (issues.length > 0) {
+          this.importReport.set({ fileName: file.name, applied, issues });
+        }
+        if (applied) {
+          // Small delay to allow canvas to re-render before calculating bounds
+          setTimeout(() => this.zoomToFit(), 100);
+        }
       } catch (error) {
         console.error('Error parsing JSON file:', error);
-        alert('Failed to import JSON. The file might be corrupted or in the wrong format.');
+        this.importReport.set({
+          fileName: file.name,
+          applied: false,
+          issues: [{ severity: 'error', path: '', message: 'El archivo no es un JSON válido.' }]
+        });
       } finally {
         // Clear the input value to allow selecting the same file again
         if (input) {
@@ -556,6 +668,11 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     const activeTag = document.activeElement?.tagName;
     const isEditing = activeTag === 'INPUT' || activeTag === 'TEXTAREA';
 
+    if (event.key === 'Escape' && this.formatPainter()) {
+       this.formatPainter.set(false);
+       return;
+    }
+
     // 1. Delete Logic
     if (event.key === 'Delete' || event.key === 'Backspace') {
        if (isEditing) return;
@@ -576,6 +693,19 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     if (event.ctrlKey || event.metaKey) {
         if (event.repeat) return; // Prevent multiple executions if key is held
 
+        // SEARCH (also from inside inputs, instead of the browser's find)
+        if (event.key === 'f' || event.key === 'F') {
+          event.preventDefault();
+          this.search.open();
+          return;
+        }
+
+        // ALIGN / DISTRIBUTE / MATCH SIZE (Ctrl, not Cmd: Cmd + Option combinations belong to macOS)
+        if (event.ctrlKey && event.altKey && !isEditing && this.runAlignShortcut(event.code, event.shiftKey)) {
+          event.preventDefault();
+          return;
+        }
+
         // SELECT ALL
         if (event.key === 'a' || event.key === 'A') {
           if (isEditing) return;
@@ -595,6 +725,26 @@ export class AppComponent implements AfterViewInit, OnDestroy {
           return;
         }
 
+        // STYLE COPY / PASTE (by code: Alt changes the key on some layouts)
+        if (event.altKey && (event.code === 'KeyC' || event.code === 'KeyV')) {
+          if (isEditing) return;
+          event.preventDefault();
+          if (event.code === 'KeyC') {
+            this.chartState.copyStyle();
+          } else {
+            this.chartState.pasteStyle();
+          }
+          return;
+        }
+
+        // LOCK / UNLOCK
+        if ((event.key === 'l' || event.key === 'L') && event.shiftKey) {
+          if (isEditing) return;
+          event.preventDefault();
+          this.chartState.toggleLockSelection();
+          return;
+        }
+
         if (event.key === 'y' || event.key === 'Y') {
           event.preventDefault();
           this.chartState.redo();
@@ -641,6 +791,26 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     }
   }
   
+  // Ctrl + Alt + A/D/W/S align to a side (as in WASD), H and M centre (horizontal, medio);
+  // with Shift, H/M distribute along that axis and W/A match width/height (ancho/alto).
+  // By code: Alt changes the key on some layouts
+  private runAlignShortcut(code: string, shift: boolean): boolean {
+    const align: Record<string, AlignEdge> = { KeyA: 'left', KeyH: 'center', KeyD: 'right', KeyW: 'top', KeyM: 'middle', KeyS: 'bottom' };
+    const distribute: Record<string, DistributeAxis> = { KeyH: 'horizontal', KeyM: 'vertical' };
+    const size: Record<string, SizeDimension> = { KeyW: 'width', KeyA: 'height' };
+
+    if (!shift && align[code]) {
+      this.chartState.alignSelection(align[code]);
+    } else if (shift && distribute[code]) {
+      this.chartState.distributeSelection(distribute[code]);
+    } else if (shift && size[code]) {
+      this.chartState.matchSelectionSize(size[code]);
+    } else {
+      return false;
+    }
+    return true;
+  }
+
   onKeyUp(event: KeyboardEvent) {
     if (event.code === 'Space') {
       this.isSpacePressed = false;
@@ -715,6 +885,13 @@ export class AppComponent implements AfterViewInit, OnDestroy {
          return;
      }
 
+     // Format painter: the clicked node takes the copied style, then the painter puts itself away
+     if (this.formatPainter()) {
+         this.chartState.pasteStyle([nodeId]);
+         this.formatPainter.set(false);
+         return;
+     }
+
      // Hand tool overrides selection/drag unless link is starting
      if (this.activeTool() === 'hand') {
          this.isPanning = true;
@@ -746,21 +923,22 @@ export class AppComponent implements AfterViewInit, OnDestroy {
      this.dragStartOffset = { x: pointer.clientX, y: pointer.clientY };
   }
 
-  onLinkStart(event: MouseEvent | TouchEvent, nodeId: string) {
+  onLinkStart(link: { event: MouseEvent | TouchEvent; port: EdgePort }, nodeId: string) {
+    const event = link.event;
     if (this.isSpacePressed || ('button' in event && event.button === 1) || this.activeTool() === 'hand' || this.activeTool() === 'eraser') return;
 
-    // Started dragging the link handle
+    // Started dragging one of the node's ports
     this.isLinking = true;
     this.linkSourceId = nodeId;
+    this.linkSourcePort = link.port;
+    this.linkTarget = null;
     
-    // Calculate start position (bottom center of card)
     const pos = this.chartState.nodePositions().get(nodeId);
-    if (pos) {
+    const node = this.chartState.nodes().get(nodeId);
+    if (pos && node) {
        // Use dynamic dimensions
-       const w = pos.width || 208;
-       const h = pos.height || 100;
-       
-       this.linkStartPos = { x: pos.x + w / 2, y: pos.y + h };
+       const size = defaultNodeSize(node.type);
+       this.linkStartPos = connectorAnchor({ ...pos, width: pos.width || size.width, height: pos.height || size.height }, link.port);
        
        const pointer = 'touches' in event ? event.touches[0] : event;
        // Initial placeholder needs to be in world coordinates
@@ -815,7 +993,7 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     if (tool === 'note' || tool === 'shape' || tool === 'text') {
        this.chartState.addNode(tool, worldX, worldY, {
            backgroundColor: tool === 'text' ? '#F0EEE9' : this.toolColor(),
-           nameColor: tool === 'text' ? '#0f172a' : '#1e293b', 
+           ...(tool === 'note' ? { nameColor: '#1e293b' } : {}),
            shapeType: tool === 'shape' ? this.selectedShapeType() : 'rectangle'
        });
        this.setTool('select');
@@ -914,7 +1092,15 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     }
 
     if (this.isLinking && this.linkStartPos) {
-       this.linkCurrentPos = { x: worldX, y: worldY };
+       this.linkTarget = this.findLinkTarget(worldX, worldY);
+       const targetPos = this.linkTarget && this.chartState.nodePositions().get(this.linkTarget.id);
+       const targetNode = this.linkTarget && this.chartState.nodes().get(this.linkTarget.id);
+       if (this.linkTarget && targetPos && targetNode) {
+          const size = defaultNodeSize(targetNode.type);
+          this.linkCurrentPos = connectorAnchor({ ...targetPos, width: targetPos.width || size.width, height: targetPos.height || size.height }, this.linkTarget.port);
+       } else {
+          this.linkCurrentPos = { x: worldX, y: worldY };
+       }
        return;
     }
 
@@ -1002,16 +1188,23 @@ export class AppComponent implements AfterViewInit, OnDestroy {
 
     // 2. End Linking
     if (this.isLinking) {
-       const targetEl = (event.target as HTMLElement).closest('[data-node-id]');
-       if (targetEl) {
-          const targetId = targetEl.getAttribute('data-node-id');
-          if (targetId && this.linkSourceId && targetId !== this.linkSourceId) {
-             this.chartState.linkNodes(this.linkSourceId, targetId);
-          }
+       const target = this.linkTarget;
+       if (target && this.linkSourceId && target.id !== this.linkSourceId) {
+          const nodes = this.chartState.nodes();
+          const positions = this.chartState.nodePositions();
+          let kind = defaultEdgeKind(nodes.get(this.linkSourceId), nodes.get(target.id));
+          // In a matrix a second manager is added alongside the first instead of replacing it
+          if (kind === 'reporting' && this.currentType() === 'matrix' && this.chartState.primaryManagerOf(target.id)) kind = 'dotted';
+
+          // Ports that match what the layout would pick are left to follow it
+          const sides = connectorSides(positions.get(this.linkSourceId)!, positions.get(target.id)!, this.chartState.edgeFlow());
+          const followsFlow = sides?.source === this.linkSourcePort && sides?.target === target.port;
+          this.chartState.linkNodes(this.linkSourceId, target.id, kind, followsFlow ? {} : { sourcePort: this.linkSourcePort, targetPort: target.port });
        }
        this.isLinking = false;
        this.linkSourceId = null;
        this.linkStartPos = null;
+       this.linkTarget = null;
        return;
     }
     
@@ -1177,26 +1370,19 @@ export class AppComponent implements AfterViewInit, OnDestroy {
     this.isExportMenuOpen.update(v => !v);
   }
 
-  private downloadFile(content: string, fileName: string, mimeType: string) {
-    const blob = new Blob([content], { type: mimeType });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = fileName;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  openExportDialog(format: ExportFormat) {
+    this.isExportMenuOpen.set(false);
+    this.exportDialogFormat.set(format);
   }
 
   exportAsJson() {
     this.isExportMenuOpen.set(false);
-    const data = {
-      nodes: Array.from(this.chartState.nodes().entries()),
-      positions: Array.from(this.chartState.nodePositions().entries()),
-      drawings: this.chartState.drawings(),
-    };
+    const name = this.documentLibrary.currentDocumentName();
+    const data = buildChartFile(this.chartState.nodes(), this.chartState.nodePositions(), this.chartState.drawings(), this.chartState.edges(), {
+      name,
+      chartType: this.chartState.chartType()
+    }, this.chartState.layoutSettings(), this.chartState.fieldSchema(), this.chartState.cardDesign(), this.chartState.theme());
     const jsonString = JSON.stringify(data, null, 2);
-    this.downloadFile(jsonString, 'chartflow-export.json', 'application/json');
+    downloadFile(jsonString, `${toFileName(name)}.json`, 'application/json');
   }
 }
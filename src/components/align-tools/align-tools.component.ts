@@ -0,0 +1,31 @@
+import { Component, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService } from '../../services/chart-state.service';
+import { ALIGN_ACTIONS, DISTRIBUTE_ACTIONS, SIZE_ACTIONS, isResizable } from '../../services/chart-align';
+
+// Align, distribute and match-size buttons for the current selection; each click is one undo step
+@Component({
+  selector: 'app-align-tools',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './align-tools.component.html'
+})
+export class AlignToolsComponent {
+  chartState = inject(ChartStateService);
+
+  alignActions = ALIGN_ACTIONS;
+  distributeActions = DISTRIBUTE_ACTIONS;
+  sizeActions = SIZE_ACTIONS;
+
+  // Distributing needs a middle item to move
+  canDistribute = computed(() => this.chartState.selectionCount() >= 3);
+
+  // Sizes are copied between resizable nodes only
+  canMatchSize = computed(() => {
+    const nodes = this.chartState.nodes();
+    return Array.from(this.chartState.selectedNodeIds()).filter(id => {
+      const node = nodes.get(id);
+      return !!node && isResizable(node.type);
+    }).length >= 2;
+  });
+}
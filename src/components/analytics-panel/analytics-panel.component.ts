@@ -0,0 +1,59 @@
+import { Component, Output, EventEmitter, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService } from '../../services/chart-state.service';
+import { computeOrgAnalytics, normalizeSpanBounds, SpanBounds, Metric, ManagerMetric } from '../../services/org-analytics';
+
+const SPAN_BOUNDS_KEY = 'chartflow:spanBounds';
+
+// Headcount, span of control and depth of the current chart. Clicking a figure selects the people behind it
+@Component({
+  selector: 'app-analytics-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './analytics-panel.component.html'
+})
+export class AnalyticsPanelComponent {
+  chartState = inject(ChartStateService);
+
+  @Output() close = new EventEmitter<void>();
+
+  spanBounds = signal<SpanBounds>(this.loadSpanBounds());
+  activeKey = signal<string | null>(null); // Figure whose people are selected
+
+  analytics = computed(() => computeOrgAnalytics(this.chartState.nodes(), this.chartState.edges(), this.spanBounds()));
+
+  // Longest bar in each chart, so the bars share a scale
+  departmentMax = computed(() => Math.max(1, ...this.analytics().departments.map(d => d.count)));
+  levelMax = computed(() => Math.max(1, ...this.analytics().levels.map(l => l.count)));
+
+  managerIds = computed(() => this.analytics().managers.map(m => m.id));
+
+  select(key: string, ids: string[]) {
+    if (ids.length === 0) return;
+    this.chartState.selectNodes(ids);
+    this.activeKey.set(key);
+  }
+
+  selectMetric(key: string, metric: Metric) {
+    this.select(key, metric.ids);
+  }
+
+  selectManagers(key: string, managers: ManagerMetric[]) {
+    this.select(key, managers.map(m => m.id));
+  }
+
+  setSpanBound(bound: keyof SpanBounds, event: Event) {
+    const value = Number((event.target as HTMLInputElement).value);
+    const bounds = normalizeSpanBounds({ ...this.spanBounds(), [bound]: value });
+    this.spanBounds.set(bounds);
+    localStorage.setItem(SPAN_BOUNDS_KEY, JSON.stringify(bounds));
+  }
+
+  private loadSpanBounds(): SpanBounds {
+    try {
+      return normalizeSpanBounds(JSON.parse(localStorage.getItem(SPAN_BOUNDS_KEY) || 'null'));
+    } catch {
+      return normalizeSpanBounds(null);
+    }
+  }
+}
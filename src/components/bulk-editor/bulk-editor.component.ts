@@ -0,0 +1,103 @@
+import { Component, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService, ChartNode, LEVELS } from '../../services/chart-state.service';
+import { FONT_FAMILIES, appliesTo } from '../../services/node-styles';
+
+type BulkProp = 'department' | 'level' | 'backgroundColor' | 'borderColor' | 'nameColor' | 'borderWidth' | 'fontFamily' | 'fontSize' | 'fontWeight' | 'fontStyle';
+type ColorProp = 'backgroundColor' | 'borderColor' | 'nameColor';
+
+const BULK_PROPS: BulkProp[] = ['department', 'level', 'backgroundColor', 'borderColor', 'nameColor', 'borderWidth', 'fontFamily', 'fontSize', 'fontWeight', 'fontStyle'];
+
+// How a property reads across the selection: how many nodes use it and their shared value
+interface BulkValue {
+  count: number; // Selected nodes the property applies to; 0 hides the control
+  value: string; // Shared value, '' when mixed or unset
+  mixed: boolean;
+}
+
+// Edits every selected node at once. Controls follow the usual pattern (history
+// on focus, live updates while typing), so each change is one undo step; nodes
+// a property doesn't apply to, and locked ones, are left out.
+@Component({
+  selector: 'app-bulk-editor',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './bulk-editor.component.html'
+})
+export class BulkEditorComponent {
+  chartState = inject(ChartStateService);
+
+  levels = LEVELS;
+  fontFamilies = FONT_FAMILIES;
+  colorFields: { prop: ColorProp; label: string }[] = [
+    { prop: 'backgroundColor', label: 'Fondo' },
+    { prop: 'borderColor', label: 'Borde' },
+    { prop: 'nameColor', label: 'Texto' }
+  ];
+
+  // Selected nodes an edit reaches
+  private targets = computed(() => {
+    const nodes = this.chartState.nodes();
+    return Array.from(this.chartState.selectedNodeIds())
+      .map(id => nodes.get(id))
+      .filter((n): n is ChartNode => !!n && !n.locked);
+  });
+
+  total = computed(() => this.targets().length);
+  lockedCount = computed(() => this.chartState.selectedNodeIds().size - this.targets().length);
+
+  private values = computed(() => {
+    const result = {} as Record<BulkProp, BulkValue>;
+    BULK_PROPS.forEach(prop => {
+      const users = this.targets().filter(n => appliesTo(n.type, prop));
+      const distinct = new Set(users.map(n => String(n[prop] ?? '').toLowerCase()));
+      const mixed = distinct.size > 1;
+      result[prop] = { count: users.length, value: mixed ? '' : String(users[0]?.[prop] ?? ''), mixed };
+    });
+    return result;
+  });
+
+  field(prop: BulkProp): BulkValue {
+    return this.values()[prop];
+  }
+
+  begin() {
+    this.chartState.saveHistory();
+  }
+
+  // Typing: history was saved on focus
+  setText(prop: 'department', event: Event) {
+    this.chartState.updateNode({ [prop]: (event.target as HTMLInputElement).value });
+  }
+
+  setChoice(prop: 'level' | 'fontFamily', event: Event) {
+    const value = (event.target as HTMLSelectElement).value;
+    if (!value) return;
+    this.chartState.saveHistory();
+    this.chartState.updateNode({ [prop]: value }, prop === 'fontFamily' && value === this.chartState.theme().fontFamily);
+  }
+
+  setNumber(prop: 'borderWidth' | 'fontSize', event: Event, min: number, max: number) {
+    const value = parseInt((event.target as HTMLInputElement).value, 10);
+    if (Number.isNaN(value)) return;
+    this.chartState.saveHistory();
+    this.chartState.updateNode({ [prop]: Math.min(max, Math.max(min, value)) });
+  }
+
+  // Colour picker: history was saved on focus
+  pickColor(prop: ColorProp, event: Event) {
+    this.chartState.updateNode({ [prop]: (event.target as HTMLInputElement).value });
+  }
+
+  setColor(prop: ColorProp, color: string) {
+    this.chartState.saveHistory();
+    this.chartState.updateNode({ [prop]: color });
+  }
+
+  // Mixed or off turns it on for everyone; all on turns it off
+  toggle(prop: 'fontWeight' | 'fontStyle', on: string) {
+    const field = this.field(prop);
+    this.chartState.saveHistory();
+    this.chartState.updateNode({ [prop]: !field.mixed && field.value === on ? 'normal' : on });
+  }
+}
@@ -0,0 +1,84 @@
+import { Component, Output, EventEmitter, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService } from '../../services/chart-state.service';
+import { CardStyleService } from '../../services/card-styles.service';
+import { CARD_TEMPLATES, DEFAULT_BADGE_COLOR, StyleRule, RuleStyle } from '../../services/card-styles';
+
+type RuleColor = 'borderColor' | 'backgroundColor' | 'nameColor' | 'badgeColor';
+
+// Card template of the chart and the styling rules that colour cards by their data
+@Component({
+  selector: 'app-card-design-editor',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './card-design-editor.component.html'
+})
+export class CardDesignEditorComponent {
+  chartState = inject(ChartStateService);
+  cardStyles = inject(CardStyleService);
+
+  @Output() close = new EventEmitter<void>();
+
+  templates = CARD_TEMPLATES;
+  defaultBadgeColor = DEFAULT_BADGE_COLOR;
+
+  colorSlots: { key: Exclude<RuleColor, 'badgeColor'>; label: string }[] = [
+    { key: 'borderColor', label: 'Borde' },
+    { key: 'backgroundColor', label: 'Fondo' },
+    { key: 'nameColor', label: 'Nombre' }
+  ];
+
+  // Starting points for a new rule, in the filter syntax of the search box
+  examples = ['departamento = Product', 'nivel >= P6', 'tipo = manager'];
+
+  errorOf(rule: StyleRule): string | null {
+    return this.cardStyles.rules().find(r => r.rule.id === rule.id)?.error || null;
+  }
+
+  matchCount(rule: StyleRule): number {
+    return this.cardStyles.legend().find(e => e.rule.id === rule.id)?.ids.length ?? 0;
+  }
+
+  addRule(condition = '') {
+    this.chartState.addStyleRule(condition);
+  }
+
+  setCondition(rule: StyleRule, event: Event) {
+    this.chartState.updateStyleRule(rule.id, { condition: (event.target as HTMLInputElement).value });
+  }
+
+  setLabel(rule: StyleRule, event: Event) {
+    const label = (event.target as HTMLInputElement).value;
+    this.chartState.updateStyleRule(rule.id, { label: label || undefined });
+  }
+
+  setColor(rule: StyleRule, key: RuleColor, event: Event) {
+    this.setStyle(rule, { [key]: (event.target as HTMLInputElement).value });
+  }
+
+  clearColor(rule: StyleRule, key: RuleColor) {
+    this.chartState.saveHistory();
+    this.setStyle(rule, { [key]: undefined });
+  }
+
+  setBadge(rule: StyleRule, event: Event) {
+    this.setStyle(rule, { badge: (event.target as HTMLInputElement).value || undefined });
+  }
+
+  toggle(rule: StyleRule) {
+    this.chartState.saveHistory();
+    this.chartState.updateStyleRule(rule.id, { disabled: rule.disabled ? undefined : true });
+  }
+
+  remove(rule: StyleRule) {
+    this.chartState.removeStyleRule(rule.id);
+  }
+
+  toggleLegend(event: Event) {
+    this.chartState.setLegendVisible((event.target as HTMLInputElement).checked);
+  }
+
+  private setStyle(rule: StyleRule, changes: Partial<RuleStyle>) {
+    this.chartState.updateStyleRule(rule.id, { style: { ...rule.style, ...changes } });
+  }
+}
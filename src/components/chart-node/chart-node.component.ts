@@ -1,6 +1,9 @@
 import { Component, Input, Output, EventEmitter, ElementRef, AfterViewInit, OnDestroy, HostListener, ViewChild } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ChartNode } from '../../services/chart-state.service';
+import { ChartNode, EdgePort, FieldDefinition } from '../../services/chart-state.service';
+import { cardFieldRows } from '../../services/chart-fields';
+import { CardTemplate, CardStyle, badgeTextColor } from '../../services/card-styles';
+import { SHAPE_POLYGONS } from '../../services/chart-geometry';
 
 @Component({
   selector: 'app-chart-node',
@@ -33,14 +36,32 @@ import { ChartNode } from '../../services/chart-state.service';
 export class ChartNodeComponent {
   @Input({ required: true }) node!: ChartNode;
   @Input() isSelected = false;
+  @Input() isPinned = false;
+  @Input() isLocked = false;
+  @Input() searchHighlight: 'active' | 'match' | null = null;
+  @Input() reportCount = 0; // Direct reports; cards with any can be collapsed
+  @Input() hiddenCount = 0; // Everyone hidden below a collapsed card
   @Input() nodeWidth?: number;
   @Input() nodeHeight?: number;
+  @Input() cardTemplate: CardTemplate = 'standard';
+  @Input() cardStyle: CardStyle | null = null; // From the chart's styling rules; wins over the node's colours
+  @Input() cardFields: FieldDefinition[] = []; // Custom fields shown under the level
+  @Input() cardRadius = 12; // From the chart's theme
 
   @Output() nodeDown = new EventEmitter<MouseEvent | TouchEvent>();
-  @Output() linkStart = new EventEmitter<MouseEvent | TouchEvent>();
+  @Output() linkStart = new EventEmitter<{ event: MouseEvent | TouchEvent; port: EdgePort }>();
   @Output() dimensionsChange = new EventEmitter<{w: number, h: number}>();
   @Output() textChange = new EventEmitter<string>();
+  @Output() collapseToggle = new EventEmitter<void>();
   
+  // Link handles, centred on each side; `inside` is for nodes that clip their overflow
+  readonly ports: { side: EdgePort; outside: string; inside: string }[] = [
+    { side: 'top', outside: 'left-1/2 -translate-x-1/2 -top-[11px]', inside: 'left-1/2 -translate-x-1/2 top-1' },
+    { side: 'right', outside: 'top-1/2 -translate-y-1/2 -right-[11px]', inside: 'top-1/2 -translate-y-1/2 right-1' },
+    { side: 'bottom', outside: 'left-1/2 -translate-x-1/2 -bottom-[11px]', inside: 'left-1/2 -translate-x-1/2 bottom-1' },
+    { side: 'left', outside: 'top-1/2 -translate-y-1/2 -left-[11px]', inside: 'top-1/2 -translate-y-1/2 left-1' }
+  ];
+
   @ViewChild('textInput') textInput?: ElementRef<HTMLTextAreaElement>;
   isEditing = false;
 
@@ -54,22 +75,27 @@ export class ChartNodeComponent {
   }
 
   getClipPath(): string | null {
-    switch (this.node.shapeType) {
-      case 'triangle':
-        return 'polygon(50% 0%, 0% 100%, 100% 100%)';
-      case 'diamond':
-        return 'polygon(50% 0%, 100% 50%, 50% 100%, 0% 50%)';
-      case 'star':
-        return 'polygon(50% 0%, 61% 35%, 98% 35%, 68% 57%, 79% 91%, 50% 70%, 21% 91%, 32% 57%, 2% 35%, 39% 35%)';
-      default:
-        return null;
-    }
+    const polygon = this.node.shapeType && SHAPE_POLYGONS[this.node.shapeType];
+    if (!polygon) return null;
+    return `polygon(${polygon.map(([x, y]) => `${x}% ${y}%`).join(', ')})`;
   }
 
   hasBorder(): boolean {
     return !['triangle', 'diamond', 'star'].includes(this.node.shapeType || 'rectangle');
   }
 
+  cardColor(key: 'backgroundColor' | 'borderColor' | 'nameColor', fallback: string): string {
+    return this.cardStyle?.[key] || this.node[key] || fallback;
+  }
+
+  badgeText(color: string): string {
+    return badgeTextColor(color);
+  }
+
+  fieldRows() {
+    return cardFieldRows(this.node, this.cardFields);
+  }
+
   isMaterialIcon(str?: string): boolean {
     if (!str) return true;
     return /^[a-z0-9_]+$/.test(str);
@@ -77,6 +103,7 @@ export class ChartNodeComponent {
   
   enterEditMode(event: MouseEvent) {
     event.stopPropagation();
+    if (this.isLocked) return;
     this.isEditing = true;
     setTimeout(() => {
       this.textInput?.nativeElement.focus();
@@ -90,11 +117,11 @@ export class ChartNodeComponent {
     }
   }
 
-  onLinkMouseDown(event: MouseEvent | TouchEvent) {
+  onLinkMouseDown(event: MouseEvent | TouchEvent, port: EdgePort) {
     event.stopPropagation();
     event.preventDefault();
     if (!('button' in event) || ('button' in event && event.button === 0)) {
-      this.linkStart.emit(event);
+      this.linkStart.emit({ event, port });
     }
   }
   
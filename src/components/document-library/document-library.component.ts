@@ -0,0 +1,62 @@
+import { Component, Output, EventEmitter, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DocumentLibraryService } from '../../services/document-library.service';
+
+@Component({
+  selector: 'app-document-library',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './document-library.component.html'
+})
+export class DocumentLibraryComponent {
+  library = inject(DocumentLibraryService);
+
+  @Output() close = new EventEmitter<void>();
+  @Output() documentOpened = new EventEmitter<boolean>(); // true when the document is brand new
+
+  // Id of the document whose name is being edited inline
+  renamingId = signal<string | null>(null);
+
+  async createDocument(chartType: string) {
+    const name = chartType === 'whiteboard' ? 'Nuevo pizarrón' : chartType === 'matrix' ? 'Nueva matriz' : 'Nuevo organigrama';
+    await this.library.createDocument(name, chartType);
+    this.documentOpened.emit(true);
+    this.close.emit();
+  }
+
+  async openDocument(id: string) {
+    if (id !== this.library.currentDocumentId()) {
+      await this.library.openDocument(id);
+      this.documentOpened.emit(false);
+    }
+    this.close.emit();
+  }
+
+  startRename(id: string, event: Event) {
+    event.stopPropagation();
+    this.renamingId.set(id);
+  }
+
+  async commitRename(id: string, event: Event) {
+    const value = (event.target as HTMLInputElement).value;
+    this.renamingId.set(null);
+    await this.library.renameDocument(id, value);
+  }
+
+  async duplicateDocument(id: string, event: Event) {
+    event.stopPropagation();
+    await this.library.duplicateDocument(id);
+  }
+
+  async deleteDocument(id: string, name: string, event: Event) {
+    event.stopPropagation();
+    if (!confirm(`¿Eliminar "${name}"? Esta acción no se puede deshacer.`)) return;
+    const wasCurrent = id === this.library.currentDocumentId();
+    await this.library.deleteDocument(id);
+    if (wasCurrent) this.documentOpened.emit(false);
+  }
+
+  formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleString('es', { dateStyle: 'medium', timeStyle: 'short' });
+  }
+}
@@ -0,0 +1,75 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService, ChartEdge, EdgeKind, EdgePort, EdgeRouting, EdgeStrokeStyle } from '../../services/chart-state.service';
+import { EDGE_KINDS, EDGE_PORTS, EDGE_ROUTINGS, EDGE_STROKE_STYLES, resolveEdgeStyle } from '../../services/chart-edges';
+
+// Sidebar panel for the selected connector
+@Component({
+  selector: 'app-edge-properties',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './edge-properties.component.html'
+})
+export class EdgePropertiesComponent {
+  chartState = inject(ChartStateService);
+
+  kinds = EDGE_KINDS;
+  routings = EDGE_ROUTINGS;
+  ports = EDGE_PORTS;
+  strokeStyles = EDGE_STROKE_STYLES;
+  colors = ['#64748b', '#0f172a', '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+
+  nodeName(id: string): string {
+    return this.chartState.nodes().get(id)?.name || 'Sin nombre';
+  }
+
+  style(edge: ChartEdge) {
+    return resolveEdgeStyle(edge, this.chartState.connectorColor());
+  }
+
+  setKind(edge: ChartEdge, kind: EdgeKind) {
+    this.chartState.setEdgeKind(edge.id, kind);
+  }
+
+  // Typing updates live; history was saved when the field got focus
+  updateLabel(edge: ChartEdge, event: Event) {
+    const label = (event.target as HTMLInputElement).value;
+    this.chartState.updateEdge(edge.id, { label: label || undefined });
+  }
+
+  setStrokeStyle(edge: ChartEdge, strokeStyle: EdgeStrokeStyle) {
+    this.chartState.saveHistory();
+    this.chartState.updateEdge(edge.id, { strokeStyle });
+  }
+
+  setColor(edge: ChartEdge, color: string | undefined) {
+    this.chartState.saveHistory();
+    this.chartState.updateEdge(edge.id, { color });
+  }
+
+  updateColor(edge: ChartEdge, event: Event) {
+    this.chartState.updateEdge(edge.id, { color: (event.target as HTMLInputElement).value });
+  }
+
+  updateWidth(edge: ChartEdge, event: Event) {
+    this.chartState.updateEdge(edge.id, { strokeWidth: parseInt((event.target as HTMLInputElement).value, 10) });
+  }
+
+  toggleArrow(edge: ChartEdge, end: 'arrowStart' | 'arrowEnd') {
+    this.chartState.saveHistory();
+    this.chartState.updateEdge(edge.id, { [end]: !this.style(edge)[end] });
+  }
+
+  setRouting(edge: ChartEdge, event: Event) {
+    this.chartState.saveHistory();
+    const routing = (event.target as HTMLSelectElement).value as EdgeRouting;
+    this.chartState.updateEdge(edge.id, { routing: routing === 'auto' ? undefined : routing });
+  }
+
+  // An empty choice hands the side back to the layout
+  setPort(edge: ChartEdge, end: 'sourcePort' | 'targetPort', event: Event) {
+    this.chartState.saveHistory();
+    const port = (event.target as HTMLSelectElement).value as EdgePort | '';
+    this.chartState.updateEdge(edge.id, { [end]: port || undefined });
+  }
+}
@@ -0,0 +1,285 @@
+import { Component, Input, Output, EventEmitter, OnInit, inject, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService, ChartNode } from '../../services/chart-state.service';
+import { DocumentLibraryService } from '../../services/document-library.service';
+import { buildRosterRows, buildOtherNodesRows } from '../../services/roster-export';
+import { toDelimited, Delimiter } from '../../services/csv';
+import { downloadFile, toFileName } from '../../services/download';
+import { buildChartSvg, inlineImages, ExportTheme, THEME_COLORS, RenderedSvg } from '../../services/svg-export';
+import { renderPng, maxPngScale, PNG_SCALES } from '../../services/png-export';
+import { getContentBounds, Bounds } from '../../services/chart-geometry';
+import { buildChartPdf, planSheets, planTiles, planGroupSheets, PAPER_SIZES, PaperSize, PaperOrientation, PdfMode, PdfExportOptions } from '../../services/pdf-export';
+
+export type ExportFormat = 'csv' | 'svg' | 'png' | 'pdf';
+
+@Component({
+  selector: 'app-export-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './export-dialog.component.html'
+})
+export class ExportDialogComponent implements OnInit {
+  chartState = inject(ChartStateService);
+  documentLibrary = inject(DocumentLibraryService);
+
+  @Input({ required: true }) format!: ExportFormat;
+  // Size of the visible canvas, for viewport exports
+  @Input() viewportWidth = 0;
+  @Input() viewportHeight = 0;
+  @Output() close = new EventEmitter<void>();
+
+  // CSV options
+  csvDelimiter = signal<Delimiter>(',');
+  nonPersonMode = signal<'exclude' | 'separate'>('exclude');
+
+  // Image options
+  scope = signal<'all' | 'selection' | 'viewport'>('all');
+  padding = signal(40);
+  theme = signal<ExportTheme>('light');
+  backgroundMode = signal<'theme' | 'transparent' | 'custom'>('theme');
+  customBackground = signal('#ffffff');
+  pngScale = signal(2);
+  pngScales = PNG_SCALES;
+
+  // PDF options
+  paper = signal<PaperSize>('a4');
+  orientation = signal<PaperOrientation>('landscape');
+  pdfMode = signal<PdfMode>('tiles');
+  pdfScale = signal(1);
+  overlapMm = signal(10);
+  pageNumbers = signal(true);
+  titleBlock = signal(true);
+  progress = signal<string | null>(null);
+
+  papers = Object.entries(PAPER_SIZES).map(([id, paper]) => ({ id: id as PaperSize, label: paper.label }));
+  pdfScales = [1, 0.75, 0.5, 0.25];
+  overlaps = [0, 5, 10, 20];
+
+  // What the canvas shows: people in collapsed branches (and areas left empty) are left out of the drawings
+  private visible = computed(() => {
+    const hidden = this.chartState.hiddenNodeIds();
+    return {
+      nodes: new Map<string, ChartNode>(Array.from(this.chartState.nodes()).filter(([id]) => !hidden.has(id))),
+      positions: this.chartState.visiblePositions(),
+      edges: this.chartState.edges().filter(e => !hidden.has(e.sourceId) && !hidden.has(e.targetId))
+    };
+  });
+
+  hasGroups = computed(() => Array.from(this.visible().nodes.values()).some(n => n.type === 'group'));
+
+  pdfOptions = computed<PdfExportOptions>(() => ({
+    paper: this.paper(),
+    orientation: this.orientation(),
+    mode: this.pdfMode(),
+    scale: this.pdfScale(),
+    overlapMm: this.overlapMm(),
+    pageNumbers: this.pageNumbers(),
+    titleBlock: this.titleBlock(),
+    title: this.documentLibrary.currentDocumentName(),
+    date: new Date()
+  }));
+
+  // Page count preview; tiles are estimated from the stored node sizes
+  estimatedPages = computed(() => {
+    if (this.pdfMode() === 'groups') {
+      return planGroupSheets(this.visible().nodes, this.visible().positions, this.chartState.drawings()).length;
+    }
+    const bounds = this.chartState.contentBounds();
+    return bounds ? planTiles(bounds, this.pdfOptions()).length : 0;
+  });
+
+  isExporting = signal(false);
+  errorMessage = signal<string | null>(null);
+
+  hasSelection = computed(() => this.chartState.selectionCount() > 0 || this.chartState.selectedDrawingIds().size > 0);
+
+  // Rough output size at 1x, used to rule out scales the browser cannot rasterise
+  estimatedSize = computed(() => {
+    let bounds: Bounds | null;
+    switch (this.scope()) {
+      case 'viewport':
+        return { width: this.viewportWidth / (this.chartState.zoomLevel() / 100), height: this.viewportHeight / (this.chartState.zoomLevel() / 100) };
+      case 'selection': {
+        const positions = this.chartState.nodePositions();
+        const selected = Array.from(this.chartState.selectedNodeIds()).map(id => positions.get(id)!).filter(Boolean);
+        const drawings = this.chartState.drawings().filter(d => this.chartState.selectedDrawingIds().has(d.id));
+        bounds = getContentBounds(selected, drawings);
+        break;
+      }
+      default:
+        bounds = this.chartState.contentBounds();
+    }
+    return bounds ? { width: bounds.width + this.padding() * 2, height: bounds.height + this.padding() * 2 } : { width: 0, height: 0 };
+  });
+
+  maxScale = computed(() => maxPngScale(this.estimatedSize().width, this.estimatedSize().height));
+
+  delimiters: { value: Delimiter; label: string }[] = [
+    { value: ',', label: 'Coma (,)' },
+    { value: ';', label: 'Punto y coma (;)' },
+    { value: '\t', label: 'Tabulador (TSV)' }
+  ];
+
+  ngOnInit() {
+    this.theme.set(this.chartState.isDarkMode() ? 'dark' : 'light');
+    if (this.hasSelection()) this.scope.set('selection');
+    if (this.pngScale() > this.maxScale()) this.pngScale.set(1);
+  }
+
+  setDelimiter(e: Event) {
+    this.csvDelimiter.set((e.target as HTMLSelectElement).value as Delimiter);
+  }
+
+  setPaper(e: Event) {
+    this.paper.set((e.target as HTMLSelectElement).value as PaperSize);
+  }
+
+  setPadding(e: Event) {
+    const value = Number((e.target as HTMLInputElement).value);
+    this.padding.set(Number.isFinite(value) ? Math.max(0, Math.min(500, value)) : 0);
+  }
+
+  async export() {
+    if (this.isExporting()) return;
+    this.errorMessage.set(null);
+    this.isExporting.set(true);
+    try {
+      let done = true;
+      if (this.format === 'csv') this.exportCsv();
+      if (this.format === 'svg') done = await this.exportSvg();
+      if (this.format === 'png') done = await this.exportPng();
+      if (this.format === 'pdf') done = await this.exportPdf();
+      if (done) this.close.emit();
+    } catch (err) {
+      console.error('Export failed', err);
+      this.errorMessage.set('No se pudo generar el archivo.');
+    } finally {
+      this.isExporting.set(false);
+      this.progress.set(null);
+    }
+  }
+
+  private backgroundColor(): string | null {
+    switch (this.backgroundMode()) {
+      case 'transparent': return null;
+      case 'custom': return this.customBackground();
+      default: return THEME_COLORS[this.theme()].background;
+    }
+  }
+
+  private exportCsv() {
+    const baseName = toFileName(this.documentLibrary.currentDocumentName());
+    const delimiter = this.csvDelimiter();
+    const extension = delimiter === '\t' ? 'tsv' : 'csv';
+    const mime = delimiter === '\t' ? 'text/tab-separated-values' : 'text/csv';
+    // The BOM makes Excel read accents correctly
+    const bom = '\uFEFF';
+
+    const roster = toDelimited(buildRosterRows(this.chartState.hierarchy(), this.chartState.fieldSchema()), delimiter);
+    downloadFile(bom + roster, `${baseName}-plantilla.${extension}`, mime);
+
+    if (this.nonPersonMode() === 'separate') {
+      // Collapsing is a view setting: like the roster, this sheet lists everyone
+      const others = buildOtherNodesRows(this.chartState.nodes(), this.chartState.nodePositions());
+      if (others.length > 1) {
+        downloadFile(bom + toDelimited(others, delimiter), `${baseName}-otros-elementos.${extension}`, mime);
+      }
+    }
+  }
+
+  // Avatars uploaded from disk live in blob: URLs that mean nothing outside this tab
+  private inlineAvatars(): Promise<Map<string, string>> {
+    const urls = Array.from(this.visible().nodes.values())
+      .filter(n => n.avatarType === 'image' && n.avatarImage)
+      .map(n => n.avatarImage!);
+    return inlineImages(urls);
+  }
+
+  private async renderSvg(): Promise<RenderedSvg | null> {
+    const selection = this.scope() === 'selection';
+    const svg = buildChartSvg({
+      nodes: this.visible().nodes,
+      positions: this.visible().positions,
+      drawings: this.chartState.drawings(),
+      edges: this.visible().edges,
+      flow: this.chartState.edgeFlow(),
+      connectorStyle: this.chartState.layoutSettings().connectorStyle,
+      overlaySecondary: this.chartState.chartType() === 'matrix',
+      nodeIds: selection ? this.chartState.selectedNodeIds() : undefined,
+      drawingIds: selection ? this.chartState.selectedDrawingIds() : undefined,
+      images: await this.inlineAvatars(),
+      fields: this.chartState.fieldSchema(),
+      cardDesign: this.chartState.cardDesign(),
+      theme: this.chartState.theme()
+    }, {
+      padding: this.padding(),
+      background: this.backgroundColor(),
+      theme: this.theme(),
+      frame: this.scope() === 'viewport' ? this.viewportFrame() : undefined
+    });
+
+    if (!svg) this.errorMessage.set('No hay nada que exportar.');
+    return svg;
+  }
+
+  // The visible canvas area in world coordinates
+  private viewportFrame(): Bounds {
+    const zoom = this.chartState.zoomLevel() / 100;
+    const pan = this.chartState.panOffset();
+    const minX = -pan.x / zoom;
+    const minY = -pan.y / zoom;
+    const width = this.viewportWidth / zoom;
+    const height = this.viewportHeight / zoom;
+    return { minX, minY, maxX: minX + width, maxY: minY + height, width, height };
+  }
+
+  private async exportSvg(): Promise<boolean> {
+    const svg = await this.renderSvg();
+    if (!svg) return false;
+    downloadFile(svg.markup, `${toFileName(this.documentLibrary.currentDocumentName())}.svg`, 'image/svg+xml');
+    return true;
+  }
+
+  private async exportPng(): Promise<boolean> {
+    const svg = await this.renderSvg();
+    if (!svg) return false;
+    const scale = this.pngScale();
+    if (scale > maxPngScale(svg.width, svg.height)) {
+      this.errorMessage.set(`El organigrama es demasiado grande para exportarlo a ${scale}x.`);
+      return false;
+    }
+    const blob = await renderPng(svg, scale);
+    const suffix = scale === 1 ? '' : `@${scale}x`;
+    downloadFile(blob, `${toFileName(this.documentLibrary.currentDocumentName())}${suffix}.png`, 'image/png');
+    return true;
+  }
+
+  private async exportPdf(): Promise<boolean> {
+    const content = {
+      nodes: this.visible().nodes,
+      positions: this.visible().positions,
+      drawings: this.chartState.drawings(),
+      edges: this.visible().edges,
+      flow: this.chartState.edgeFlow(),
+      connectorStyle: this.chartState.layoutSettings().connectorStyle,
+      overlaySecondary: this.chartState.chartType() === 'matrix',
+      images: await this.inlineAvatars(),
+      fields: this.chartState.fieldSchema(),
+      cardDesign: this.chartState.cardDesign(),
+      theme: this.chartState.theme()
+    };
+
+    const options = this.pdfOptions();
+    const sheets = planSheets(content, options);
+    if (sheets.length === 0) {
+      this.errorMessage.set('No hay nada que exportar.');
+      return false;
+    }
+
+    const pdf = await buildChartPdf(content, sheets, options, (done, total) => {
+      this.progress.set(`Página ${done} de ${total}`);
+    });
+    downloadFile(pdf, `${toFileName(options.title)}.pdf`, 'application/pdf');
+    return true;
+  }
+}
@@ -0,0 +1,83 @@
+import { Component, Output, EventEmitter, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService, FieldDefinition, FieldType } from '../../services/chart-state.service';
+import { FIELD_TYPES } from '../../services/chart-fields';
+
+// The chart's custom fields: names, types, list options, order and which ones cards show
+@Component({
+  selector: 'app-field-schema-editor',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './field-schema-editor.component.html'
+})
+export class FieldSchemaEditorComponent {
+  chartState = inject(ChartStateService);
+
+  @Output() close = new EventEmitter<void>();
+
+  fieldTypes = FIELD_TYPES;
+  newLabel = signal('');
+  newType = signal<FieldType>('text');
+
+  typeIcon(type: FieldType): string {
+    return FIELD_TYPES.find(t => t.id === type)?.icon || 'notes';
+  }
+
+  // How many people have a value, so deleting says what it loses
+  valueCount(field: FieldDefinition): number {
+    return Array.from(this.chartState.nodes().values()).filter(n => n.fields?.[field.id]).length;
+  }
+
+  rename(field: FieldDefinition, event: Event) {
+    this.chartState.updateField(field.id, { label: (event.target as HTMLInputElement).value });
+  }
+
+  // Blank names would leave an unlabeled row on every card
+  restoreLabel(field: FieldDefinition, event: Event) {
+    const input = event.target as HTMLInputElement;
+    if (input.value.trim()) return;
+    input.value = field.id;
+    this.chartState.updateField(field.id, { label: field.id });
+  }
+
+  setType(field: FieldDefinition, event: Event) {
+    this.chartState.setFieldType(field.id, (event.target as HTMLSelectElement).value as FieldType);
+  }
+
+  optionsText(field: FieldDefinition): string {
+    return (field.options || []).join('\n');
+  }
+
+  setOptions(field: FieldDefinition, event: Event) {
+    const lines = (event.target as HTMLTextAreaElement).value.split('\n').map(l => l.trim()).filter(Boolean);
+    this.chartState.updateField(field.id, { options: Array.from(new Set(lines)) });
+  }
+
+  toggleOnCard(field: FieldDefinition) {
+    this.chartState.saveHistory();
+    this.chartState.updateField(field.id, { showOnCard: !field.showOnCard });
+  }
+
+  remove(field: FieldDefinition) {
+    const count = this.valueCount(field);
+    const detail = count > 0 ? ` Se borrarán los valores de ${count} ${count === 1 ? 'persona' : 'personas'}.` : '';
+    if (confirm(`¿Eliminar el campo «${field.label}»?${detail}`)) {
+      this.chartState.removeField(field.id);
+    }
+  }
+
+  add() {
+    const label = this.newLabel().trim();
+    if (!label) return;
+    this.chartState.addField(label, this.newType());
+    this.newLabel.set('');
+  }
+
+  onNewLabel(event: Event) {
+    this.newLabel.set((event.target as HTMLInputElement).value);
+  }
+
+  onNewType(event: Event) {
+    this.newType.set((event.target as HTMLSelectElement).value as FieldType);
+  }
+}
@@ -0,0 +1,56 @@
+import { Component, Input, Output, EventEmitter, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService, ChartNode, FieldDefinition } from '../../services/chart-state.service';
+import { parseFieldValue, fieldHref } from '../../services/chart-fields';
+
+// A person's values for the chart's custom fields, one editor per field type
+@Component({
+  selector: 'app-field-values',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './field-values.component.html'
+})
+export class FieldValuesComponent {
+  chartState = inject(ChartStateService);
+
+  @Input({ required: true }) node!: ChartNode;
+  @Output() editSchema = new EventEmitter<void>();
+
+  value(field: FieldDefinition): string {
+    return this.node.fields?.[field.id] || '';
+  }
+
+  isInvalid(field: FieldDefinition): boolean {
+    return parseFieldValue(field, this.value(field)) === null;
+  }
+
+  href(field: FieldDefinition): string | null {
+    return this.isInvalid(field) ? null : fieldHref(field, this.value(field));
+  }
+
+  // Keystrokes are stored as typed so nothing jumps under the cursor
+  onInput(field: FieldDefinition, event: Event) {
+    this.chartState.updateNodeField(field.id, (event.target as HTMLInputElement).value);
+  }
+
+  // Leaving the box tidies the value up; one that doesn't fit stays, marked in red
+  onChange(field: FieldDefinition, event: Event) {
+    const input = event.target as HTMLInputElement | HTMLSelectElement;
+    const parsed = parseFieldValue(field, input.value);
+    if (parsed !== null && parsed !== input.value) this.chartState.updateNodeField(field.id, parsed);
+  }
+
+  onSelect(field: FieldDefinition, event: Event) {
+    this.chartState.saveHistory();
+    this.chartState.updateNodeField(field.id, (event.target as HTMLSelectElement).value);
+  }
+
+  inputType(field: FieldDefinition): string {
+    switch (field.type) {
+      case 'date': return 'date';
+      case 'email': return 'email';
+      case 'url': return 'url';
+      default: return 'text';
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { Component, ElementRef, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService } from '../../services/chart-state.service';
+import { LAYOUT_ALGORITHMS, CONNECTOR_STYLES, LayoutAlgorithm, ConnectorStyle } from '../../services/chart-layout';
+
+type SpacingKey = 'levelSpacing' | 'siblingSpacing' | 'groupSpacing';
+
+@Component({
+  selector: 'app-layout-menu',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './layout-menu.component.html',
+  host: {
+    '(document:click)': 'onDocumentClick($event)'
+  }
+})
+export class LayoutMenuComponent {
+  chartState = inject(ChartStateService);
+  private host = inject(ElementRef<HTMLElement>);
+
+  isOpen = signal(false);
+  depth = signal(2); // Level the collapse commands work on; top managers are level 1
+  algorithms = LAYOUT_ALGORITHMS;
+  connectorStyles = CONNECTOR_STYLES;
+
+  spacingFields: { key: SpacingKey; label: string; min: number; max: number; step: number }[] = [
+    { key: 'levelSpacing', label: 'Entre niveles', min: 150, max: 1000, step: 10 },
+    { key: 'siblingSpacing', label: 'Entre compañeros', min: 0, max: 400, step: 10 },
+    { key: 'groupSpacing', label: 'Entre departamentos', min: 0, max: 2000, step: 20 }
+  ];
+
+  toggle() {
+    this.isOpen.update(v => !v);
+  }
+
+  selectAlgorithm(algorithm: LayoutAlgorithm) {
+    this.chartState.setLayoutSettings({ algorithm });
+  }
+
+  setSpacing(key: SpacingKey, event: Event) {
+    this.chartState.setLayoutSettings({ [key]: Number((event.target as HTMLInputElement).value) });
+  }
+
+  selectConnectorStyle(style: ConnectorStyle) {
+    this.chartState.setConnectorStyle(style);
+  }
+
+  setDepth(event: Event) {
+    const value = Math.round(Number((event.target as HTMLInputElement).value));
+    this.depth.set(Math.min(Math.max(value || 1, 1), 20));
+  }
+
+  setIncremental(event: Event) {
+    this.chartState.setIncrementalLayout((event.target as HTMLInputElement).checked);
+  }
+
+  onDocumentClick(event: MouseEvent) {
+    if (this.isOpen() && !this.host.nativeElement.contains(event.target as Node)) {
+      this.isOpen.set(false);
+    }
+  }
+}
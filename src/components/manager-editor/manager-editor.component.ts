@@ -0,0 +1,63 @@
+import { Component, Input, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService, ChartNode } from '../../services/chart-state.service';
+
+const PERSON_TYPES: ChartNode['type'][] = ['executive', 'manager', 'employee'];
+
+// Primary manager and, in matrix charts, the secondary (dotted-line) ones of a person
+@Component({
+  selector: 'app-manager-editor',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './manager-editor.component.html'
+})
+export class ManagerEditorComponent {
+  chartState = inject(ChartStateService);
+
+  @Input({ required: true }) personId!: string;
+
+  primary(): string | null {
+    return this.chartState.primaryManagerOf(this.personId);
+  }
+
+  secondaries(): ChartNode[] {
+    const nodes = this.chartState.nodes();
+    return this.chartState.secondaryManagersOf(this.personId).map(id => nodes.get(id)).filter((n): n is ChartNode => !!n);
+  }
+
+  // Secondary lines exist in any org chart, but are only offered up front in matrix ones
+  showSecondaries(): boolean {
+    return this.chartState.chartType() === 'matrix' || this.chartState.secondaryManagersOf(this.personId).length > 0;
+  }
+
+  // People who could manage this person without closing a loop
+  primaryCandidates(): ChartNode[] {
+    const primary = this.primary();
+    return this.people().filter(n => n.id === primary || this.chartState.canManage(n.id, this.personId));
+  }
+
+  secondaryCandidates(): ChartNode[] {
+    const taken = new Set([this.primary(), ...this.chartState.secondaryManagersOf(this.personId)]);
+    return this.people().filter(n => !taken.has(n.id) && this.chartState.canManage(n.id, this.personId));
+  }
+
+  setPrimary(event: Event) {
+    this.chartState.setPrimaryManager(this.personId, (event.target as HTMLSelectElement).value || null);
+  }
+
+  addSecondary(event: Event) {
+    const select = event.target as HTMLSelectElement;
+    if (select.value) this.chartState.addSecondaryManager(this.personId, select.value);
+    select.value = '';
+  }
+
+  removeSecondary(managerId: string) {
+    this.chartState.removeSecondaryManager(this.personId, managerId);
+  }
+
+  private people(): ChartNode[] {
+    return Array.from(this.chartState.nodes().values())
+      .filter(n => PERSON_TYPES.includes(n.type) && n.id !== this.personId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
@@ -1,6 +1,8 @@
 import { Component, Input, computed, inject, ElementRef, ViewChild, Signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ChartStateService } from '../../services/chart-state.service';
+import { ChartSearchService } from '../../services/chart-search.service';
+import { CardStyleService } from '../../services/card-styles.service';
 
 @Component({
   selector: 'app-minimap',
@@ -15,6 +17,8 @@ import { ChartStateService } from '../../services/chart-state.service';
 })
 export class MinimapComponent {
   chartState = inject(ChartStateService);
+  search = inject(ChartSearchService);
+  cardStyles = inject(CardStyleService);
   
   @ViewChild('minimapContainer') minimapContainer!: ElementRef<HTMLDivElement>;
 
@@ -27,65 +31,21 @@ export class MinimapComponent {
 
   // Determine the bounding box of the entire chart content
   bounds = computed(() => {
-    const positions = this.chartState.nodePositions();
-    const drawings = this.chartState.drawings();
-    
-    if (positions.size === 0 && drawings.length === 0) {
-      // Default bounds if empty
-      return { minX: 0, minY: 0, maxX: 1000, maxY: 1000, width: 1000, height: 1000 };
-    }
+    const content = this.chartState.contentBounds();
 
-    let minX = Infinity;
-    let minY = Infinity;
-    let maxX = -Infinity;
-    let maxY = -Infinity;
-
-    // Check Nodes
-    positions.forEach(pos => {
-      if (pos.x < minX) minX = pos.x;
-      if (pos.y < minY) minY = pos.y;
-      const w = pos.width || 208;
-      const h = pos.height || 100;
-      if (pos.x + w > maxX) maxX = pos.x + w;
-      if (pos.y + h > maxY) maxY = pos.y + h;
-    });
-
-    // Check Drawings
-    drawings.forEach(d => {
-        // Extract numbers from path "M 10 20 L 30 40"
-        const coords = d.path.match(/[-+]?[0-9]*\.?[0-9]+/g);
-        if (coords) {
-            for (let i = 0; i < coords.length; i += 2) {
-                const x = parseFloat(coords[i]);
-                const y = parseFloat(coords[i+1]);
-                if (!isNaN(x)) {
-                   if (x < minX) minX = x;
-                   if (x > maxX) maxX = x;
-                }
-                if (!isNaN(y)) {
-                   if (y < minY) minY = y;
-                   if (y > maxY) maxY = y;
-                }
-            }
-        }
-    });
-    
-    // Safety check if we found nothing valid
-    if (minX === Infinity) {
-        minX = 0; minY = 0; maxX = 1000; maxY = 1000;
+    // Default bounds if empty
+    if (!content) {
+      return { minX: 0, minY: 0, maxX: 1000, maxY: 1000, width: 1000, height: 1000 };
     }
 
     // Add padding to bounds
-    minX -= this.padding;
-    minY -= this.padding;
-    maxX += this.padding;
-    maxY += this.padding;
-
-    const w = maxX - minX;
-    const h = maxY - minY;
+    const minX = content.minX - this.padding;
+    const minY = content.minY - this.padding;
+    const maxX = content.maxX + this.padding;
+    const maxY = content.maxY + this.padding;
 
     // Ensure non-zero dimensions
-    return { minX, minY, maxX, maxY, width: Math.max(w, 100), height: Math.max(h, 100) };
+    return { minX, minY, maxX, maxY, width: Math.max(maxX - minX, 100), height: Math.max(maxY - minY, 100) };
   });
 
   // Calculate the scaling factor to fit World Bounds into Minimap Dimensions
@@ -100,7 +60,7 @@ export class MinimapComponent {
   // Transform ChartNodes into Minimap Rects
   miniNodes = computed(() => {
     const nodes = this.chartState.nodes();
-    const positions = this.chartState.nodePositions();
+    const positions = this.chartState.visiblePositions();
     const b = this.bounds();
     const s = this.scale();
     
@@ -108,7 +68,7 @@ export class MinimapComponent {
     const offsetX = (this.width - (b.width * s)) / 2;
     const offsetY = (this.height - (b.height * s)) / 2;
 
-    const result: {id: string, x: number, y: number, w: number, h: number, color: string}[] = [];
+    const result: {id: string, x: number, y: number, w: number, h: number, color: string, highlight: 'active' | 'match' | null, dimmed: boolean}[] = [];
 
     positions.forEach((pos, id) => {
       const node = nodes.get(id);
@@ -127,8 +87,13 @@ export class MinimapComponent {
       if (node.backgroundColor && node.backgroundColor !== '#ffffff' && node.backgroundColor !== 'transparent') {
           color = node.backgroundColor;
       }
+      // Styling rules win, as on the cards; a rule that only sets the border still shows
+      const ruleStyle = this.cardStyles.styleOf(id);
+      if (ruleStyle?.backgroundColor || ruleStyle?.borderColor) {
+          color = ruleStyle.backgroundColor || ruleStyle.borderColor!;
+      }
 
-      result.push({ id, x, y, w, h, color });
+      result.push({ id, x, y, w, h, color, highlight: this.search.highlightOf(id), dimmed: this.search.isDimmed(id) });
     });
 
     return result;
@@ -247,7 +212,6 @@ export class MinimapComponent {
 
     const b = this.bounds();
     const s = this.scale();
-    const zoom = this.chartState.zoomLevel() / 100;
 
     const mapOffsetX = (this.width - (b.width * s)) / 2;
     const mapOffsetY = (this.height - (b.height * s)) / 2;
@@ -257,9 +221,6 @@ export class MinimapComponent {
     const targetWorldY = ((clickY - mapOffsetY) / s) + b.minY;
 
     // We want to center the viewport on this world position
-    const newPanX = -(targetWorldX * zoom) + (this.containerWidth / 2);
-    const newPanY = -(targetWorldY * zoom) + (this.containerHeight / 2);
-
-    this.chartState.panOffset.set({ x: newPanX, y: newPanY });
+    this.chartState.centerOn(targetWorldX, targetWorldY, this.containerWidth, this.containerHeight);
   }
 }
\ No newline at end of file
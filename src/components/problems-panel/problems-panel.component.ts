@@ -0,0 +1,47 @@
+import { Component, Input, Output, EventEmitter, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService } from '../../services/chart-state.service';
+import { ChartProblemsService } from '../../services/chart-problems.service';
+import { ChartProblem, PROBLEM_KINDS } from '../../services/chart-problems';
+
+// Live list of what's wrong with the chart, grouped by kind, with jump-to and quick fixes
+@Component({
+  selector: 'app-problems-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './problems-panel.component.html'
+})
+export class ProblemsPanelComponent {
+  chartState = inject(ChartStateService);
+  checker = inject(ChartProblemsService);
+
+  @Input() containerWidth = 0;
+  @Input() containerHeight = 0;
+  @Output() close = new EventEmitter<void>();
+
+  activeId = signal<string | null>(null); // Problem last jumped to
+
+  groups = computed(() => {
+    const problems = this.checker.problems();
+    return PROBLEM_KINDS
+      .map(kind => ({ ...kind, problems: problems.filter(p => p.kind === kind.id) }))
+      .filter(group => group.problems.length > 0);
+  });
+
+  // Selects what the problem is about and brings it into view
+  jump(problem: ChartProblem) {
+    this.activeId.set(problem.id);
+    if (problem.edgeId) {
+      this.chartState.selectEdge(problem.edgeId);
+    } else {
+      this.chartState.selectNodes(problem.nodeIds);
+    }
+    const hidden = this.chartState.hiddenNodeIds();
+    const target = problem.nodeIds.find(id => !hidden.has(id));
+    if (target) this.chartState.centerOnNode(target, this.containerWidth, this.containerHeight);
+  }
+
+  fix(problem: ChartProblem) {
+    if (problem.fix) this.chartState.applyProblemFix(problem.fix.action);
+  }
+}
@@ -0,0 +1,127 @@
+import { Component, Output, EventEmitter, inject, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService, LEVELS, FieldDefinition } from '../../services/chart-state.service';
+import { parseDelimited } from '../../services/csv';
+import { ROSTER_FIELDS, RosterField, ColumnMapping, guessMapping, buildRosterPreview, mappedColumns } from '../../services/roster-import';
+import { FIELD_TYPES, fieldIdFor, inferFieldType } from '../../services/chart-fields';
+
+@Component({
+  selector: 'app-roster-import',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './roster-import.component.html'
+})
+export class RosterImportComponent {
+  chartState = inject(ChartStateService);
+
+  @Output() close = new EventEmitter<void>();
+  @Output() imported = new EventEmitter<void>();
+
+  fields = ROSTER_FIELDS;
+
+  fileName = signal('');
+  rows = signal<string[][]>([]);
+  hasHeader = signal(true);
+  mapping = signal<ColumnMapping>({});
+  replaceChart = signal(true);
+  createFields = signal(false); // Keep unassigned columns as new custom fields
+
+  // Column labels offered in the mapping selects
+  columns = computed(() => {
+    const rows = this.rows();
+    if (rows.length === 0) return [];
+    const width = Math.max(...rows.map(r => r.length));
+    return Array.from({ length: width }, (_, i) => this.hasHeader() && rows[0][i] ? rows[0][i] : `Columna ${i + 1}`);
+  });
+
+  // Columns no field reads from (the email only feeds manager lookups), typed by their values
+  newFields = computed<{ field: FieldDefinition; column: number }[]>(() => {
+    if (!this.createFields()) return [];
+    const used = mappedColumns({ ...this.mapping(), email: undefined });
+    const dataRows = this.hasHeader() ? this.rows().slice(1) : this.rows();
+    const taken = this.chartState.fieldSchema().map(f => f.id);
+    return this.columns()
+      .map((label, column) => ({ label, column }))
+      .filter(({ column }) => !used.has(column))
+      .map(({ label, column }) => {
+        const id = fieldIdFor(label, taken);
+        taken.push(id);
+        return { field: { id, label, type: inferFieldType(dataRows.map(r => r[column] || '')) }, column };
+      });
+  });
+
+  preview = computed(() => {
+    if (this.rows().length === 0) return null;
+    const existingIds = this.replaceChart() ? new Set<string>() : new Set(this.chartState.nodes().keys());
+    const newFields = this.newFields();
+    const mapping: ColumnMapping = { ...this.mapping(), fields: { ...this.mapping().fields } };
+    newFields.forEach(({ field, column }) => mapping.fields![field.id] = column);
+    const schema = [...this.chartState.fieldSchema(), ...newFields.map(n => n.field)];
+    return buildRosterPreview(this.rows(), mapping, this.hasHeader(), LEVELS, existingIds, schema);
+  });
+
+  errorCount = computed(() => this.preview()?.issues.filter(i => i.severity === 'error').length || 0);
+  warningCount = computed(() => this.preview()?.issues.filter(i => i.severity === 'warning').length || 0);
+
+  onFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      this.fileName.set(file.name);
+      this.loadText(e.target?.result as string);
+      input.value = '';
+    };
+    reader.readAsText(file);
+  }
+
+  onPaste(event: Event) {
+    const text = (event.target as HTMLTextAreaElement).value;
+    if (text.trim()) {
+      this.fileName.set('Texto pegado');
+      this.loadText(text);
+    }
+  }
+
+  setMapping(field: RosterField, event: Event) {
+    const index = parseInt((event.target as HTMLSelectElement).value, 10);
+    this.mapping.update(m => ({ ...m, [field]: index }));
+  }
+
+  setFieldMapping(fieldId: string, event: Event) {
+    const index = parseInt((event.target as HTMLSelectElement).value, 10);
+    this.mapping.update(m => ({ ...m, fields: { ...m.fields, [fieldId]: index } }));
+  }
+
+  fieldTypeLabel(field: FieldDefinition): string {
+    return FIELD_TYPES.find(t => t.id === field.type)?.label || field.type;
+  }
+
+  toggleHeader() {
+    this.hasHeader.update(v => !v);
+    if (this.hasHeader()) this.mapping.set(guessMapping(this.rows()[0] || [], this.chartState.fieldSchema()));
+  }
+
+  reset() {
+    this.rows.set([]);
+    this.fileName.set('');
+    this.mapping.set({});
+  }
+
+  commit() {
+    const preview = this.preview();
+    if (!preview || preview.people.length === 0) return;
+    this.chartState.importRoster(preview.people, this.replaceChart(), this.newFields().map(n => n.field));
+    this.imported.emit();
+    this.close.emit();
+  }
+
+  private loadText(text: string) {
+    const rows = parseDelimited(text);
+    this.rows.set(rows);
+    this.hasHeader.set(true);
+    this.mapping.set(guessMapping(rows[0] || [], this.chartState.fieldSchema()));
+  }
+}
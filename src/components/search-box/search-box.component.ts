@@ -0,0 +1,98 @@
+import { Component, Input, ElementRef, ViewChild, inject, effect, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService, ChartNode } from '../../services/chart-state.service';
+import { ChartSearchService, SearchMode } from '../../services/chart-search.service';
+import { SEARCH_FIELD_LABELS, searchFieldText } from '../../services/chart-search';
+
+// Floating search / filter box over the canvas (Ctrl+F)
+@Component({
+  selector: 'app-search-box',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './search-box.component.html'
+})
+export class SearchBoxComponent {
+  chartState = inject(ChartStateService);
+  search = inject(ChartSearchService);
+
+  @ViewChild('searchInput') searchInput?: ElementRef<HTMLInputElement>;
+
+  @Input() containerWidth = 0;
+  @Input() containerHeight = 0;
+
+  fieldLabels = SEARCH_FIELD_LABELS;
+  modes: { id: SearchMode; label: string }[] = [
+    { id: 'search', label: 'Buscar' },
+    { id: 'filter', label: 'Filtrar' }
+  ];
+
+  constructor() {
+    effect(() => {
+      this.search.focusRequests();
+      // After the view has rendered the input
+      untracked(() => setTimeout(() => this.searchInput?.nativeElement.select()));
+    });
+
+    // Bring every new current hit into view
+    effect(() => {
+      if (this.search.activeId()) untracked(() => this.centerOnActive());
+    });
+  }
+
+  activeNode(): ChartNode | undefined {
+    const id = this.search.activeId();
+    return id ? this.chartState.nodes().get(id) : undefined;
+  }
+
+  onInput(event: Event) {
+    this.search.setQuery((event.target as HTMLInputElement).value);
+  }
+
+  onEnter(event: Event) {
+    event.preventDefault();
+    this.go((event as KeyboardEvent).shiftKey ? -1 : 1);
+  }
+
+  // Re-centres even when the hit stays the same (a single result the user panned away from)
+  go(delta: 1 | -1) {
+    this.search.step(delta);
+    this.centerOnActive();
+  }
+
+  // A hit in a collapsed branch has no card, so the node hiding it stands in
+  private centerOnActive() {
+    const id = this.search.activeHiddenUnder()?.id ?? this.search.activeId();
+    if (id) this.chartState.centerOnNode(id, this.containerWidth, this.containerHeight);
+  }
+
+  // Expands the branches hiding the current hit and brings it into view
+  reveal() {
+    this.search.revealActive();
+    this.centerOnActive();
+  }
+
+  // Where the current hit matched: a built-in field or a custom one
+  hitLabel(): string {
+    const field = this.search.activeHit()?.field;
+    if (!field) return '';
+    return typeof field === 'string' ? this.fieldLabels[field] : field.label;
+  }
+
+  hitText(node: ChartNode): string {
+    const field = this.search.activeHit()?.field;
+    return field ? searchFieldText(node, field) : '';
+  }
+
+  // Custom fields appended to the filter help
+  customFieldNames(): string {
+    return this.chartState.fieldSchema().map(f => ', ' + f.label.toLowerCase()).join('');
+  }
+
+  // Selects the current hit so it can be edited in the sidebar
+  selectActive() {
+    const id = this.search.activeId();
+    if (!id) return;
+    if (this.search.activeHiddenUnder()) this.reveal();
+    this.chartState.selectNode(id);
+  }
+}
@@ -0,0 +1,27 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService } from '../../services/chart-state.service';
+import { CardStyleService } from '../../services/card-styles.service';
+import { DEFAULT_BADGE_COLOR, LegendEntry, badgeTextColor } from '../../services/card-styles';
+
+// Key to the chart's styling rules, over the canvas. Clicking an entry selects the people it styles
+@Component({
+  selector: 'app-style-legend',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './style-legend.component.html'
+})
+export class StyleLegendComponent {
+  chartState = inject(ChartStateService);
+  cardStyles = inject(CardStyleService);
+
+  defaultBadgeColor = DEFAULT_BADGE_COLOR;
+
+  select(entry: LegendEntry) {
+    if (entry.ids.length > 0) this.chartState.selectNodes(entry.ids);
+  }
+
+  badgeText(color: string): string {
+    return badgeTextColor(color);
+  }
+}
@@ -0,0 +1,59 @@
+import { Component, Output, EventEmitter, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService } from '../../services/chart-state.service';
+import { TemplateLibraryService } from '../../services/template-library.service';
+import { BUILT_IN_TEMPLATES, ChartTemplate, StoredChartTemplate, TemplateContent, storedTemplateContent } from '../../services/chart-templates';
+
+// Left sidebar list of starting points: the built-in templates and the user's own
+@Component({
+  selector: 'app-template-gallery',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './template-gallery.component.html'
+})
+export class TemplateGalleryComponent implements OnInit {
+  chartState = inject(ChartStateService);
+  templates = inject(TemplateLibraryService);
+
+  @Output() applied = new EventEmitter<void>();
+
+  builtIn = BUILT_IN_TEMPLATES;
+  activeId = signal<string | null>(null);
+  isSaving = signal(false); // Whether the "save as template" name field is shown
+
+  ngOnInit() {
+    this.templates.refresh();
+  }
+
+  applyBuiltIn(template: ChartTemplate) {
+    this.apply(template.id, template.name, () => template.build());
+  }
+
+  applyCustom(template: StoredChartTemplate) {
+    this.apply(template.id, template.name, () => storedTemplateContent(template));
+  }
+
+  async saveCurrent(event: Event) {
+    const input = event.target as HTMLInputElement;
+    if (await this.templates.saveCurrentAsTemplate(input.value)) {
+      this.isSaving.set(false);
+    } else if (input.value.trim()) {
+      alert('No se pudo guardar la plantilla.');
+    }
+  }
+
+  async deleteCustom(template: StoredChartTemplate, event: Event) {
+    event.stopPropagation();
+    if (!confirm(`¿Eliminar la plantilla "${template.name}"? Esta acción no se puede deshacer.`)) return;
+    await this.templates.deleteTemplate(template.id);
+  }
+
+  // Replacing a chart with content in it needs the user's say-so; it stays undoable either way
+  private apply(id: string, name: string, build: () => TemplateContent) {
+    const hasContent = this.chartState.nodes().size > 0 || this.chartState.drawings().length > 0;
+    if (hasContent && !confirm(`¿Reemplazar el contenido actual por la plantilla "${name}"? Podrás deshacerlo con Ctrl+Z.`)) return;
+    this.chartState.applyTemplate(build());
+    this.activeId.set(id);
+    this.applied.emit();
+  }
+}
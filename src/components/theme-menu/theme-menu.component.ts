@@ -0,0 +1,69 @@
+import { Component, ElementRef, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ChartStateService } from '../../services/chart-state.service';
+import { ThemeLibraryService } from '../../services/theme-library.service';
+import { ChartTheme } from '../../services/chart-themes';
+
+// Header dropdown to switch the chart's theme and move themes in and out as JSON
+@Component({
+  selector: 'app-theme-menu',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './theme-menu.component.html',
+  host: {
+    '(document:click)': 'onDocumentClick($event)'
+  }
+})
+export class ThemeMenuComponent {
+  chartState = inject(ChartStateService);
+  library = inject(ThemeLibraryService);
+  private host = inject(ElementRef<HTMLElement>);
+
+  isOpen = signal(false);
+
+  toggle() {
+    this.isOpen.update(v => !v);
+  }
+
+  isActive(theme: ChartTheme): boolean {
+    return this.chartState.theme().id === theme.id;
+  }
+
+  select(theme: ChartTheme) {
+    this.chartState.setTheme(theme);
+  }
+
+  exportTheme(theme: ChartTheme, event: Event) {
+    event.stopPropagation();
+    this.library.exportTheme(theme);
+  }
+
+  deleteTheme(theme: ChartTheme, event: Event) {
+    event.stopPropagation();
+    if (confirm(`¿Quitar el tema «${theme.name}» de la biblioteca? Los organigramas que lo usan lo conservan.`)) {
+      this.library.deleteTheme(theme.id);
+    }
+  }
+
+  onFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const errors = this.library.importTheme(e.target?.result as string);
+      if (errors.length > 0) {
+        alert(`No se pudo importar el tema:\n\n${errors.join('\n')}`);
+      }
+      input.value = '';
+    };
+    reader.readAsText(file);
+  }
+
+  onDocumentClick(event: MouseEvent) {
+    if (this.isOpen() && !this.host.nativeElement.contains(event.target as Node)) {
+      this.isOpen.set(false);
+    }
+  }
+}
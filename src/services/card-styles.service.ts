@@ -0,0 +1,38 @@
+import { Injectable, computed, inject } from '@angular/core';
+import { ChartStateService, ChartNode, FieldDefinition } from './chart-state.service';
+import { CardStyle, CardTemplate, compileRules, cardStyleFor, cardFieldsFor, styleLegend } from './card-styles';
+
+// Card look of every node in the open chart, re-evaluated on every edit; read by the canvas, the minimap and the legend
+@Injectable({
+  providedIn: 'root'
+})
+export class CardStyleService {
+  private chartState = inject(ChartStateService);
+
+  rules = computed(() => compileRules(this.chartState.cardDesign().rules, this.chartState.fieldSchema()));
+
+  private styles = computed(() => {
+    const rules = this.rules();
+    const result = new Map<string, CardStyle>();
+    if (!rules.some(r => r.filter)) return result;
+    this.chartState.nodes().forEach(node => {
+      const style = cardStyleFor(node, rules);
+      if (style) result.set(node.id, style);
+    });
+    return result;
+  });
+
+  legend = computed(() => styleLegend(this.rules(), this.chartState.nodes()));
+
+  styleOf(id: string): CardStyle | null {
+    return this.styles().get(id) || null;
+  }
+
+  templateOf(node: ChartNode): CardTemplate {
+    return node.cardTemplate || this.chartState.cardDesign().template;
+  }
+
+  fieldsOf(node: ChartNode): FieldDefinition[] {
+    return cardFieldsFor(this.templateOf(node), this.chartState.fieldSchema());
+  }
+}
@@ -0,0 +1,152 @@
+import { ChartNode, FieldDefinition } from './chart-state.service';
+import { parseFilter, NodeFilter } from './chart-search';
+
+// How person cards look: a layout template for the whole chart (people can
+// override it) and styling rules that colour cards matching a condition.
+// Conditions use the search box's filter syntax, e.g. departamento = Product.
+
+export type CardTemplate = 'standard' | 'compact' | 'photo' | 'detailed';
+
+export const CARD_TEMPLATES: { id: CardTemplate; label: string; icon: string; description: string }[] = [
+  { id: 'standard', label: 'Estándar', icon: 'badge', description: 'Avatar, puesto, departamento, nivel y los campos marcados para la tarjeta' },
+  { id: 'compact', label: 'Compacta', icon: 'view_agenda', description: 'Una franja con avatar pequeño, nombre y puesto' },
+  { id: 'photo', label: 'Foto destacada', icon: 'account_circle', description: 'Foto grande con nombre, puesto y departamento' },
+  { id: 'detailed', label: 'Detallada', icon: 'article', description: 'Todo lo de la estándar y todos los campos personalizados' }
+];
+
+export interface RuleStyle {
+  backgroundColor?: string;
+  borderColor?: string;
+  nameColor?: string;
+  badge?: string; // Short text on a pill over the card, e.g. "★ Senior"
+  badgeColor?: string;
+}
+
+export interface StyleRule {
+  id: string;
+  condition: string; // Filter expression, as typed in the search box
+  label?: string; // Legend text; the condition when empty
+  style: RuleStyle;
+  disabled?: boolean;
+}
+
+export interface CardDesign {
+  template: CardTemplate;
+  rules: StyleRule[]; // Later rules win over earlier ones
+  showLegend: boolean;
+}
+
+export const DEFAULT_CARD_DESIGN: CardDesign = { template: 'standard', rules: [], showLegend: false };
+
+/** What the rules matching a card make of it. Colours override the node's own. */
+export interface CardStyle {
+  backgroundColor?: string;
+  borderColor?: string;
+  nameColor?: string;
+  badges: { label: string; color: string }[];
+}
+
+export interface CompiledRule {
+  rule: StyleRule;
+  filter: NodeFilter | null; // Null when disabled or not understood
+  error?: string;
+}
+
+export interface LegendEntry {
+  rule: StyleRule;
+  label: string;
+  ids: string[]; // People the rule styles
+}
+
+export const DEFAULT_BADGE_COLOR = '#eab308';
+
+const PERSON_TYPES: ChartNode['type'][] = ['executive', 'manager', 'employee'];
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const STYLE_COLORS = ['backgroundColor', 'borderColor', 'nameColor', 'badgeColor'] as const;
+
+export function compileRules(rules: StyleRule[], customFields: FieldDefinition[]): CompiledRule[] {
+  return rules.map(rule => {
+    if (!rule.condition.trim()) return { rule, filter: null, error: 'Escribe una condición' };
+    const parsed = parseFilter(rule.condition, customFields);
+    if ('error' in parsed) return { rule, filter: null, error: parsed.error };
+    return { rule, filter: rule.disabled ? null : parsed.filter };
+  });
+}
+
+/** The style the rules give a card, or null when none applies. Only people have cards. */
+export function cardStyleFor(node: ChartNode, rules: CompiledRule[]): CardStyle | null {
+  if (!PERSON_TYPES.includes(node.type)) return null;
+  let result: CardStyle | null = null;
+  for (const { rule, filter } of rules) {
+    if (!filter || !filter(node)) continue;
+    const { backgroundColor, borderColor, nameColor, badge, badgeColor } = rule.style;
+    result = {
+      backgroundColor: backgroundColor || result?.backgroundColor,
+      borderColor: borderColor || result?.borderColor,
+      nameColor: nameColor || result?.nameColor,
+      badges: badge ? [...(result?.badges || []), { label: badge, color: badgeColor || DEFAULT_BADGE_COLOR }] : result?.badges || []
+    };
+  }
+  return result;
+}
+
+/** One entry per working rule, with the people it styles right now. */
+export function styleLegend(rules: CompiledRule[], nodes: Map<string, ChartNode>): LegendEntry[] {
+  const people = Array.from(nodes.values()).filter(n => PERSON_TYPES.includes(n.type));
+  return rules
+    .filter(r => r.filter)
+    .map(({ rule, filter }) => ({
+      rule,
+      label: rule.label?.trim() || rule.condition.trim(),
+      ids: people.filter(p => filter!(p)).map(p => p.id)
+    }));
+}
+
+/** Custom fields a card shows: the chosen ones, all of them in detailed cards, none in the smaller ones. */
+export function cardFieldsFor(template: CardTemplate, fields: FieldDefinition[]): FieldDefinition[] {
+  if (template === 'detailed') return fields;
+  if (template === 'standard') return fields.filter(f => f.showOnCard);
+  return [];
+}
+
+/** Dark or white text, whichever reads better on `background`. */
+export function badgeTextColor(background: string): string {
+  let hex = background.replace('#', '');
+  if (hex.length === 3) hex = hex.split('').map(c => c + c).join('');
+  const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+  if ([r, g, b].some(Number.isNaN)) return '#ffffff';
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#1e293b' : '#ffffff';
+}
+
+/** Settings from a file or storage, with anything unusable dropped. */
+export function normalizeCardDesign(raw: unknown): CardDesign {
+  if (!isObject(raw)) return DEFAULT_CARD_DESIGN;
+  const rules: StyleRule[] = Array.isArray(raw.rules)
+    ? raw.rules.flatMap((r: unknown): StyleRule[] => {
+        if (!isObject(r) || typeof r.id !== 'string' || typeof r.condition !== 'string') return [];
+        const source: Record<string, unknown> = isObject(r.style) ? r.style : {};
+        const style: RuleStyle = {};
+        STYLE_COLORS.forEach(key => {
+          const color = source[key];
+          if (typeof color === 'string' && COLOR_PATTERN.test(color)) style[key] = color;
+        });
+        if (typeof source.badge === 'string' && source.badge.trim()) style.badge = source.badge.trim();
+        return [{
+          id: r.id,
+          condition: r.condition,
+          ...(typeof r.label === 'string' && r.label ? { label: r.label } : {}),
+          style,
+          ...(r.disabled === true ? { disabled: true } : {})
+        }];
+      })
+    : [];
+  return {
+    template: CARD_TEMPLATES.find(t => t.id === raw.template)?.id ?? DEFAULT_CARD_DESIGN.template,
+    rules,
+    showLegend: raw.showLegend === true
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { AlignItem, alignOffsets, distributeOffsets, matchSizes } from './chart-align';
+
+const item = (id: string, x: number, y: number, w = 10, h = 10, fixed = false): AlignItem => ({ id, rect: { x, y, w, h }, fixed });
+
+// Left edges after applying the moves, in the items' order
+function xsAfter(items: AlignItem[], moves: Map<string, { dx: number }>): number[] {
+  return items.map(i => i.rect.x + (moves.get(i.id)?.dx ?? 0));
+}
+
+// Gaps between consecutive boxes along x, for items already in order
+function gaps(items: AlignItem[], xs: number[]): number[] {
+  return xs.slice(1).map((x, i) => +(x - (xs[i] + items[i].rect.w)).toFixed(2));
+}
+
+describe('alignOffsets', () => {
+  const items = [item('a', 0, 0, 10, 10), item('b', 40, 20, 20, 30), item('c', 100, 5, 30, 10)];
+
+  it('lines items up on a side of the selection box', () => {
+    expect(Object.fromEntries(alignOffsets(items, 'left'))).toEqual({ b: { dx: -40, dy: 0 }, c: { dx: -100, dy: 0 } });
+    expect(Object.fromEntries(alignOffsets(items, 'bottom'))).toEqual({ a: { dx: 0, dy: 40 }, c: { dx: 0, dy: 35 } });
+  });
+
+  it('lines items up on the centre of the selection box', () => {
+    expect(Object.fromEntries(alignOffsets(items, 'center'))).toEqual({ a: { dx: 60, dy: 0 }, b: { dx: 15, dy: 0 }, c: { dx: -50, dy: 0 } });
+    expect(Object.fromEntries(alignOffsets(items, 'middle'))).toEqual({ a: { dx: 0, dy: 20 }, b: { dx: 0, dy: -10 }, c: { dx: 0, dy: 15 } });
+  });
+
+  it('leaves fixed items in place, though they still count for the box', () => {
+    const moves = alignOffsets([item('a', 0, 0, 10, 10, true), item('b', 50, 0)], 'right');
+    expect(Object.fromEntries(moves)).toEqual({});
+    expect(Object.fromEntries(alignOffsets([item('a', 0, 0, 10, 10, true), item('b', 50, 0)], 'left'))).toEqual({ b: { dx: -50, dy: 0 } });
+  });
+
+  it('needs two items', () => {
+    expect(alignOffsets([item('a', 5, 5)], 'left').size).toBe(0);
+  });
+});
+
+describe('distributeOffsets', () => {
+  it('leaves equal gaps between the first and the last item', () => {
+    const items = [item('a', 0, 0), item('b', 15, 0), item('c', 50, 0), item('d', 90, 0)];
+    const moves = distributeOffsets(items, 'horizontal');
+    expect(moves.has('a') || moves.has('d')).toBe(false);
+    expect(gaps(items, xsAfter(items, moves))).toEqual([20, 20, 20]);
+  });
+
+  it('goes by the order of the centres, whatever the selection order', () => {
+    const items = [item('d', 100, 0), item('b', 15, 0, 30), item('a', 0, 0)];
+    const moves = distributeOffsets(items, 'horizontal');
+    expect(Object.fromEntries(moves)).toEqual({ b: { dx: 25, dy: 0 } });
+  });
+
+  it('spaces the items between fixed ones evenly on their own', () => {
+    const items = [item('a', 0, 0), item('b', 15, 0, 10, 10, true), item('c', 50, 0), item('d', 100, 0)];
+    const moves = distributeOffsets(items, 'horizontal');
+    expect(moves.has('b')).toBe(false);
+    expect(gaps(items, xsAfter(items, moves))).toEqual([5, 32.5, 32.5]);
+  });
+
+  it('leaves a run between two fixed items as it is when nothing sits inside', () => {
+    const items = [item('a', 0, 0), item('b', 30, 0, 10, 10, true), item('c', 35, 0, 10, 10, true), item('d', 50, 0), item('e', 100, 0)];
+    const moves = distributeOffsets(items, 'horizontal');
+    expect(Object.fromEntries(moves)).toEqual({ d: { dx: 17.5, dy: 0 } });
+  });
+
+  it('works along the vertical axis', () => {
+    const items = [item('a', 0, 0), item('b', 0, 60), item('c', 0, 100)];
+    expect(Object.fromEntries(distributeOffsets(items, 'vertical'))).toEqual({ b: { dx: 0, dy: -10 } });
+  });
+
+  it('needs three items', () => {
+    expect(distributeOffsets([item('a', 0, 0), item('b', 50, 0)], 'horizontal').size).toBe(0);
+  });
+});
+
+describe('matchSizes', () => {
+  it('gives every item the size of the last one', () => {
+    const items = [item('a', 0, 0, 10, 20), item('b', 0, 0, 40, 50), item('c', 0, 0, 30, 50)];
+    expect(Object.fromEntries(matchSizes(items, 'width'))).toEqual({ a: { w: 30, h: 20 }, b: { w: 30, h: 50 } });
+    expect(Object.fromEntries(matchSizes(items, 'height'))).toEqual({ a: { w: 10, h: 50 } });
+  });
+
+  it('leaves fixed items as they are, but a fixed last one still sets the size', () => {
+    const items = [item('a', 0, 0, 10, 10, true), item('b', 0, 0, 20, 10), item('c', 0, 0, 30, 10, true)];
+    expect(Object.fromEntries(matchSizes(items, 'width'))).toEqual({ b: { w: 30, h: 10 } });
+    expect(matchSizes([], 'width').size).toBe(0);
+  });
+});
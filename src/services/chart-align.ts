@@ -0,0 +1,114 @@
+import { ChartNode } from './chart-state.service';
+import { Rect } from './chart-geometry';
+
+// Lining up a selection of nodes and drawings. Functions take the boxes of the
+// selected items and return how far each one moves; items marked fixed
+// (locked) stay put but still count for the reference box.
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+export type SizeDimension = 'width' | 'height';
+
+export interface AlignItem {
+  id: string;
+  rect: Rect;
+  fixed?: boolean;
+}
+
+export interface Offset { dx: number; dy: number }
+
+export const ALIGN_ACTIONS: { id: AlignEdge; label: string; icon: string; shortcut: string }[] = [
+  { id: 'left', label: 'Alinear a la izquierda', icon: 'align_horizontal_left', shortcut: 'Ctrl + Alt + A' },
+  { id: 'center', label: 'Centrar horizontalmente', icon: 'align_horizontal_center', shortcut: 'Ctrl + Alt + H' },
+  { id: 'right', label: 'Alinear a la derecha', icon: 'align_horizontal_right', shortcut: 'Ctrl + Alt + D' },
+  { id: 'top', label: 'Alinear arriba', icon: 'align_vertical_top', shortcut: 'Ctrl + Alt + W' },
+  { id: 'middle', label: 'Centrar verticalmente', icon: 'align_vertical_center', shortcut: 'Ctrl + Alt + M' },
+  { id: 'bottom', label: 'Alinear abajo', icon: 'align_vertical_bottom', shortcut: 'Ctrl + Alt + S' }
+];
+
+export const DISTRIBUTE_ACTIONS: { id: DistributeAxis; label: string; icon: string; shortcut: string }[] = [
+  { id: 'horizontal', label: 'Distribuir horizontalmente', icon: 'horizontal_distribute', shortcut: 'Ctrl + Alt + Shift + H' },
+  { id: 'vertical', label: 'Distribuir verticalmente', icon: 'vertical_distribute', shortcut: 'Ctrl + Alt + Shift + M' }
+];
+
+export const SIZE_ACTIONS: { id: SizeDimension; label: string; icon: string; shortcut: string }[] = [
+  { id: 'width', label: 'Igualar ancho', icon: 'width', shortcut: 'Ctrl + Alt + Shift + W' },
+  { id: 'height', label: 'Igualar alto', icon: 'height', shortcut: 'Ctrl + Alt + Shift + A' }
+];
+
+/** Moves that line every item up with the same side (or centre) of the selection's bounding box. */
+export function alignOffsets(items: AlignItem[], edge: AlignEdge): Map<string, Offset> {
+  const moves = new Map<string, Offset>();
+  if (items.length < 2) return moves;
+  const minX = Math.min(...items.map(i => i.rect.x));
+  const maxX = Math.max(...items.map(i => i.rect.x + i.rect.w));
+  const minY = Math.min(...items.map(i => i.rect.y));
+  const maxY = Math.max(...items.map(i => i.rect.y + i.rect.h));
+
+  items.filter(i => !i.fixed).forEach(({ id, rect }) => {
+    let dx = 0, dy = 0;
+    switch (edge) {
+      case 'left': dx = minX - rect.x; break;
+      case 'center': dx = (minX + maxX) / 2 - (rect.x + rect.w / 2); break;
+      case 'right': dx = maxX - (rect.x + rect.w); break;
+      case 'top': dy = minY - rect.y; break;
+      case 'middle': dy = (minY + maxY) / 2 - (rect.y + rect.h / 2); break;
+      case 'bottom': dy = maxY - (rect.y + rect.h); break;
+    }
+    if (dx !== 0 || dy !== 0) moves.set(id, { dx, dy });
+  });
+  return moves;
+}
+
+/**
+ * Moves that leave equal gaps between items along the axis, in their current
+ * order. The first and last stay where they are; needs three or more items.
+ * Fixed items stay too and split the run: the items between two of them are
+ * spaced evenly on their own.
+ */
+export function distributeOffsets(items: AlignItem[], axis: DistributeAxis): Map<string, Offset> {
+  const moves = new Map<string, Offset>();
+  if (items.length < 3) return moves;
+  const start = (r: Rect) => axis === 'horizontal' ? r.x : r.y;
+  const size = (r: Rect) => axis === 'horizontal' ? r.w : r.h;
+
+  const sorted = [...items].sort((a, b) => (start(a.rect) + size(a.rect) / 2) - (start(b.rect) + size(b.rect) / 2));
+  const anchors = sorted.map((_, i) => i).filter(i => i === 0 || i === sorted.length - 1 || sorted[i].fixed);
+
+  anchors.slice(1).forEach((to, k) => {
+    const first = sorted[anchors[k]].rect;
+    const inner = sorted.slice(anchors[k] + 1, to);
+    if (inner.length === 0) return;
+    const room = start(sorted[to].rect) - (start(first) + size(first));
+    const gap = (room - inner.reduce((sum, i) => sum + size(i.rect), 0)) / (inner.length + 1);
+
+    let cursor = start(first) + size(first) + gap;
+    inner.forEach(({ id, rect }) => {
+      const delta = cursor - start(rect);
+      cursor += size(rect) + gap;
+      if (Math.abs(delta) < 0.01) return;
+      moves.set(id, axis === 'horizontal' ? { dx: delta, dy: 0 } : { dx: 0, dy: delta });
+    });
+  });
+  return moves;
+}
+
+/**
+ * New sizes that give every item the width or height of the last one, the
+ * reference. Items already that size, and fixed ones, are left out.
+ */
+export function matchSizes(items: AlignItem[], dimension: SizeDimension): Map<string, { w: number; h: number }> {
+  const sizes = new Map<string, { w: number; h: number }>();
+  const reference = items[items.length - 1];
+  if (!reference) return sizes;
+  const key = dimension === 'width' ? 'w' : 'h';
+  items.filter(i => !i.fixed && i.rect[key] !== reference.rect[key]).forEach(({ id, rect }) => {
+    sizes.set(id, { w: rect.w, h: rect.h, [key]: reference.rect[key] });
+  });
+  return sizes;
+}
+
+/** Node types the user can resize; person cards take their size from the layout and their content. */
+export function isResizable(type: ChartNode['type']): boolean {
+  return type === 'note' || type === 'text' || type === 'shape' || type === 'group';
+}
@@ -0,0 +1,180 @@
+import { ChartNode, ChartEdge, EdgeKind, EdgeRouting, EdgeStrokeStyle, EdgePort } from './chart-state.service';
+
+// Connectors between nodes. Reporting edges form the hierarchy the layouts
+// work from; the other kinds are drawn but never shape the tree.
+
+export const EDGE_KINDS: { id: EdgeKind; label: string; icon: string }[] = [
+  { id: 'reporting', label: 'Jerárquica', icon: 'account_tree' },
+  { id: 'dotted', label: 'Línea punteada', icon: 'more_horiz' },
+  { id: 'advisory', label: 'Consultiva', icon: 'forum' },
+  { id: 'generic', label: 'Genérica', icon: 'link' }
+];
+
+export const EDGE_ROUTINGS: { id: EdgeRouting; label: string }[] = [
+  { id: 'auto', label: 'Como el organigrama' },
+  { id: 'curved', label: 'Curva' },
+  { id: 'straight', label: 'Recta' },
+  { id: 'orthogonal', label: 'Ortogonal' }
+];
+
+export const EDGE_PORTS: { id: EdgePort; label: string }[] = [
+  { id: 'top', label: 'Arriba' },
+  { id: 'bottom', label: 'Abajo' },
+  { id: 'left', label: 'Izquierda' },
+  { id: 'right', label: 'Derecha' }
+];
+
+export const EDGE_STROKE_STYLES: { id: EdgeStrokeStyle; label: string; dasharray: string | null }[] = [
+  { id: 'solid', label: 'Continua', dasharray: null },
+  { id: 'dashed', label: 'Discontinua', dasharray: '8 6' },
+  { id: 'dotted', label: 'Punteada', dasharray: '2 5' }
+];
+
+// How each kind looks until the user styles the edge
+const KIND_DEFAULTS: Record<EdgeKind, { strokeStyle: EdgeStrokeStyle; arrowStart: boolean; arrowEnd: boolean }> = {
+  reporting: { strokeStyle: 'solid', arrowStart: false, arrowEnd: true },
+  dotted: { strokeStyle: 'dotted', arrowStart: false, arrowEnd: true },
+  advisory: { strokeStyle: 'dashed', arrowStart: false, arrowEnd: false },
+  generic: { strokeStyle: 'solid', arrowStart: false, arrowEnd: false }
+};
+
+export interface ResolvedEdgeStyle {
+  color: string;
+  width: number;
+  dasharray: string | null;
+  arrowStart: boolean;
+  arrowEnd: boolean;
+}
+
+/** Fills in whatever the edge leaves to its kind; `connectorColor` comes from the theme. */
+export function resolveEdgeStyle(edge: ChartEdge, connectorColor: string): ResolvedEdgeStyle {
+  const defaults = KIND_DEFAULTS[edge.kind] || KIND_DEFAULTS.generic;
+  const strokeStyle = edge.strokeStyle || defaults.strokeStyle;
+  return {
+    color: edge.color || connectorColor,
+    width: edge.strokeWidth || 2,
+    dasharray: EDGE_STROKE_STYLES.find(s => s.id === strokeStyle)?.dasharray ?? null,
+    arrowStart: edge.arrowStart ?? defaults.arrowStart,
+    arrowEnd: edge.arrowEnd ?? defaults.arrowEnd
+  };
+}
+
+/** People report to people; anything involving a note, shape or area is a plain link. */
+export function defaultEdgeKind(source: ChartNode | undefined, target: ChartNode | undefined): EdgeKind {
+  const people: ChartNode['type'][] = ['executive', 'manager', 'employee'];
+  return source && target && people.includes(source.type) && people.includes(target.type) ? 'reporting' : 'generic';
+}
+
+export function newEdgeId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+/** Reporting edges for the `children` lists of charts saved before edges were stored. */
+export function edgesFromChildren(nodes: Iterable<ChartNode>): ChartEdge[] {
+  const edges: ChartEdge[] = [];
+  for (const node of nodes) {
+    node.children?.forEach(childId => edges.push({
+      id: `${node.id}-${childId}`,
+      sourceId: node.id,
+      targetId: childId,
+      kind: 'reporting'
+    }));
+  }
+  return edges;
+}
+
+/** Copy of the nodes without their legacy `children` lists. */
+export function withoutChildren(nodes: Map<string, ChartNode>): Map<string, ChartNode> {
+  const result = new Map<string, ChartNode>();
+  nodes.forEach((node, id) => {
+    const { children, ...rest } = node;
+    result.set(id, rest);
+  });
+  return result;
+}
+
+/**
+ * Copy of the nodes with `children` filled in from the reporting edges, in
+ * edge order. This is the shape the layouts and the roster export work on.
+ */
+export function withHierarchy(nodes: Map<string, ChartNode>, edges: ChartEdge[]): Map<string, ChartNode> {
+  const children = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (edge.kind !== 'reporting' || !nodes.has(edge.sourceId) || !nodes.has(edge.targetId)) return;
+    children.set(edge.sourceId, [...(children.get(edge.sourceId) || []), edge.targetId]);
+  });
+
+  const result = new Map<string, ChartNode>();
+  nodes.forEach((node, id) => result.set(id, { ...node, children: children.get(id) || [] }));
+  return result;
+}
+
+/**
+ * Kinds that make one person manage another. Both count for cycle checks, but
+ * only reporting (primary) lines place people in the layout.
+ */
+export const MANAGEMENT_KINDS: EdgeKind[] = ['reporting', 'dotted'];
+
+/** Whether `searchId` sits somewhere below `rootId` along edges of the given kinds. */
+export function reportsTo(edges: ChartEdge[], rootId: string, searchId: string, kinds: EdgeKind[] = ['reporting']): boolean {
+  const seen = new Set<string>();
+  const stack = [rootId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const edge of edges) {
+      if (!kinds.includes(edge.kind) || edge.sourceId !== id) continue;
+      if (edge.targetId === searchId) return true;
+      stack.push(edge.targetId);
+    }
+  }
+  return false;
+}
+
+/**
+ * Everyone below each collapsed node along reporting edges, keyed by the
+ * collapsed node. Branches nest: an inner collapsed node also appears inside
+ * the list of an outer one.
+ */
+export function collapsedBranches(nodes: Map<string, ChartNode>, edges: ChartEdge[]): Map<string, string[]> {
+  const branches = new Map<string, string[]>();
+  const collapsed = Array.from(nodes.values()).filter(n => n.collapsed);
+  if (collapsed.length === 0) return branches;
+
+  const children = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (edge.kind !== 'reporting' || !nodes.has(edge.targetId)) return;
+    children.set(edge.sourceId, [...(children.get(edge.sourceId) || []), edge.targetId]);
+  });
+
+  collapsed.forEach(node => {
+    const seen = new Set<string>([node.id]);
+    const stack = [...(children.get(node.id) || [])];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      stack.push(...(children.get(id) || []));
+    }
+    seen.delete(node.id);
+    if (seen.size > 0) branches.set(node.id, Array.from(seen));
+  });
+  return branches;
+}
+
+/** Depth of every person along reporting edges; top managers are level 1. */
+export function reportingLevels(nodes: Map<string, ChartNode>, edges: ChartEdge[]): Map<string, number> {
+  const people: ChartNode['type'][] = ['executive', 'manager', 'employee'];
+  const hierarchy = withHierarchy(nodes, edges);
+  const managed = new Set(edges.filter(e => e.kind === 'reporting').map(e => e.targetId));
+  const levels = new Map<string, number>();
+  const queue = Array.from(hierarchy.values()).filter(n => people.includes(n.type) && !managed.has(n.id)).map(n => ({ id: n.id, level: 1 }));
+  while (queue.length > 0) {
+    const { id, level } = queue.shift()!;
+    if (levels.has(id)) continue;
+    levels.set(id, level);
+    hierarchy.get(id)?.children?.forEach(childId => queue.push({ id: childId, level: level + 1 }));
+  }
+  return levels;
+}
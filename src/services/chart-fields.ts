@@ -0,0 +1,138 @@
+import { ChartNode, FieldDefinition, FieldType } from './chart-state.service';
+
+// Custom fields: extra person attributes defined per chart. Values live on the
+// node as text keyed by field id, in a canonical form: numbers with a dot for
+// decimals, dates as YYYY-MM-DD, select values spelled as the option.
+
+export const FIELD_TYPES: { id: FieldType; label: string; icon: string }[] = [
+  { id: 'text', label: 'Texto', icon: 'notes' },
+  { id: 'number', label: 'Número', icon: 'tag' },
+  { id: 'date', label: 'Fecha', icon: 'event' },
+  { id: 'select', label: 'Lista de opciones', icon: 'list' },
+  { id: 'email', label: 'Email', icon: 'alternate_email' },
+  { id: 'url', label: 'Enlace (URL)', icon: 'link' }
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DOMAIN_PATTERN = /^[\w-]+(\.[\w-]+)+(:\d+)?([/?#]\S*)?$/;
+
+/** Readable id for a new field ("Centro de coste" → "centro-de-coste"), unique among `taken`. */
+export function fieldIdFor(label: string, taken: Iterable<string>): string {
+  const used = new Set(taken);
+  const base = label.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'campo';
+  let id = base;
+  for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+/**
+ * The value in the field's canonical form, or null when it doesn't fit the
+ * type. Accepts what spreadsheets produce, such as "1.234,5" or 31/12/2024.
+ * Blank input is valid and gives ''.
+ */
+export function parseFieldValue(field: FieldDefinition, raw: string): string | null {
+  const value = raw.trim();
+  if (!value) return '';
+
+  switch (field.type) {
+    case 'number': return parseNumber(value);
+    case 'date': return parseDate(value);
+    case 'email': return EMAIL_PATTERN.test(value) ? value : null;
+    case 'url': return parseUrl(value);
+    case 'select': return field.options?.find(o => o.toLowerCase() === value.toLowerCase()) ?? null;
+    default: return value;
+  }
+}
+
+/** How a stored value reads on a card or in an export preview. */
+export function formatFieldValue(field: FieldDefinition, value: string): string {
+  if (!value) return '';
+  switch (field.type) {
+    case 'number': {
+      const n = Number(value);
+      return Number.isFinite(n) ? n.toLocaleString('es-ES') : value;
+    }
+    case 'date': {
+      const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+      return match ? `${match[3]}/${match[2]}/${match[1]}` : value;
+    }
+    case 'url': return value.replace(/^https?:\/\//i, '').replace(/\/$/, '');
+    default: return value;
+  }
+}
+
+/** Link a value opens, for email and URL fields. */
+export function fieldHref(field: FieldDefinition, value: string): string | null {
+  if (!value) return null;
+  if (field.type === 'email') return `mailto:${value}`;
+  if (field.type === 'url') return value;
+  return null;
+}
+
+/** The rows a card shows under the level: its chosen fields that have a value. */
+export function cardFieldRows(node: ChartNode, fields: FieldDefinition[]): { label: string; text: string; href: string | null }[] {
+  return fields
+    .filter(f => node.fields?.[f.id])
+    .map(f => ({ label: f.label, text: formatFieldValue(f, node.fields![f.id]), href: fieldHref(f, node.fields![f.id]) }));
+}
+
+/**
+ * Best type for a spreadsheet column going by its values: the narrowest one
+ * every non-blank value fits. Guesses stay conservative, since a wrong one
+ * loses data: codes with leading zeros stay text, links need http or www,
+ * and select is never guessed.
+ */
+export function inferFieldType(values: string[]): FieldType {
+  const filled = values.map(v => v.trim()).filter(Boolean);
+  if (filled.length === 0) return 'text';
+  const fits = (type: FieldType, extra: (v: string) => boolean = () => true) =>
+    filled.every(v => extra(v) && parseFieldValue({ id: '', label: '', type }, v) !== null);
+
+  if (fits('number', v => !/^[-+]?0\d/.test(v))) return 'number';
+  if (fits('date')) return 'date';
+  if (fits('email')) return 'email';
+  if (fits('url', v => /^(https?:\/\/|www\.)/i.test(v))) return 'url';
+  return 'text';
+}
+
+function parseNumber(value: string): string | null {
+  let text = value.replace(/\s/g, '');
+  // The last separator is the decimal one when both appear; a lone comma is decimal too
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+  return String(Number(text));
+}
+
+// ISO dates (with or without a time), or day/month/year as written in Spain
+function parseDate(value: string): string | null {
+  let parts = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/.exec(value)?.slice(1, 4);
+  if (!parts) {
+    const dmy = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(value);
+    if (dmy) parts = [dmy[3], dmy[2], dmy[1]];
+  }
+  if (!parts) return null;
+
+  const [year, month, day] = parts.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Bare domains ("www.acme.com/team") get https:// in front
+function parseUrl(value: string): string | null {
+  const candidate = /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : (DOMAIN_PATTERN.test(value) ? `https://${value}` : null);
+  if (!candidate) return null;
+  try {
+    const url = new URL(candidate);
+    return ['http:', 'https:'].includes(url.protocol) ? candidate : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,350 @@
+import { ChartNode, NodePosition, Drawing, EdgeRouting, EdgePort } from './chart-state.service';
+
+// Geometry shared by the canvas, the minimap and the exporters
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  width: number;
+  height: number;
+}
+
+// Vertices (in % of the node box) of the shapes that are drawn with a clip-path
+export const SHAPE_POLYGONS: Partial<Record<NonNullable<ChartNode['shapeType']>, [number, number][]>> = {
+  triangle: [[50, 0], [0, 100], [100, 100]],
+  diamond: [[50, 0], [100, 50], [50, 100], [0, 50]],
+  star: [[50, 0], [61, 35], [98, 35], [68, 57], [79, 91], [50, 70], [21, 91], [32, 57], [2, 35], [39, 35]]
+};
+
+/** Size a node is rendered at when its position carries no explicit dimensions. */
+export function defaultNodeSize(type: ChartNode['type']): { width: number; height: number } {
+  switch (type) {
+    case 'note': return { width: 200, height: 200 };
+    case 'text': return { width: 150, height: 50 };
+    case 'shape': return { width: 150, height: 150 };
+    case 'group': return { width: 300, height: 300 };
+    default: return { width: 208, height: 100 };
+  }
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Box a node covers on the canvas, with its type's default size filled in. */
+export function nodeRect(node: ChartNode, pos: NodePosition): Rect {
+  const size = defaultNodeSize(node.type);
+  return { x: pos.x, y: pos.y, w: pos.width || size.width, h: pos.height || size.height };
+}
+
+/** Area two boxes share; 0 when they merely touch or lie apart. */
+export function getOverlapArea(r1: Rect, r2: Rect): number {
+  const overlapLeft = Math.max(r1.x, r2.x);
+  const overlapRight = Math.min(r1.x + r1.w, r2.x + r2.w);
+  const overlapTop = Math.max(r1.y, r2.y);
+  const overlapBottom = Math.min(r1.y + r1.h, r2.y + r2.h);
+
+  if (overlapLeft < overlapRight && overlapTop < overlapBottom) {
+    return (overlapRight - overlapLeft) * (overlapBottom - overlapTop);
+  }
+  return 0;
+}
+
+/** The group a node overlaps the most, whose name is the department it sits in. */
+export function containingGroup(nodeId: string, nodes: Map<string, ChartNode>, positions: Map<string, NodePosition>): ChartNode | null {
+  const node = nodes.get(nodeId);
+  const pos = positions.get(nodeId);
+  if (!node || !pos) return null;
+
+  const rect = nodeRect(node, pos);
+  let bestGroup: ChartNode | null = null;
+  let maxOverlap = 0;
+  for (const group of nodes.values()) {
+    const groupPos = positions.get(group.id);
+    if (group.type !== 'group' || group.id === nodeId || !groupPos) continue;
+    const overlap = getOverlapArea(rect, nodeRect(group, groupPos));
+    if (overlap > maxOverlap) {
+      maxOverlap = overlap;
+      bestGroup = group;
+    }
+  }
+  return bestGroup;
+}
+
+/** Direction connectors travel from manager to report; follows the layout. */
+export type LayoutFlow = 'down' | 'up' | 'right' | 'left' | 'stacked' | 'radial';
+
+export type Side = EdgePort;
+
+type Shape = Exclude<EdgeRouting, 'auto'>;
+
+/** Sides an edge is attached to; either one may be left to the layout. */
+export interface EdgePorts {
+  source?: Side;
+  target?: Side;
+}
+
+/**
+ * Connector from the source to the target. In the default 'down' flow it
+ * leaves the bottom-centre of the source and enters the top-centre of the
+ * target; `routing` picks a bezier, a straight line or right-angle elbows.
+ */
+export function getConnectorPath(source: NodePosition, target: NodePosition, flow: LayoutFlow = 'down', routing: EdgeRouting = 'auto', ports: EdgePorts = {}): string {
+  const shape: Shape = routing === 'auto' ? 'curved' : routing;
+  const sides = connectorSides(source, target, flow, ports);
+  if (!sides) return shape === 'straight' ? sideToSide(source, 'bottom', target, 'top', shape) : stackedPath(source, target);
+  return sideToSide(source, sides.source, target, sides.target, shape);
+}
+
+/**
+ * Sides a connector leaves the source and enters the target through, or null
+ * for a report tucked under its manager in the compact layout (drawn as a rail).
+ * Ports the edge was attached to win over the layout's flow.
+ */
+export function connectorSides(source: NodePosition, target: NodePosition, flow: LayoutFlow = 'down', ports: EdgePorts = {}): { source: Side; target: Side } | null {
+  const sides = flowSides(source, target, flow);
+  if (!ports.source && !ports.target) return sides;
+  return { source: ports.source || sides?.source || 'bottom', target: ports.target || sides?.target || 'top' };
+}
+
+function flowSides(source: NodePosition, target: NodePosition, flow: LayoutFlow): { source: Side; target: Side } | null {
+  switch (flow) {
+    case 'up': return { source: 'top', target: 'bottom' };
+    case 'right': return { source: 'right', target: 'left' };
+    case 'left': return { source: 'left', target: 'right' };
+    case 'radial': return facingSides(source, target);
+    case 'stacked': return isStacked(source, target) ? null : { source: 'bottom', target: 'top' };
+    default: return { source: 'bottom', target: 'top' };
+  }
+}
+
+/** Middle of the given side of a node box. */
+export function connectorAnchor(pos: NodePosition, side: Side): { x: number; y: number } {
+  const w = pos.width || 208; // fallback to default w-52
+  const h = pos.height || 100; // fallback default
+  switch (side) {
+    case 'top': return { x: pos.x + w / 2, y: pos.y };
+    case 'bottom': return { x: pos.x + w / 2, y: pos.y + h };
+    case 'left': return { x: pos.x, y: pos.y + h / 2 };
+    case 'right': return { x: pos.x + w, y: pos.y + h / 2 };
+  }
+}
+
+/** Outward direction of each side. */
+export const SIDE_VECTORS: Record<Side, { x: number; y: number }> = {
+  top: { x: 0, y: -1 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 }
+};
+
+/** Path through the points with every corner rounded off by up to `radius`. */
+export function roundedPolyline(points: { x: number; y: number }[], radius = 10): string {
+  let d = `M ${points[0].x} ${points[0].y}`;
+  for (let i = 1; i < points.length - 1; i++) {
+    const prev = points[i - 1], corner = points[i], next = points[i + 1];
+    const lenIn = Math.hypot(corner.x - prev.x, corner.y - prev.y);
+    const lenOut = Math.hypot(next.x - corner.x, next.y - corner.y);
+    const r = Math.min(radius, lenIn / 2, lenOut / 2);
+    if (r <= 0) {
+      d += ` L ${corner.x} ${corner.y}`;
+      continue;
+    }
+    const a = { x: corner.x - (corner.x - prev.x) / lenIn * r, y: corner.y - (corner.y - prev.y) / lenIn * r };
+    const b = { x: corner.x + (next.x - corner.x) / lenOut * r, y: corner.y + (next.y - corner.y) / lenOut * r };
+    d += ` L ${a.x} ${a.y} Q ${corner.x} ${corner.y}, ${b.x} ${b.y}`;
+  }
+  const last = points[points.length - 1];
+  return d + ` L ${last.x} ${last.y}`;
+}
+
+/** The port of the node nearest to a point. */
+export function nearestPort(pos: NodePosition, point: { x: number; y: number }): Side {
+  const sides: Side[] = ['top', 'bottom', 'left', 'right'];
+  const distance = (side: Side) => {
+    const a = connectorAnchor(pos, side);
+    return Math.hypot(a.x - point.x, a.y - point.y);
+  };
+  return sides.reduce((best, side) => distance(side) < distance(best) ? side : best);
+}
+
+/**
+ * Line drawn while linking, from a port to the pointer or to the port it
+ * snapped to. A free end is approached as if it faced the source.
+ */
+export function getPortPath(start: { x: number; y: number }, startSide: Side, end: { x: number; y: number }, endSide?: Side): string {
+  const opposite: Record<Side, Side> = { top: 'bottom', bottom: 'top', left: 'right', right: 'left' };
+  return pointToPoint(start, startSide, end, endSide || opposite[startSide], 'curved');
+}
+
+function sideToSide(source: NodePosition, sourceSide: Side, target: NodePosition, targetSide: Side, shape: Shape = 'curved'): string {
+  return pointToPoint(connectorAnchor(source, sourceSide), sourceSide, connectorAnchor(target, targetSide), targetSide, shape);
+}
+
+function pointToPoint(start: { x: number; y: number }, sourceSide: Side, end: { x: number; y: number }, targetSide: Side, shape: Shape): string {
+  const out = SIDE_VECTORS[sourceSide];
+  const into = SIDE_VECTORS[targetSide];
+
+  if (shape === 'straight') return `M ${start.x} ${start.y} L ${end.x} ${end.y}`;
+  if (shape === 'orthogonal') {
+    // Perpendicular ports meet at a single corner
+    if (out.x === 0 && into.y === 0) return roundedPolyline([start, { x: start.x, y: end.y }, end]);
+    if (out.y === 0 && into.x === 0) return roundedPolyline([start, { x: end.x, y: start.y }, end]);
+
+    // Out, across halfway between the two nodes, then in
+    if (out.x === 0) {
+      const midY = (start.y + end.y) / 2;
+      return roundedPolyline([start, { x: start.x, y: midY }, { x: end.x, y: midY }, end]);
+    }
+    const midX = (start.x + end.x) / 2;
+    return roundedPolyline([start, { x: midX, y: start.y }, { x: midX, y: end.y }, end]);
+  }
+
+  // Distance still to travel in the exit direction
+  const ahead = (end.x - start.x) * out.x + (end.y - start.y) * out.y;
+
+  // Target ahead: exit straight, softened for short distances.
+  // Target behind or level: a wide loop
+  const strength = ahead > 0 ? Math.min(ahead * 0.5, 80) : 100;
+
+  return `M ${start.x} ${start.y} C ${start.x + out.x * strength} ${start.y + out.y * strength}, ` +
+    `${end.x + into.x * strength} ${end.y + into.y * strength}, ${end.x} ${end.y}`;
+}
+
+// Leaves through the side of the source that faces the target
+function facingSides(source: NodePosition, target: NodePosition): { source: Side; target: Side } {
+  const sw = source.width || 208, sh = source.height || 100;
+  const tw = target.width || 208, th = target.height || 100;
+  const dx = (target.x + tw / 2) - (source.x + sw / 2);
+  const dy = (target.y + th / 2) - (source.y + sh / 2);
+  const horizontal = Math.abs(dx) / (sw + tw) > Math.abs(dy) / (sh + th);
+  if (horizontal) return dx > 0 ? { source: 'right', target: 'left' } : { source: 'left', target: 'right' };
+  return dy > 0 ? { source: 'bottom', target: 'top' } : { source: 'top', target: 'bottom' };
+}
+
+// Compact layout: the report sits indented below the manager
+function isStacked(source: NodePosition, target: NodePosition): boolean {
+  const sw = source.width || 208, sh = source.height || 100;
+  return target.x > source.x && target.x < source.x + sw && target.y > source.y + sh;
+}
+
+// A rail down the manager's left side, then into the report's left edge
+function stackedPath(source: NodePosition, target: NodePosition): string {
+  const sh = source.height || 100;
+  const th = target.height || 100;
+  const railX = source.x + (target.x - source.x) / 2;
+  const startY = source.y + sh;
+  const endY = target.y + th / 2;
+  const r = Math.min(12, (target.x - railX) / 2, Math.max(0, endY - startY) / 2);
+  return `M ${railX} ${startY} L ${railX} ${endY - r} Q ${railX} ${endY}, ${railX + r} ${endY} L ${target.x} ${endY}`;
+}
+
+/**
+ * Point halfway along a connector path (absolute M, L, Q and C commands), where
+ * its label goes. Curves are measured by sampling.
+ */
+export function getPathMidpoint(d: string): { x: number; y: number } | null {
+  const points: { x: number; y: number }[] = [];
+  const commands = d.match(/[MLQC][^MLQC]*/g) || [];
+  let current = { x: 0, y: 0 };
+
+  commands.forEach(command => {
+    const n = command.slice(1).match(/[-+]?[0-9]*\.?[0-9]+(?:e[-+]?\d+)?/gi)?.map(Number) || [];
+    const type = command[0];
+    if (type === 'M' || type === 'L') {
+      current = { x: n[0], y: n[1] };
+      points.push(current);
+      return;
+    }
+    const controls = type === 'Q'
+      ? [current, { x: n[0], y: n[1] }, { x: n[2], y: n[3] }]
+      : [current, { x: n[0], y: n[1] }, { x: n[2], y: n[3] }, { x: n[4], y: n[5] }];
+    for (let i = 1; i <= 16; i++) points.push(bezierPoint(controls, i / 16));
+    current = controls[controls.length - 1];
+  });
+
+  if (points.length === 0 || points.some(p => !Number.isFinite(p.x) || !Number.isFinite(p.y))) return null;
+
+  const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+  let remaining = lengths.reduce((sum, l) => sum + l, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const k = remaining / lengths[i];
+      return { x: points[i].x + (points[i + 1].x - points[i].x) * k, y: points[i].y + (points[i + 1].y - points[i].y) * k };
+    }
+    remaining -= lengths[i];
+  }
+  return points[points.length - 1];
+}
+
+// De Casteljau for quadratic and cubic curves
+function bezierPoint(controls: { x: number; y: number }[], t: number): { x: number; y: number } {
+  let pts = controls;
+  while (pts.length > 1) {
+    pts = pts.slice(1).map((p, i) => ({ x: pts[i].x + (p.x - pts[i].x) * t, y: pts[i].y + (p.y - pts[i].y) * t }));
+  }
+  return pts[0];
+}
+
+/** Bounding box of the coordinates in an SVG path (control points included). */
+export function getPathBounds(d: string): { x: number; y: number; w: number; h: number } | null {
+  const numbers = d.match(/[-+]?[0-9]*\.?[0-9]+/g)?.map(Number) || [];
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    const x = numbers[i];
+    const y = numbers[i + 1];
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+
+  if (minX === Infinity) return null;
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+}
+
+/**
+ * Box around the given nodes and drawings, grown by `padding` on every side.
+ * Returns null when there is nothing to measure.
+ */
+export function getContentBounds(
+  positions: Iterable<NodePosition>,
+  drawings: Iterable<Drawing>,
+  padding = 0
+): Bounds | null {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+  for (const pos of positions) {
+    const w = pos.width || 208;
+    const h = pos.height || 100;
+    minX = Math.min(minX, pos.x);
+    minY = Math.min(minY, pos.y);
+    maxX = Math.max(maxX, pos.x + w);
+    maxY = Math.max(maxY, pos.y + h);
+  }
+
+  for (const drawing of drawings) {
+    const b = getPathBounds(drawing.path);
+    if (!b) continue;
+    // Half the stroke sticks out of the path
+    const half = (drawing.strokeWidth || 0) / 2;
+    minX = Math.min(minX, b.x - half);
+    minY = Math.min(minY, b.y - half);
+    maxX = Math.max(maxX, b.x + b.w + half);
+    maxY = Math.max(maxY, b.y + b.h + half);
+  }
+
+  if (minX === Infinity) return null;
+
+  minX -= padding;
+  minY -= padding;
+  maxX += padding;
+  maxY += padding;
+  return { minX, minY, maxX, maxY, width: maxX - minX, height: maxY - minY };
+}
@@ -0,0 +1,395 @@
+import { ChartNode, NodePosition, EdgeRouting } from './chart-state.service';
+import { LayoutFlow } from './chart-geometry';
+
+// Automatic placement of the reporting hierarchy. Only people are positioned
+// here; ChartStateService.autoLayout fits groups and anchored notes afterwards.
+
+export type LayoutAlgorithm = 'top-down' | 'bottom-up' | 'left-right' | 'right-left' | 'compact' | 'radial';
+
+export type ConnectorStyle = Exclude<EdgeRouting, 'auto'>;
+
+export interface LayoutSettings {
+  algorithm: LayoutAlgorithm;
+  levelSpacing: number;   // Distance between hierarchy levels
+  siblingSpacing: number; // Gap between cards that share a manager
+  groupSpacing: number;   // Gap between department blocks (and between separate trees)
+  incremental: boolean;   // Re-lay only the affected branch when people are added, linked or deleted
+  connectorStyle: ConnectorStyle; // How edges without their own routing are drawn
+}
+
+export const DEFAULT_LAYOUT: LayoutSettings = {
+  algorithm: 'top-down',
+  levelSpacing: 400,
+  siblingSpacing: 80,
+  groupSpacing: 800,
+  incremental: false,
+  connectorStyle: 'curved'
+};
+
+export const LAYOUT_ALGORITHMS: { id: LayoutAlgorithm; label: string; icon: string }[] = [
+  { id: 'top-down', label: 'Arriba → abajo', icon: 'south' },
+  { id: 'bottom-up', label: 'Abajo → arriba', icon: 'north' },
+  { id: 'left-right', label: 'Izquierda → derecha', icon: 'east' },
+  { id: 'right-left', label: 'Derecha → izquierda', icon: 'west' },
+  { id: 'compact', label: 'Compacto', icon: 'view_agenda' },
+  { id: 'radial', label: 'Radial', icon: 'track_changes' }
+];
+
+export const CONNECTOR_STYLES: { id: ConnectorStyle; label: string }[] = [
+  { id: 'curved', label: 'Curvas' },
+  { id: 'straight', label: 'Rectas' },
+  { id: 'orthogonal', label: 'En ángulo' }
+];
+
+const PERSON_TYPES: ChartNode['type'][] = ['executive', 'manager', 'employee'];
+
+// Space reserved per card across the breadth of the tree
+const CARD_SLOT_HORIZONTAL = 250; // card width plus breathing room
+const CARD_SLOT_VERTICAL = 200;   // rendered card height plus breathing room
+const GROUP_PADDING = 150;
+const CARD_ROW = 180;             // Rendered height of a standard card
+const STACK_INDENT = 40;          // Compact layout: offset of stacked reports
+
+/** Which way connectors leave a manager for the given layout. */
+export function connectorFlow(algorithm: LayoutAlgorithm): LayoutFlow {
+  switch (algorithm) {
+    case 'bottom-up': return 'up';
+    case 'left-right': return 'right';
+    case 'right-left': return 'left';
+    case 'compact': return 'stacked';
+    case 'radial': return 'radial';
+    default: return 'down';
+  }
+}
+
+/** Clamps user-entered settings into something the layout can work with. */
+export function normalizeLayoutSettings(raw: Partial<LayoutSettings> | null | undefined): LayoutSettings {
+  const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+  return {
+    algorithm: LAYOUT_ALGORITHMS.some(a => a.id === raw?.algorithm) ? raw!.algorithm! : DEFAULT_LAYOUT.algorithm,
+    levelSpacing: clamp(raw?.levelSpacing, 150, 1500, DEFAULT_LAYOUT.levelSpacing),
+    siblingSpacing: clamp(raw?.siblingSpacing, 0, 600, DEFAULT_LAYOUT.siblingSpacing),
+    groupSpacing: clamp(raw?.groupSpacing, 0, 3000, DEFAULT_LAYOUT.groupSpacing),
+    incremental: typeof raw?.incremental === 'boolean' ? raw.incremental : DEFAULT_LAYOUT.incremental,
+    connectorStyle: CONNECTOR_STYLES.some(c => c.id === raw?.connectorStyle) ? raw!.connectorStyle! : DEFAULT_LAYOUT.connectorStyle
+  };
+}
+
+/**
+ * Positions every person reachable from a root. Children are expected to be
+ * sorted by department already so that each department forms one block.
+ */
+export function layoutHierarchy(
+  map: Map<string, ChartNode>,
+  currentPositions: Map<string, NodePosition>,
+  settings: LayoutSettings
+): Map<string, NodePosition> {
+  const childrenSet = new Set<string>();
+  map.forEach(n => n.children?.forEach(c => childrenSet.add(c)));
+  const roots = Array.from(map.values())
+    .filter(n => !childrenSet.has(n.id) && PERSON_TYPES.includes(n.type));
+
+  return settings.algorithm === 'radial'
+    ? layoutRadial(map, currentPositions, roots, settings)
+    : layoutTree(map, currentPositions, roots, settings);
+}
+
+/**
+ * Re-lays the branch under `rootId` with the tree algorithms, keeping the
+ * branch root where it is, then pushes the people beside the branch outwards
+ * just far enough to clear it. Everything else keeps its position. Nodes for
+ * which `canMove` returns false are left untouched. Not meant for radial
+ * layouts, where a branch cannot be placed on its own.
+ */
+export function layoutSubtree(
+  map: Map<string, ChartNode>,
+  currentPositions: Map<string, NodePosition>,
+  rootId: string,
+  settings: LayoutSettings,
+  canMove: (id: string) => boolean
+): Map<string, NodePosition> {
+  const result = new Map(currentPositions);
+  const rootPos = currentPositions.get(rootId);
+  if (!rootPos || !map.has(rootId)) return result;
+
+  // The branch on its own, as if it were the whole chart
+  const branch = new Map<string, ChartNode>();
+  const collect = (id: string) => {
+    const node = map.get(id);
+    if (!node || branch.has(id)) return;
+    branch.set(id, node);
+    node.children?.forEach(collect);
+  };
+  collect(rootId);
+
+  const laidOut = layoutTree(branch, currentPositions, [branch.get(rootId)!], settings);
+  const anchor = laidOut.get(rootId)!;
+  const dx = rootPos.x - anchor.x;
+  const dy = rootPos.y - anchor.y;
+  laidOut.forEach((pos, id) => {
+    if (canMove(id)) result.set(id, { ...currentPositions.get(id), ...pos, x: pos.x + dx, y: pos.y + dy });
+  });
+
+  // Work in (breadth, depth) so one pass covers every orientation
+  const horizontal = settings.algorithm === 'left-right' || settings.algorithm === 'right-left';
+  const span = (pos: NodePosition) => {
+    const w = pos.width || 208;
+    const h = pos.height || 100;
+    return horizontal
+      ? { bMin: pos.y, bMax: pos.y + h, dMin: pos.x, dMax: pos.x + w }
+      : { bMin: pos.x, bMax: pos.x + w, dMin: pos.y, dMax: pos.y + h };
+  };
+
+  const box = { bMin: Infinity, bMax: -Infinity, dMin: Infinity, dMax: -Infinity };
+  branch.forEach((_, id) => {
+    const pos = result.get(id);
+    if (!pos) return;
+    const s = span(pos);
+    box.bMin = Math.min(box.bMin, s.bMin);
+    box.bMax = Math.max(box.bMax, s.bMax);
+    box.dMin = Math.min(box.dMin, s.dMin);
+    box.dMax = Math.max(box.dMax, s.dMax);
+  });
+  const rootSpan = span(result.get(rootId)!);
+  const rootCenter = (rootSpan.bMin + rootSpan.bMax) / 2;
+  const margin = Math.max(40, settings.siblingSpacing);
+
+  // Managers above the branch stay put, the branch hangs from them
+  const ancestors = new Set<string>();
+  const findAncestors = (id: string) => map.forEach(node => {
+    if (node.children?.includes(id) && !ancestors.has(node.id)) {
+      ancestors.add(node.id);
+      findAncestors(node.id);
+    }
+  });
+  findAncestors(rootId);
+
+  // People level with the branch, split by which side of it they sit on
+  const before: string[] = [];
+  const after: string[] = [];
+  result.forEach((pos, id) => {
+    const node = map.get(id);
+    if (branch.has(id) || ancestors.has(id) || !node || !PERSON_TYPES.includes(node.type) || !canMove(id)) return;
+    const s = span(pos);
+    if (s.dMax <= box.dMin || s.dMin >= box.dMax) return;
+    ((s.bMin + s.bMax) / 2 < rootCenter ? before : after).push(id);
+  });
+
+  const shiftAll = (ids: string[], delta: number) => {
+    if (delta === 0 || ids.length === 0) return;
+    // Their reports move with them so the neighbouring branches stay intact
+    const moved = new Set<string>();
+    const move = (id: string) => {
+      if (moved.has(id) || branch.has(id) || ancestors.has(id) || !canMove(id)) return;
+      moved.add(id);
+      const pos = result.get(id);
+      if (pos) result.set(id, horizontal ? { ...pos, y: pos.y + delta } : { ...pos, x: pos.x + delta });
+      map.get(id)?.children?.forEach(move);
+    };
+    ids.forEach(move);
+  };
+
+  const pushAfter = Math.max(0, ...after.map(id => box.bMax + margin - span(result.get(id)!).bMin));
+  const pushBefore = Math.max(0, ...before.map(id => span(result.get(id)!).bMax - (box.bMin - margin)));
+  shiftAll(after, pushAfter);
+  shiftAll(before, -pushBefore);
+
+  return result;
+}
+
+// --- Tidy tree (all four orientations plus compact) ---
+
+function layoutTree(
+  map: Map<string, ChartNode>,
+  currentPositions: Map<string, NodePosition>,
+  roots: ChartNode[],
+  settings: LayoutSettings
+): Map<string, NodePosition> {
+  const { algorithm, levelSpacing, siblingSpacing, groupSpacing } = settings;
+  const horizontal = algorithm === 'left-right' || algorithm === 'right-left';
+  const slot = horizontal ? CARD_SLOT_VERTICAL : CARD_SLOT_HORIZONTAL;
+  const newPositions = new Map<string, NodePosition>();
+  const widths = new Map<string, number>();
+
+  const sizeOf = (id: string) => {
+    const pos = currentPositions.get(id);
+    return { width: pos?.width || 208, height: pos?.height || 100 };
+  };
+
+  // Compact: a manager whose reports are all leaves stacks them in a column
+  const isStacked = (node: ChartNode) =>
+    algorithm === 'compact' && !!node.children?.length &&
+    node.children.every(c => !map.get(c)?.children?.length);
+
+  // Breadth a subtree needs, departments kept in padded blocks
+  const measureSubtree = (nodeId: string): number => {
+    if (widths.has(nodeId)) return widths.get(nodeId)!;
+    const node = map.get(nodeId);
+    let total = 0;
+    if (node) {
+      if (!node.children || node.children.length === 0) {
+        total = slot;
+      } else if (isStacked(node)) {
+        total = slot + STACK_INDENT;
+      } else {
+        forEachDepartmentBlock(map, node.children, (block, dept, isLast) => {
+          let blockWidth = block.reduce((sum, id, i) => sum + (i > 0 ? siblingSpacing : 0) + measureSubtree(id), 0);
+          if (dept) blockWidth += GROUP_PADDING * 2;
+          total += blockWidth + (isLast ? 0 : groupSpacing);
+        });
+      }
+    }
+    widths.set(nodeId, total);
+    return total;
+  };
+
+  // Maps (position across the tree, depth along it) onto the canvas
+  const place = (nodeId: string, breadthCenter: number, depthOffset: number) => {
+    const { width, height } = sizeOf(nodeId);
+    let x: number, y: number;
+    switch (algorithm) {
+      case 'bottom-up': x = breadthCenter - width / 2; y = -depthOffset + 50; break;
+      case 'left-right': x = depthOffset + 50; y = breadthCenter - height / 2; break;
+      case 'right-left': x = -depthOffset + 50; y = breadthCenter - height / 2; break;
+      default: x = breadthCenter - width / 2; y = depthOffset + 50;
+    }
+    newPositions.set(nodeId, { x, y, width, height });
+  };
+
+  const executeLayout = (nodeId: string, start: number, depth: number) => {
+    const node = map.get(nodeId);
+    if (!node || newPositions.has(nodeId)) return;
+
+    const totalW = measureSubtree(nodeId);
+    const center = start + (isStacked(node) ? slot / 2 : totalW / 2);
+    place(nodeId, center, depth * levelSpacing);
+
+    if (!node.children || node.children.length === 0) return;
+
+    if (isStacked(node)) {
+      const parent = newPositions.get(nodeId)!;
+      const step = CARD_ROW + siblingSpacing / 2;
+      node.children.forEach((childId, k) => {
+        if (newPositions.has(childId)) return;
+        const { width, height } = sizeOf(childId);
+        newPositions.set(childId, {
+          x: parent.x + STACK_INDENT,
+          y: parent.y + (k + 1) * step,
+          width,
+          height
+        });
+      });
+      return;
+    }
+
+    let current = start;
+    forEachDepartmentBlock(map, node.children, (block, dept, isLast) => {
+      if (dept) current += GROUP_PADDING;
+      block.forEach((childId, i) => {
+        if (i > 0) current += siblingSpacing;
+        executeLayout(childId, current, depth + 1);
+        current += measureSubtree(childId);
+      });
+      if (dept) current += GROUP_PADDING;
+      if (!isLast) current += groupSpacing;
+    });
+  };
+
+  let rootStart = 0;
+  roots.forEach(root => {
+    const w = measureSubtree(root.id);
+    executeLayout(root.id, rootStart, 0);
+    rootStart += w + groupSpacing + 200;
+  });
+
+  return newPositions;
+}
+
+// Splits a child list into runs of the same department
+function forEachDepartmentBlock(
+  map: Map<string, ChartNode>,
+  children: string[],
+  visit: (block: string[], department: string, isLast: boolean) => void
+) {
+  let i = 0;
+  while (i < children.length) {
+    const dept = map.get(children[i])?.department || '';
+    const block: string[] = [];
+    while (i < children.length && (map.get(children[i])?.department || '') === dept) {
+      block.push(children[i]);
+      i++;
+    }
+    visit(block, dept, i >= children.length);
+  }
+}
+
+// --- Radial ---
+
+function layoutRadial(
+  map: Map<string, ChartNode>,
+  currentPositions: Map<string, NodePosition>,
+  roots: ChartNode[],
+  settings: LayoutSettings
+): Map<string, NodePosition> {
+  const newPositions = new Map<string, NodePosition>();
+  const leafCounts = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const countLeaves = (id: string): number => {
+    if (leafCounts.has(id)) return leafCounts.get(id)!;
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    const children = map.get(id)?.children || [];
+    const count = children.length === 0 ? 1 : children.reduce((sum, c) => sum + countLeaves(c), 0) || 1;
+    leafCounts.set(id, count);
+    return count;
+  };
+
+  const depthOf = (id: string, seen = new Set<string>()): number => {
+    if (seen.has(id)) return 0;
+    seen.add(id);
+    const children = map.get(id)?.children || [];
+    return children.length === 0 ? 0 : 1 + Math.max(...children.map(c => depthOf(c, seen)));
+  };
+
+  let centerX = 0;
+  roots.forEach(root => {
+    const leaves = countLeaves(root.id);
+    const maxDepth = Math.max(1, depthOf(root.id));
+    // The outer ring must be long enough to fit every leaf side by side
+    const ringStep = Math.max(settings.levelSpacing, (leaves * (CARD_SLOT_HORIZONTAL + settings.siblingSpacing)) / (2 * Math.PI * maxDepth));
+    const radius = ringStep * maxDepth;
+    centerX += radius;
+
+    const assign = (id: string, from: number, to: number, depth: number) => {
+      if (newPositions.has(id)) return;
+      const pos = currentPositions.get(id);
+      const width = pos?.width || 208;
+      const height = pos?.height || 100;
+      const angle = (from + to) / 2;
+      const r = depth * ringStep;
+      newPositions.set(id, {
+        x: centerX + r * Math.cos(angle) - width / 2,
+        y: r * Math.sin(angle) - height / 2,
+        width,
+        height
+      });
+
+      let cursor = from;
+      const children = map.get(id)?.children || [];
+      const total = children.reduce((sum, c) => sum + countLeaves(c), 0) || 1;
+      children.forEach(childId => {
+        const span = (to - from) * countLeaves(childId) / total;
+        assign(childId, cursor, cursor + span, depth + 1);
+        cursor += span;
+      });
+    };
+
+    // Start at twelve o'clock and go clockwise
+    assign(root.id, -Math.PI / 2, Math.PI * 1.5, 0);
+    centerX += radius + settings.groupSpacing + CARD_SLOT_HORIZONTAL;
+  });
+
+  return newPositions;
+}
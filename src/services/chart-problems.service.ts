@@ -0,0 +1,14 @@
+import { Injectable, computed, inject } from '@angular/core';
+import { ChartStateService } from './chart-state.service';
+import { findProblems } from './chart-problems';
+
+// Problems in the open chart, re-checked on every edit; read by the header badge and the panel
+@Injectable({
+  providedIn: 'root'
+})
+export class ChartProblemsService {
+  private chartState = inject(ChartStateService);
+
+  problems = computed(() => findProblems(this.chartState.nodes(), this.chartState.edges(), this.chartState.visiblePositions()));
+  errorCount = computed(() => this.problems().filter(p => p.severity === 'error').length);
+}
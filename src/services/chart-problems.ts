@@ -0,0 +1,221 @@
+import { ChartNode, ChartEdge, NodePosition } from './chart-state.service';
+import { withHierarchy, reportsTo, MANAGEMENT_KINDS } from './chart-edges';
+import { nodeRect, getOverlapArea, containingGroup, Rect } from './chart-geometry';
+
+// Live checks over the chart. Each problem names the nodes (or edge) to jump
+// to and, where the intent is clear, a quick fix the editor applies as one step.
+
+export type ProblemKind = 'orphan' | 'multipleRoots' | 'departmentMismatch' | 'duplicateName' | 'emptyGroup' | 'edgeIntoNonPerson' | 'overlap';
+export type ProblemSeverity = 'error' | 'warning';
+
+export type ProblemFix =
+  | { type: 'setManager'; personIds: string[]; managerId: string }
+  | { type: 'setDepartment'; nodeId: string; department: string }
+  | { type: 'deleteNodes'; nodeIds: string[] }
+  | { type: 'deleteEdge'; edgeId: string }
+  | { type: 'move'; nodeId: string; dx: number; dy: number };
+
+export interface ChartProblem {
+  id: string; // Same for the same problem across checks
+  kind: ProblemKind;
+  severity: ProblemSeverity;
+  message: string;
+  nodeIds: string[];
+  edgeId?: string;
+  fix?: { label: string; action: ProblemFix };
+}
+
+export const PROBLEM_KINDS: { id: ProblemKind; label: string; icon: string; severity: ProblemSeverity }[] = [
+  { id: 'edgeIntoNonPerson', label: 'Conexiones a notas o formas', icon: 'link_off', severity: 'error' },
+  { id: 'departmentMismatch', label: 'Departamento distinto al de su grupo', icon: 'domain_disabled', severity: 'error' },
+  { id: 'multipleRoots', label: 'Varias cabezas', icon: 'account_tree', severity: 'warning' },
+  { id: 'orphan', label: 'Personas sin responsable', icon: 'person_off', severity: 'warning' },
+  { id: 'duplicateName', label: 'Nombres repetidos', icon: 'content_copy', severity: 'warning' },
+  { id: 'overlap', label: 'Elementos superpuestos', icon: 'layers', severity: 'warning' },
+  { id: 'emptyGroup', label: 'Grupos vacíos', icon: 'crop_free', severity: 'warning' }
+];
+
+const PERSON_TYPES: ChartNode['type'][] = ['executive', 'manager', 'employee'];
+
+const TYPE_LABELS: Record<ChartNode['type'], string> = {
+  executive: 'Directivo',
+  manager: 'Responsable',
+  employee: 'Empleado',
+  note: 'Nota',
+  shape: 'Forma',
+  group: 'Grupo',
+  text: 'Texto'
+};
+
+// Room left between two nodes pulled apart
+const SEPARATION_GAP = 20;
+
+/**
+ * Everything wrong with the chart, most serious kinds first. Geometric checks
+ * only look at `positions`, so callers pass the visible ones to leave
+ * collapsed branches alone.
+ */
+export function findProblems(nodes: Map<string, ChartNode>, edges: ChartEdge[], positions: Map<string, NodePosition>): ChartProblem[] {
+  const problems = [
+    ...edgesIntoNonPeople(nodes, edges),
+    ...departmentMismatches(nodes, positions),
+    ...reportingProblems(nodes, edges),
+    ...duplicateNames(nodes),
+    ...overlaps(nodes, positions),
+    ...emptyGroups(nodes, positions)
+  ];
+  const order = PROBLEM_KINDS.map(k => k.id);
+  return problems.sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind));
+}
+
+/** Short name for a node in a message. */
+export function nodeLabel(node: ChartNode): string {
+  const name = node.name?.trim();
+  if (!name) return TYPE_LABELS[node.type];
+  return name.length > 30 ? name.slice(0, 29) + '…' : name;
+}
+
+function problem(kind: ProblemKind, message: string, nodeIds: string[], extra: Partial<ChartProblem> = {}): ChartProblem {
+  const severity = PROBLEM_KINDS.find(k => k.id === kind)!.severity;
+  return { id: `${kind}:${extra.edgeId || nodeIds.join(',')}`, kind, severity, message, nodeIds, ...extra };
+}
+
+function people(nodes: Map<string, ChartNode>): ChartNode[] {
+  return Array.from(nodes.values()).filter(n => PERSON_TYPES.includes(n.type));
+}
+
+// People nobody manages: several with reports compete for the top, the rest hang loose
+function reportingProblems(nodes: Map<string, ChartNode>, edges: ChartEdge[]): ChartProblem[] {
+  const hierarchy = withHierarchy(nodes, edges);
+  const everyone = people(hierarchy);
+  if (everyone.length < 2) return [];
+
+  const managed = new Set(edges.filter(e => e.kind === 'reporting' && nodes.has(e.sourceId)).map(e => e.targetId));
+  const unmanaged = everyone.filter(p => !managed.has(p.id));
+  const roots = unmanaged.filter(p => p.children!.length > 0);
+  const orphans = unmanaged.filter(p => p.children!.length === 0);
+
+  // The biggest tree is the chart; everything else should join it
+  const headcount = (id: string): number => {
+    const seen = new Set<string>();
+    const stack = [id];
+    while (stack.length > 0) {
+      const next = stack.pop()!;
+      if (seen.has(next)) continue;
+      seen.add(next);
+      stack.push(...(hierarchy.get(next)?.children || []));
+    }
+    return seen.size;
+  };
+  const top = roots.reduce<ChartNode | null>((best, root) => !best || headcount(root.id) > headcount(best.id) ? root : best, null);
+
+  const problems: ChartProblem[] = [];
+  if (roots.length > 1 && top) {
+    const others = roots.filter(r => r.id !== top.id && !reportsTo(edges, r.id, top.id, MANAGEMENT_KINDS));
+    problems.push(problem('multipleRoots', `${roots.length} personas encabezan árboles separados`, roots.map(r => r.id), others.length ? {
+      fix: { label: `Que reporten a ${nodeLabel(top)}`, action: { type: 'setManager', personIds: others.map(r => r.id), managerId: top.id } }
+    } : {}));
+  }
+
+  orphans.forEach(person => {
+    const canJoin = top && !reportsTo(edges, person.id, top.id, MANAGEMENT_KINDS);
+    problems.push(problem('orphan', `${nodeLabel(person)} no tiene responsable`, [person.id], canJoin ? {
+      fix: { label: `Asignar a ${nodeLabel(top)}`, action: { type: 'setManager', personIds: [person.id], managerId: top.id } }
+    } : {}));
+  });
+  return problems;
+}
+
+// A person inside a department area should carry that department
+function departmentMismatches(nodes: Map<string, ChartNode>, positions: Map<string, NodePosition>): ChartProblem[] {
+  const problems: ChartProblem[] = [];
+  people(nodes).forEach(person => {
+    if (!positions.has(person.id)) return;
+    const group = containingGroup(person.id, nodes, positions);
+    if (!group || (person.department || '') === group.name) return;
+    const current = person.department ? `«${person.department}»` : 'ninguno';
+    // Locked people can't be edited, so there is nothing to offer
+    const locked = person.locked || positions.get(person.id)!.locked;
+    problems.push(problem('departmentMismatch', `${nodeLabel(person)} está en ${nodeLabel(group)} pero su departamento es ${current}`, [person.id], locked ? {} : {
+      fix: { label: `Cambiar a ${nodeLabel(group)}`, action: { type: 'setDepartment', nodeId: person.id, department: group.name } }
+    }));
+  });
+  return problems;
+}
+
+function duplicateNames(nodes: Map<string, ChartNode>): ChartProblem[] {
+  const byName = new Map<string, ChartNode[]>();
+  people(nodes).forEach(person => {
+    const key = person.name?.trim().toLowerCase();
+    if (key) byName.set(key, [...(byName.get(key) || []), person]);
+  });
+  return Array.from(byName.values())
+    .filter(list => list.length > 1)
+    .map(list => problem('duplicateName', `«${nodeLabel(list[0])}» aparece ${list.length} veces`, list.map(p => p.id)));
+}
+
+// Areas no person sits in
+function emptyGroups(nodes: Map<string, ChartNode>, positions: Map<string, NodePosition>): ChartProblem[] {
+  const members = people(nodes).filter(p => positions.has(p.id)).map(p => nodeRect(p, positions.get(p.id)!));
+  const problems: ChartProblem[] = [];
+  nodes.forEach(group => {
+    const pos = positions.get(group.id);
+    if (group.type !== 'group' || !pos) return;
+    const rect = nodeRect(group, pos);
+    if (members.some(m => getOverlapArea(rect, m) > 0)) return;
+    problems.push(problem('emptyGroup', `${nodeLabel(group)} no contiene a nadie`, [group.id], group.locked || pos.locked ? {} : {
+      fix: { label: 'Eliminar grupo', action: { type: 'deleteNodes', nodeIds: [group.id] } }
+    }));
+  });
+  return problems;
+}
+
+// Notes and shapes annotate the chart; nothing should point into them
+function edgesIntoNonPeople(nodes: Map<string, ChartNode>, edges: ChartEdge[]): ChartProblem[] {
+  return edges
+    .filter(e => nodes.has(e.sourceId) && ['note', 'shape'].includes(nodes.get(e.targetId)?.type || ''))
+    .map(e => {
+      const source = nodes.get(e.sourceId)!;
+      const target = nodes.get(e.targetId)!;
+      const what = target.type === 'note' ? 'una nota' : 'una forma';
+      return problem('edgeIntoNonPerson', `${nodeLabel(source)} apunta a ${what} (${nodeLabel(target)})`, [e.sourceId, e.targetId], {
+        edgeId: e.id,
+        fix: { label: 'Eliminar conexión', action: { type: 'deleteEdge', edgeId: e.id } }
+      });
+    });
+}
+
+// Cards, notes, shapes and text covering each other. Areas are meant to hold nodes, so they're left out
+function overlaps(nodes: Map<string, ChartNode>, positions: Map<string, NodePosition>): ChartProblem[] {
+  const boxes = Array.from(nodes.values())
+    .filter(n => n.type !== 'group' && positions.has(n.id))
+    .map(n => ({ node: n, rect: nodeRect(n, positions.get(n.id)!), locked: !!(n.locked || positions.get(n.id)!.locked) }))
+    .sort((a, b) => a.rect.x - b.rect.x);
+
+  const problems: ChartProblem[] = [];
+  // Sweep from left to right: only boxes starting before this one ends can overlap it
+  for (let i = 0; i < boxes.length; i++) {
+    const a = boxes[i];
+    for (let j = i + 1; j < boxes.length && boxes[j].rect.x < a.rect.x + a.rect.w; j++) {
+      const b = boxes[j];
+      if (getOverlapArea(a.rect, b.rect) === 0) continue;
+      const [still, moving] = b.locked ? [b, a] : [a, b];
+      const push = separation(still.rect, moving.rect);
+      problems.push(problem('overlap', `${nodeLabel(a.node)} y ${nodeLabel(b.node)} se superponen`, [a.node.id, b.node.id], moving.locked ? {} : {
+        fix: { label: `Apartar ${nodeLabel(moving.node)}`, action: { type: 'move', nodeId: moving.node.id, ...push } }
+      }));
+    }
+  }
+  return problems;
+}
+
+// Shortest horizontal or vertical push that clears `moving` off `still`
+function separation(still: Rect, moving: Rect): { dx: number; dy: number } {
+  const right = still.x + still.w + SEPARATION_GAP - moving.x;
+  const left = still.x - SEPARATION_GAP - (moving.x + moving.w);
+  const down = still.y + still.h + SEPARATION_GAP - moving.y;
+  const up = still.y - SEPARATION_GAP - (moving.y + moving.h);
+  const dx = Math.abs(left) < right ? left : right;
+  const dy = Math.abs(up) < down ? up : down;
+  return Math.abs(dx) <= Math.abs(dy) ? { dx, dy: 0 } : { dx: 0, dy };
+}
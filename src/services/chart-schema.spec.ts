@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { CHART_FORMAT_VERSION, parseChartFile } from './chart-schema';
+
+const person = (id: string, extra: Record<string, unknown> = {}) => ({ id, type: 'employee', name: id, ...extra });
+
+const current = (nodes: Record<string, unknown>[], edges: unknown[]) => ({
+  formatVersion: CHART_FORMAT_VERSION,
+  nodes,
+  positions: Object.fromEntries(nodes.map(n => [n.id, { x: 0, y: 0 }])),
+  edges
+});
+
+const edge = (id: string, sourceId: string, targetId: string, kind = 'reporting') => ({ id, sourceId, targetId, kind });
+
+const kinds = (edges: { id: string; kind: string }[]) => Object.fromEntries(edges.map(e => [e.id, e.kind]));
+
+describe('parseChartFile', () => {
+  it('rejects data that is not a chart', () => {
+    expect(parseChartFile([]).file).toBeNull();
+    expect(parseChartFile({ nodes: [] }).issues[0].path).toBe('formatVersion');
+    expect(parseChartFile({ formatVersion: CHART_FORMAT_VERSION + 1, nodes: [] }).file).toBeNull();
+  });
+
+  it('rejects nodes without an id or with an unknown type', () => {
+    const result = parseChartFile(current([person('a'), { type: 'employee' }, person('b', { type: 'robot' })], []));
+    expect(result.file).toBeNull();
+    expect(result.issues.filter(i => i.severity === 'error').map(i => i.path)).toEqual(['nodes[1].id', 'nodes[2].type']);
+  });
+
+  it('migrates version 1 exports, with Map entries and children lists', () => {
+    const result = parseChartFile({
+      nodes: [['a', person('a', { children: ['b'] })], ['b', person('b')]],
+      positions: [['a', { x: 10, y: 20 }], ['b', { x: 30, y: 40 }]]
+    });
+    expect(result.file).not.toBeNull();
+    expect(result.file!.formatVersion).toBe(CHART_FORMAT_VERSION);
+    expect(result.file!.nodes.map(n => n.id)).toEqual(['a', 'b']);
+    expect(result.file!.nodes[0]).not.toHaveProperty('children');
+    expect(result.file!.positions).toEqual({ a: { x: 10, y: 20 }, b: { x: 30, y: 40 } });
+    expect(result.file!.edges).toEqual([{ id: 'a-b', sourceId: 'a', targetId: 'b', kind: 'reporting' }]);
+  });
+
+  it('drops version 2 children that are not ids with a warning', () => {
+    const result = parseChartFile({
+      formatVersion: 2,
+      nodes: [person('a', { children: ['b', 7, ''] }), person('b')],
+      positions: { a: { x: 0, y: 0 }, b: { x: 0, y: 0 } }
+    });
+    expect(result.file!.edges.map(e => e.id)).toEqual(['a-b']);
+    expect(result.issues.map(i => i.path)).toEqual(expect.arrayContaining(['nodes[0].children[1]', 'nodes[0].children[2]']));
+  });
+
+  it('drops edges to missing nodes and self loops', () => {
+    const result = parseChartFile(current([person('a'), person('b')], [edge('ab', 'a', 'b'), edge('ax', 'a', 'x'), edge('aa', 'a', 'a')]));
+    expect(result.file!.edges.map(e => e.id)).toEqual(['ab']);
+  });
+
+  it('keeps the first manager and turns extra reporting lines into dotted ones', () => {
+    const result = parseChartFile(current([person('a'), person('b'), person('c')], [edge('ac', 'a', 'c'), edge('bc', 'b', 'c')]));
+    expect(kinds(result.file!.edges)).toEqual({ ac: 'reporting', bc: 'dotted' });
+    expect(result.issues.some(i => i.path === 'edges[1].kind')).toBe(true);
+  });
+
+  it('breaks reporting loops', () => {
+    const result = parseChartFile(current([person('a'), person('b')], [edge('ab', 'a', 'b'), edge('ba', 'b', 'a')]));
+    expect(kinds(result.file!.edges)).toEqual({ ab: 'reporting', ba: 'advisory' });
+  });
+
+  it('breaks management loops at a dotted line, including demoted duplicates', () => {
+    const result = parseChartFile(current([person('a'), person('b'), person('c')], [
+      edge('ca', 'c', 'a', 'dotted'),
+      edge('ab', 'a', 'b'),
+      edge('bc', 'b', 'c'),
+      edge('ac', 'a', 'c'),
+      edge('cb', 'c', 'b')
+    ]));
+    expect(kinds(result.file!.edges)).toEqual({ ca: 'advisory', ab: 'reporting', bc: 'reporting', ac: 'dotted', cb: 'advisory' });
+  });
+
+  it('leaves other kinds of lines out of the loop check', () => {
+    const result = parseChartFile(current([person('a'), person('b')], [edge('ab', 'a', 'b'), edge('ba', 'b', 'a', 'advisory')]));
+    expect(kinds(result.file!.edges)).toEqual({ ab: 'reporting', ba: 'advisory' });
+    expect(result.issues.filter(i => i.path.startsWith('edges'))).toEqual([]);
+  });
+
+  it('places nodes without a position at the origin', () => {
+    const result = parseChartFile({ formatVersion: CHART_FORMAT_VERSION, nodes: [person('a')], positions: {} });
+    expect(result.file!.positions).toEqual({ a: { x: 0, y: 0 } });
+  });
+
+  it('keeps lock and collapse flags only when they are true', () => {
+    const result = parseChartFile(current([
+      person('a', { locked: true, collapsed: true }),
+      person('b', { locked: 0, collapsed: 'false' }),
+      person('c', { locked: false })
+    ], []));
+    expect(result.file!.nodes.map(n => [n.locked, n.collapsed])).toEqual([[true, true], [undefined, undefined], [undefined, undefined]]);
+    expect(result.issues.filter(i => i.path.startsWith('nodes')).map(i => i.path)).toEqual(['nodes[1].locked', 'nodes[1].collapsed']);
+  });
+
+  it('drops unknown hand-picked style properties', () => {
+    const result = parseChartFile(current([person('a', { styleOverrides: ['backgroundColor', 'children', 3] })], []));
+    expect(result.file!.nodes[0].styleOverrides).toEqual(['backgroundColor']);
+  });
+});
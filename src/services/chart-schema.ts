@@ -0,0 +1,576 @@
+import { ChartNode, NodePosition, Drawing, ChartEdge, EdgeKind, FieldDefinition } from './chart-state.service';
+import { LayoutSettings, DEFAULT_LAYOUT, normalizeLayoutSettings } from './chart-layout';
+import { EDGE_KINDS, EDGE_PORTS, EDGE_ROUTINGS, EDGE_STROKE_STYLES, MANAGEMENT_KINDS, newEdgeId, reportsTo } from './chart-edges';
+import { FIELD_TYPES } from './chart-fields';
+import { CardDesign, CARD_TEMPLATES, DEFAULT_CARD_DESIGN, normalizeCardDesign } from './card-styles';
+import { ChartTheme, CLASSIC_THEME, parseThemeFile, themedProps } from './chart-themes';
+
+/**
+ * Versioned JSON document format for import/export.
+ *
+ * Version history:
+ *  1 - Legacy raw dump: { nodes: [id, node][], positions: [id, pos][], drawings? }
+ *  2 - { formatVersion, metadata, nodes: ChartNode[], positions: Record<id, pos>, drawings, layout? }
+ *  3 - Adds edges: ChartEdge[]; the hierarchy moves from nodes[].children to reporting edges
+ *      Optional sections added since, read as empty when missing: fields (custom field schema),
+ *      cardDesign (card template and styling rules), theme (palette, fonts and card corners)
+ */
+export const CHART_FORMAT_VERSION = 3;
+
+export const NODE_TYPES: ChartNode['type'][] = ['executive', 'manager', 'employee', 'note', 'shape', 'group', 'text'];
+const SHAPE_TYPES = ['rectangle', 'circle', 'triangle', 'star', 'diamond'];
+const TEXT_ALIGNS = ['left', 'center', 'right'];
+const AVATAR_TYPES = ['image', 'icon'];
+
+export interface ChartFileMetadata {
+  name: string;
+  chartType: string;
+  exportedAt: string;
+  generator: string;
+}
+
+export interface ChartFile {
+  formatVersion: number;
+  metadata: ChartFileMetadata;
+  nodes: ChartNode[];
+  positions: Record<string, NodePosition>;
+  drawings: Drawing[];
+  edges: ChartEdge[];
+  layout: LayoutSettings;
+  fields: FieldDefinition[]; // Custom field schema; values are in nodes[].fields
+  cardDesign: CardDesign;
+  theme: ChartTheme;
+}
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  path: string; // e.g. "nodes[3].type"
+  message: string;
+}
+
+export interface ParseResult {
+  file: ChartFile | null; // null when there is at least one error
+  issues: ValidationIssue[];
+}
+
+// Each migration upgrades a document from version N to N + 1, reporting what it had to drop
+const MIGRATIONS: Record<number, (data: Record<string, unknown>, warn: Report) => Record<string, unknown>> = {
+  1: data => ({
+    formatVersion: 2,
+    metadata: {},
+    nodes: Array.isArray(data.nodes) ? data.nodes.map((entry: unknown) => Array.isArray(entry) ? entry[1] : entry) : data.nodes,
+    positions: Array.isArray(data.positions)
+      ? Object.fromEntries(data.positions.filter((entry: unknown) => Array.isArray(entry)).map((entry: unknown[]) => [entry[0], entry[1]]))
+      : data.positions,
+    drawings: Array.isArray(data.drawings) ? data.drawings : []
+  }),
+  // Every parent -> child entry becomes a reporting edge. Entries that are not ids are
+  // dropped here; validation then drops the ones pointing at missing nodes
+  2: (data, warn) => {
+    const nodes = data.nodes;
+    const edges: Record<string, unknown>[] = [];
+    if (Array.isArray(nodes)) {
+      nodes.forEach((node: unknown, i: number) => {
+        if (!isObject(node) || typeof node.id !== 'string' || !Array.isArray(node.children)) return;
+        const parentId = node.id;
+        node.children.forEach((childId: unknown, j: number) => {
+          if (typeof childId !== 'string' || !childId) {
+            warn(`nodes[${i}].children[${j}]`, 'El id del hijo no es un texto válido; la relación se descartará.');
+            return;
+          }
+          edges.push({
+            id: `${parentId}-${childId}`,
+            sourceId: parentId,
+            targetId: childId,
+            kind: 'reporting'
+          });
+        });
+      });
+    }
+    return {
+      ...data,
+      formatVersion: 3,
+      nodes: Array.isArray(nodes)
+        ? nodes.map((node: unknown) => {
+            if (!isObject(node)) return node;
+            const { children, ...rest } = node;
+            return rest;
+          })
+        : nodes,
+      edges
+    };
+  }
+};
+
+export function buildChartFile(
+  nodes: Map<string, ChartNode>,
+  positions: Map<string, NodePosition>,
+  drawings: Drawing[],
+  edges: ChartEdge[],
+  meta: { name: string; chartType: string },
+  layout: LayoutSettings = DEFAULT_LAYOUT,
+  fields: FieldDefinition[] = [],
+  cardDesign: CardDesign = DEFAULT_CARD_DESIGN,
+  theme: ChartTheme = CLASSIC_THEME
+): ChartFile {
+  return {
+    formatVersion: CHART_FORMAT_VERSION,
+    metadata: {
+      name: meta.name,
+      chartType: meta.chartType,
+      exportedAt: new Date().toISOString(),
+      generator: 'ChartFlow'
+    },
+    nodes: Array.from(nodes.values()),
+    positions: Object.fromEntries(positions),
+    drawings,
+    edges,
+    layout,
+    fields,
+    cardDesign,
+    theme
+  };
+}
+
+export function parseChartFile(data: unknown): ParseResult {
+  const issues: ValidationIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+  const warn = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+
+  if (!isObject(data)) {
+    error('', 'El archivo no contiene un objeto JSON.');
+    return { file: null, issues };
+  }
+
+  // 1. Detect version and migrate up to the current one
+  let doc: Record<string, unknown> = data;
+  let version = detectVersion(doc);
+  if (version === null) {
+    error('formatVersion', 'No se reconoce el formato: falta "formatVersion" y no es una exportación antigua.');
+    return { file: null, issues };
+  }
+  if (version > CHART_FORMAT_VERSION) {
+    error('formatVersion', `El archivo usa la versión ${version}, más nueva que la soportada (${CHART_FORMAT_VERSION}).`);
+    return { file: null, issues };
+  }
+  while (version < CHART_FORMAT_VERSION) {
+    doc = MIGRATIONS[version](doc, warn);
+    warn('formatVersion', `Migrado desde la versión ${version} a la ${version + 1}.`);
+    version++;
+  }
+
+  // 2. Validate each section
+  const metadata = validateMetadata(doc.metadata, warn);
+  const fields = validateFields(doc.fields, warn);
+  const nodes = validateNodes(doc.nodes, fields, error, warn);
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const positions = validatePositions(doc.positions, nodeIds, error, warn);
+  const drawings = validateDrawings(doc.drawings, error, warn);
+  const edges = validateEdges(doc.edges, nodeIds, error, warn);
+  const layout = validateLayout(doc.layout, warn);
+  const cardDesign = validateCardDesign(doc.cardDesign, warn);
+  const theme = validateTheme(doc.theme, warn);
+
+  // 3. Repair the hierarchy
+  repairReportingLines(edges, warn);
+  nodes.forEach((node, i) => {
+    if (!positions[node.id]) {
+      warn(`nodes[${i}]`, `El nodo "${node.id}" no tiene posición; se colocará en (0, 0).`);
+      positions[node.id] = { x: 0, y: 0 };
+    }
+  });
+
+  if (issues.some(issue => issue.severity === 'error')) {
+    return { file: null, issues };
+  }
+  return {
+    file: { formatVersion: CHART_FORMAT_VERSION, metadata, nodes, positions, drawings, edges, layout, fields, cardDesign, theme },
+    issues
+  };
+}
+
+function detectVersion(doc: Record<string, unknown>): number | null {
+  if (typeof doc.formatVersion === 'number' && Number.isInteger(doc.formatVersion) && doc.formatVersion >= 1) {
+    return doc.formatVersion;
+  }
+  if (doc.formatVersion === undefined && Array.isArray(doc.nodes) && Array.isArray(doc.positions)) {
+    return 1;
+  }
+  return null;
+}
+
+type Report = (path: string, message: string) => void;
+
+function validateMetadata(raw: unknown, warn: Report): ChartFileMetadata {
+  const meta: Record<string, unknown> = isObject(raw) ? raw : {};
+  if (!isObject(raw)) warn('metadata', 'Faltan los metadatos; se usarán valores por defecto.');
+  return {
+    name: typeof meta.name === 'string' ? meta.name : '',
+    chartType: meta.chartType === 'whiteboard' || meta.chartType === 'matrix' ? meta.chartType : 'functional',
+    exportedAt: typeof meta.exportedAt === 'string' ? meta.exportedAt : '',
+    generator: typeof meta.generator === 'string' ? meta.generator : ''
+  };
+}
+
+// Optional: files written before layouts were configurable use the default
+function validateLayout(raw: unknown, warn: Report): LayoutSettings {
+  if (raw === undefined) return DEFAULT_LAYOUT;
+  const layout = normalizeLayoutSettings(isObject(raw) ? raw : null);
+  if (!isObject(raw) || (Object.keys(layout) as (keyof LayoutSettings)[]).some(key => raw[key] !== undefined && raw[key] !== layout[key])) {
+    warn('layout', 'La configuración de diseño no es válida; se han corregido los valores.');
+  }
+  return layout;
+}
+
+// Optional: files written before card templates use the standard card with no rules
+function validateCardDesign(raw: unknown, warn: Report): CardDesign {
+  if (raw === undefined) return DEFAULT_CARD_DESIGN;
+  const design = normalizeCardDesign(raw);
+  const rawRules = isObject(raw) && Array.isArray(raw.rules) ? raw.rules.length : 0;
+  if (!isObject(raw) || design.template !== raw.template || design.rules.length !== rawRules) {
+    warn('cardDesign', 'El diseño de tarjetas no es válido; se han descartado los valores incorrectos.');
+  }
+  return design;
+}
+
+// Optional: files written before themes use the classic one
+function validateTheme(raw: unknown, warn: Report): ChartTheme {
+  if (raw === undefined) return CLASSIC_THEME;
+  const parsed = parseThemeFile(raw);
+  if ('errors' in parsed) {
+    warn('theme', `El tema no es válido y se usará el clásico. ${parsed.errors[0]}`);
+    return CLASSIC_THEME;
+  }
+  if (!parsed.theme.id) {
+    warn('theme', 'El tema no tiene identificador; se usará el clásico.');
+    return CLASSIC_THEME;
+  }
+  return parsed.theme;
+}
+
+// Optional: files written before custom fields have none
+function validateFields(raw: unknown, warn: Report): FieldDefinition[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    warn('fields', 'Se esperaba una lista de campos personalizados; se descartará.');
+    return [];
+  }
+
+  const result: FieldDefinition[] = [];
+  raw.forEach((item: unknown, i: number) => {
+    const path = `fields[${i}]`;
+    if (!isObject(item) || typeof item.id !== 'string' || !item.id || typeof item.label !== 'string') {
+      warn(path, 'El campo debe tener "id" y "label" de tipo texto; se descartará.');
+      return;
+    }
+    if (result.some(f => f.id === item.id)) {
+      warn(`${path}.id`, `Campo duplicado "${item.id}"; se descartará.`);
+      return;
+    }
+    const type = FIELD_TYPES.find(t => t.id === item.type)?.id;
+    const field: FieldDefinition = { id: item.id, label: item.label, type: type ?? 'text' };
+    if (!type) {
+      warn(`${path}.type`, `Tipo de campo "${item.type}" desconocido; se usará "text".`);
+    }
+    if (field.type === 'select') {
+      const options = Array.isArray(item.options) ? item.options.filter((o: unknown): o is string => typeof o === 'string') : [];
+      if (!Array.isArray(item.options) || options.length !== item.options.length) warn(`${path}.options`, 'Las opciones deben ser una lista de textos; se descartan las no válidas.');
+      field.options = options;
+    }
+    if (item.showOnCard === true) field.showOnCard = true;
+    result.push(field);
+  });
+  return result;
+}
+
+function validateNodes(raw: unknown, fields: FieldDefinition[], error: Report, warn: Report): ChartNode[] {
+  if (!Array.isArray(raw)) {
+    error('nodes', 'Se esperaba una lista de nodos.');
+    return [];
+  }
+
+  const result: ChartNode[] = [];
+  const seen = new Set<string>();
+
+  raw.forEach((item: unknown, i: number) => {
+    const path = `nodes[${i}]`;
+    if (!isObject(item)) {
+      error(path, 'El nodo no es un objeto.');
+      return;
+    }
+
+    const id = typeof item.id === 'string' ? item.id : '';
+    const type = isOneOf(NODE_TYPES, item.type) ? item.type : null;
+    if (!id) {
+      error(`${path}.id`, 'El id debe ser un texto no vacío.');
+    } else if (seen.has(id)) {
+      error(`${path}.id`, `Id duplicado "${id}".`);
+    }
+    if (!type) {
+      error(`${path}.type`, `Tipo de nodo desconocido "${item.type}". Valores válidos: ${NODE_TYPES.join(', ')}.`);
+    }
+    if (!id || seen.has(id) || !type) return;
+    seen.add(id);
+
+    // Checked property by property; it only counts as a node once it is pushed
+    const node: Record<string, unknown> = { ...item };
+    if (typeof node.name !== 'string') {
+      warn(`${path}.name`, 'El nombre no es texto; se dejará vacío.');
+      node.name = '';
+    }
+    if (typeof node.role !== 'string') {
+      if (node.role !== undefined) warn(`${path}.role`, 'El rol no es texto; se dejará vacío.');
+      node.role = '';
+    }
+    if (!isOneOf(AVATAR_TYPES, node.avatarType)) {
+      if (node.avatarType !== undefined) warn(`${path}.avatarType`, `Tipo de avatar "${node.avatarType}" no válido; se usará "icon".`);
+      node.avatarType = 'icon';
+    }
+    if (node.children !== undefined) {
+      warn(`${path}.children`, 'Las relaciones se guardan en "edges"; la lista de hijos se descartará.');
+      delete node.children;
+    }
+
+    const optionalStrings: (keyof ChartNode)[] = [
+      'department', 'level', 'avatarImage', 'avatarIcon', 'fontFamily', 'fontWeight', 'fontStyle', 'textDecoration',
+      'backgroundColor', 'nameColor', 'roleColor', 'departmentColor', 'borderColor'
+    ];
+    optionalStrings.forEach(key => {
+      if (node[key] !== undefined && typeof node[key] !== 'string') {
+        warn(`${path}.${key}`, 'Se esperaba texto; el valor se descartará.');
+        delete node[key];
+      }
+    });
+
+    // Flags are kept only when exactly true, as in positions: "false" or 0 must not lock or hide anything
+    const flags: (keyof ChartNode)[] = ['locked', 'collapsed'];
+    flags.forEach(key => {
+      if (node[key] === undefined || node[key] === true) return;
+      if (node[key] !== false) warn(`${path}.${key}`, 'Se esperaba true o false; el valor se descartará.');
+      delete node[key];
+    });
+
+    const optionalNumbers: (keyof ChartNode)[] = ['borderRadius', 'fontSize', 'borderWidth'];
+    optionalNumbers.forEach(key => {
+      if (node[key] !== undefined && !isFiniteNumber(node[key])) {
+        warn(`${path}.${key}`, 'Se esperaba un número; el valor se descartará.');
+        delete node[key];
+      }
+    });
+
+    if (node.shapeType !== undefined && !isOneOf(SHAPE_TYPES, node.shapeType)) {
+      warn(`${path}.shapeType`, `Forma "${node.shapeType}" desconocida; se usará "rectangle".`);
+      node.shapeType = 'rectangle';
+    }
+    if (node.textAlign !== undefined && !isOneOf(TEXT_ALIGNS, node.textAlign)) {
+      warn(`${path}.textAlign`, `Alineación "${node.textAlign}" no válida; se descartará.`);
+      delete node.textAlign;
+    }
+    if (node.cardTemplate !== undefined && !CARD_TEMPLATES.some(t => t.id === node.cardTemplate)) {
+      warn(`${path}.cardTemplate`, `Plantilla de tarjeta "${node.cardTemplate}" desconocida; se usará la del organigrama.`);
+      delete node.cardTemplate;
+    }
+    if (node.fields !== undefined) {
+      node.fields = validateFieldValues(node.fields, fields, `${path}.fields`, warn);
+    }
+    if (node.styleOverrides !== undefined) {
+      const themed = themedProps(type);
+      const picked = Array.isArray(node.styleOverrides) ? node.styleOverrides.filter((prop: unknown) => isOneOf(themed, prop)) : [];
+      if (!Array.isArray(node.styleOverrides) || picked.length !== node.styleOverrides.length) {
+        warn(`${path}.styleOverrides`, 'La lista de estilos elegidos a mano no es válida; se descartan los valores incorrectos.');
+      }
+      if (picked.length) node.styleOverrides = picked; else delete node.styleOverrides;
+    }
+
+    result.push(node as unknown as ChartNode);
+  });
+
+  return result;
+}
+
+// Values must belong to a field in the schema and be text
+function validateFieldValues(raw: unknown, fields: FieldDefinition[], path: string, warn: Report): Record<string, string> {
+  if (!isObject(raw)) {
+    warn(path, 'Los campos personalizados deben ser un objeto; se descartarán.');
+    return {};
+  }
+  const values: Record<string, string> = {};
+  Object.entries(raw).forEach(([id, value]) => {
+    if (!fields.some(f => f.id === id)) {
+      warn(`${path}.${id}`, `El campo "${id}" no está definido; el valor se descartará.`);
+    } else if (typeof value !== 'string') {
+      warn(`${path}.${id}`, 'Se esperaba texto; el valor se descartará.');
+    } else {
+      values[id] = value;
+    }
+  });
+  return values;
+}
+
+function validatePositions(raw: unknown, nodeIds: Set<string>, error: Report, warn: Report): Record<string, NodePosition> {
+  const result: Record<string, NodePosition> = {};
+  if (!isObject(raw)) {
+    error('positions', 'Se esperaba un objeto de posiciones indexado por id de nodo.');
+    return result;
+  }
+
+  Object.entries(raw).forEach(([id, pos]) => {
+    const path = `positions.${id}`;
+    if (!nodeIds.has(id)) {
+      warn(path, `Posición para un nodo inexistente "${id}"; se descartará.`);
+      return;
+    }
+    if (!isObject(pos) || !isFiniteNumber(pos.x) || !isFiniteNumber(pos.y)) {
+      error(path, 'La posición debe tener coordenadas numéricas "x" e "y".');
+      return;
+    }
+    const clean: NodePosition = { x: pos.x, y: pos.y };
+    (['width', 'height'] as const).forEach(key => {
+      const size = pos[key];
+      if (size === undefined) return;
+      if (isFiniteNumber(size) && size > 0) {
+        clean[key] = size;
+      } else {
+        warn(`${path}.${key}`, 'La dimensión debe ser un número positivo; se descartará.');
+      }
+    });
+    if (pos.pinned === true) clean.pinned = true;
+    if (pos.locked === true) clean.locked = true;
+    result[id] = clean;
+  });
+
+  return result;
+}
+
+function validateDrawings(raw: unknown, error: Report, warn: Report): Drawing[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    error('drawings', 'Se esperaba una lista de dibujos.');
+    return [];
+  }
+
+  const result: Drawing[] = [];
+  raw.forEach((item: unknown, i: number) => {
+    const path = `drawings[${i}]`;
+    if (!isObject(item) || typeof item.id !== 'string' || typeof item.path !== 'string') {
+      error(path, 'El dibujo debe tener "id" y "path" de tipo texto.');
+      return;
+    }
+    const drawing: Drawing = {
+      id: item.id,
+      path: item.path,
+      color: typeof item.color === 'string' ? item.color : '#000000',
+      strokeWidth: isFiniteNumber(item.strokeWidth) && item.strokeWidth > 0 ? item.strokeWidth : 3
+    };
+    if (typeof item.color !== 'string') warn(`${path}.color`, 'Color no válido; se usará negro.');
+    if (drawing.strokeWidth !== item.strokeWidth) warn(`${path}.strokeWidth`, 'Grosor no válido; se usará 3.');
+    result.push(drawing);
+  });
+  return result;
+}
+
+const EDGE_KIND_IDS = EDGE_KINDS.map(k => k.id);
+
+function validateEdges(raw: unknown, nodeIds: Set<string>, error: Report, warn: Report): ChartEdge[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    error('edges', 'Se esperaba una lista de conexiones.');
+    return [];
+  }
+
+  const result: ChartEdge[] = [];
+  const seen = new Set<string>();
+  raw.forEach((item: unknown, i: number) => {
+    const path = `edges[${i}]`;
+    if (!isObject(item) || typeof item.id !== 'string' || typeof item.sourceId !== 'string' || typeof item.targetId !== 'string') {
+      error(path, 'La conexión debe tener "id", "sourceId" y "targetId" de tipo texto.');
+      return;
+    }
+    if (!nodeIds.has(item.sourceId) || !nodeIds.has(item.targetId)) {
+      warn(path, `La conexión "${item.id}" une nodos inexistentes; se eliminó.`);
+      return;
+    }
+    if (item.sourceId === item.targetId) {
+      warn(path, `La conexión "${item.id}" une "${item.sourceId}" consigo mismo; se eliminó.`);
+      return;
+    }
+
+    const edge: ChartEdge = { id: item.id, sourceId: item.sourceId, targetId: item.targetId, kind: isOneOf(EDGE_KIND_IDS, item.kind) ? item.kind : 'generic' };
+    if (seen.has(edge.id)) {
+      edge.id = newEdgeId();
+      warn(`${path}.id`, `Id duplicado "${item.id}"; se asignó "${edge.id}".`);
+    }
+    seen.add(edge.id);
+    if (edge.kind !== item.kind) {
+      warn(`${path}.kind`, `Tipo de conexión "${item.kind}" desconocido; se usará "generic".`);
+    }
+
+    const optional: [keyof ChartEdge, (v: unknown) => boolean][] = [
+      ['label', v => typeof v === 'string'],
+      ['color', v => typeof v === 'string'],
+      ['strokeStyle', v => EDGE_STROKE_STYLES.some(s => s.id === v)],
+      ['strokeWidth', v => isFiniteNumber(v) && v > 0],
+      ['arrowStart', v => typeof v === 'boolean'],
+      ['arrowEnd', v => typeof v === 'boolean'],
+      ['routing', v => EDGE_ROUTINGS.some(r => r.id === v)],
+      ['sourcePort', v => EDGE_PORTS.some(p => p.id === v)],
+      ['targetPort', v => EDGE_PORTS.some(p => p.id === v)]
+    ];
+    optional.forEach(([key, isValid]) => {
+      const value = item[key];
+      if (value === undefined) return;
+      if (isValid(value)) {
+        Object.assign(edge, { [key]: value });
+      } else {
+        warn(`${path}.${key}`, 'Valor no válido; se descartará.');
+      }
+    });
+
+    result.push(edge);
+  });
+  return result;
+}
+
+// One manager per person and no loops along management lines (reporting and dotted), the
+// same rules the editor applies: extra reporting lines are kept as dotted ones, loops as advisory
+function repairReportingLines(edges: ChartEdge[], warn: Report) {
+  const demote = (edge: ChartEdge, message: string, kind: EdgeKind = 'dotted') => {
+    edge.kind = kind;
+    warn(`edges[${edges.indexOf(edge)}].kind`, message);
+  };
+
+  const parentOf = new Map<string, ChartEdge>();
+  edges.forEach(edge => {
+    if (edge.kind !== 'reporting') return;
+    const existing = parentOf.get(edge.targetId);
+    if (existing) {
+      demote(edge, `"${edge.targetId}" ya depende de "${existing.sourceId}"; la línea desde "${edge.sourceId}" pasa a ser punteada.`);
+      return;
+    }
+    parentOf.set(edge.targetId, edge);
+  });
+
+  // Break cycles: reporting lines are kept first, so a loop is cut at a dotted line when it has one.
+  // Not dotted: a secondary manager would still close the loop
+  const kept: ChartEdge[] = [];
+  const management = edges.filter(e => MANAGEMENT_KINDS.includes(e.kind));
+  [...management.filter(e => e.kind === 'reporting'), ...management.filter(e => e.kind !== 'reporting')].forEach(edge => {
+    if (reportsTo(kept, edge.targetId, edge.sourceId, MANAGEMENT_KINDS)) {
+      demote(edge, `La línea "${edge.sourceId}" → "${edge.targetId}" formaba un ciclo; pasa a ser consultiva.`, 'advisory');
+    } else {
+      kept.push(edge);
+    }
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOneOf<T>(values: readonly T[], value: unknown): value is T {
+  return (values as readonly unknown[]).includes(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
@@ -0,0 +1,113 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { ChartStateService, ChartNode } from './chart-state.service';
+import { SearchHit, searchNodes, parseFilter } from './chart-search';
+
+export type SearchMode = 'search' | 'filter';
+
+// State of the canvas search box, shared by the canvas, the minimap and the box itself
+@Injectable({
+  providedIn: 'root'
+})
+export class ChartSearchService {
+  private chartState = inject(ChartStateService);
+
+  isOpen = signal(false);
+  mode = signal<SearchMode>('search');
+  query = signal('');
+  activeIndex = signal(0);
+  focusRequests = signal(0); // Bumped to move the keyboard focus to the box
+
+  private parsedFilter = computed(() => {
+    if (this.mode() !== 'filter' || !this.query().trim()) return null;
+    return parseFilter(this.query(), this.chartState.fieldSchema());
+  });
+
+  filterError = computed(() => {
+    const parsed = this.parsedFilter();
+    return parsed && 'error' in parsed ? parsed.error : null;
+  });
+
+  // Search hits are ranked; filter matches go in reading order so cycling sweeps the chart
+  results = computed<SearchHit[]>(() => {
+    if (!this.isOpen()) return [];
+    // Everyone counts, also people in collapsed branches: the box says where they are hidden
+    const nodes = Array.from(this.chartState.nodes().values());
+    if (this.mode() === 'search') return searchNodes(nodes, this.query(), this.chartState.fieldSchema());
+
+    const parsed = this.parsedFilter();
+    if (!parsed || 'error' in parsed) return [];
+    const positions = this.chartState.nodePositions();
+    return nodes
+      .filter(parsed.filter)
+      .sort((a, b) => {
+        const pa = positions.get(a.id), pb = positions.get(b.id);
+        return (pa?.y ?? 0) - (pb?.y ?? 0) || (pa?.x ?? 0) - (pb?.x ?? 0);
+      })
+      .map(node => ({ id: node.id, score: 0, field: 'name' }));
+  });
+
+  matchIds = computed(() => new Set(this.results().map(hit => hit.id)));
+
+  activeHit = computed<SearchHit | null>(() => {
+    const results = this.results();
+    return results.length ? results[Math.min(this.activeIndex(), results.length - 1)] : null;
+  });
+
+  // Only changes when another node becomes the current hit, not on every edit
+  activeId = computed(() => this.activeHit()?.id ?? null);
+
+  // Outermost collapsed node hiding the current hit, or null when it is on the canvas
+  activeHiddenUnder = computed<ChartNode | null>(() => {
+    const id = this.activeId();
+    const rootId = id ? this.chartState.collapsedAncestors(id)[0] : undefined;
+    return rootId ? this.chartState.nodes().get(rootId) ?? null : null;
+  });
+
+  // Filter mode dims everything outside the filter, once it is valid
+  isFiltering = computed(() => {
+    const parsed = this.parsedFilter();
+    return !!parsed && 'filter' in parsed;
+  });
+
+  open(mode?: SearchMode) {
+    if (mode) this.mode.set(mode);
+    this.isOpen.set(true);
+    this.focusRequests.update(n => n + 1);
+  }
+
+  close() {
+    this.isOpen.set(false);
+  }
+
+  setQuery(query: string) {
+    this.query.set(query);
+    this.activeIndex.set(0);
+  }
+
+  setMode(mode: SearchMode) {
+    this.mode.set(mode);
+    this.activeIndex.set(0);
+  }
+
+  /** Moves to the next (or previous) result, wrapping around. */
+  step(delta: 1 | -1) {
+    const count = this.results().length;
+    if (count === 0) return;
+    this.activeIndex.update(i => (Math.min(i, count - 1) + delta + count) % count);
+  }
+
+  /** Expands the branches hiding the current hit. */
+  revealActive() {
+    const id = this.activeId();
+    if (id) this.chartState.revealNode(id);
+  }
+
+  highlightOf(id: string): 'active' | 'match' | null {
+    if (!this.matchIds().has(id)) return null;
+    return this.activeId() === id ? 'active' : 'match';
+  }
+
+  isDimmed(id: string): boolean {
+    return this.isFiltering() && !this.matchIds().has(id);
+  }
+}
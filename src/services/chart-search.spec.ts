@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ChartNode, FieldDefinition } from './chart-state.service';
+import { parseFilter } from './chart-search';
+
+const FIELDS: FieldDefinition[] = [
+  { id: 'start', label: 'Fecha de alta', type: 'date' },
+  { id: 'fte', label: 'FTE', type: 'number' }
+];
+
+const NODES: ChartNode[] = [
+  { id: 'ana', name: 'Ana', role: 'Directora', department: 'Diseño', level: 'P6 - Liderar', type: 'executive', avatarType: 'icon', fields: { start: '2019-03-01', fte: '1' } },
+  { id: 'luis', name: 'Luis', role: 'Diseñador', department: 'Diseño', level: 'P4 - Aplicar', type: 'employee', avatarType: 'icon', fields: { start: '2023-09-15', fte: '0.5' } },
+  { id: 'eva', name: 'Eva', role: 'Ingeniera', department: 'Product', level: 'P5 - Asegurar, Asesorar', type: 'manager', avatarType: 'icon' },
+  { id: 'nota', name: 'Revisar', role: '', type: 'note', avatarType: 'icon' }
+];
+
+// Ids of the nodes the expression keeps, or its error
+function run(expression: string): string[] | string {
+  const result = parseFilter(expression, FIELDS);
+  return 'error' in result ? result.error : NODES.filter(result.filter).map(n => n.id);
+}
+
+describe('parseFilter', () => {
+  it('compares text ignoring case and accents', () => {
+    expect(run('departamento = diseno')).toEqual(['ana', 'luis']);
+    expect(run('dept != DISEÑO')).toEqual(['eva', 'nota']);
+    expect(run('rol ~ diseñ')).toEqual(['luis']);
+  });
+
+  it('takes values with spaces, quoted or not', () => {
+    expect(run('nivel = "P5 - Asegurar, Asesorar"')).toEqual(['eva']);
+    expect(run('name = Ana AND role = Directora')).toEqual(['ana']);
+  });
+
+  it('compares levels by their number', () => {
+    expect(run('nivel = P5')).toEqual(['eva']);
+    expect(run('nivel >= P5')).toEqual(['ana', 'eva']);
+    expect(run('level < p5')).toEqual(['luis']);
+  });
+
+  it('combines conditions with AND before OR, NOT and parentheses', () => {
+    expect(run('tipo = employee OR tipo = manager AND departamento = Product')).toEqual(['luis', 'eva']);
+    expect(run('(tipo = employee OR tipo = manager) AND departamento = Product')).toEqual(['eva']);
+    expect(run('NOT tipo = note and not departamento = Diseño')).toEqual(['eva']);
+  });
+
+  it('compares number and date custom fields by value', () => {
+    expect(run('FTE < 1')).toEqual(['luis']);
+    expect(run('"fecha de alta" >= 01/01/2020')).toEqual(['luis']);
+    expect(run('fecha_de_alta != 01/03/2019')).toEqual(['luis', 'eva', 'nota']);
+  });
+
+  it('explains what is wrong with an expression', () => {
+    expect(run('')).toMatch(/Escribe una condición/);
+    expect(run('edad = 30')).toMatch(/Campo desconocido: "edad"/);
+    expect(run('nombre Ana')).toMatch(/Falta un operador/);
+    expect(run('nombre =')).toMatch(/Falta el valor/);
+    expect(run('(nombre = Ana')).toMatch(/paréntesis/);
+    expect(run('nombre = Ana AND')).toMatch(/Falta una condición/);
+    expect(run('nombre > Ana')).toMatch(/Solo el nivel/);
+    expect(run('FTE = mucho')).toMatch(/no es un número/);
+    expect(run('FTE ~ 1')).toMatch(/Usa =, !=, < o >/);
+  });
+});
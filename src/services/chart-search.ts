@@ -0,0 +1,295 @@
+import { ChartNode, FieldDefinition } from './chart-state.service';
+import { formatFieldValue, parseFieldValue } from './chart-fields';
+
+// Finding people on the canvas: fuzzy search over the card text and custom
+// fields, and a small filter language such as `department = Product AND level >= P5`.
+
+export type SearchField = 'name' | 'role' | 'department' | 'level';
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  field: SearchField | FieldDefinition; // Where the best match was, shown next to the result
+}
+
+export type NodeFilter = (node: ChartNode) => boolean;
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  name: 'Nombre',
+  role: 'Rol',
+  department: 'Departamento',
+  level: 'Nivel'
+};
+
+const SEARCHABLE_TYPES: ChartNode['type'][] = ['executive', 'manager', 'employee'];
+const FIELDS: SearchField[] = ['name', 'role', 'department', 'level'];
+
+/**
+ * People matching every word of `query` in some field, best first. Words may
+ * match loosely (letters in order, with gaps), so "emch" finds "Emily Chen".
+ * Custom fields match as stored and as shown on the card (31/12/2024).
+ */
+export function searchNodes(nodes: Iterable<ChartNode>, query: string, customFields: FieldDefinition[] = []): SearchHit[] {
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const fields: (SearchField | FieldDefinition)[] = [...FIELDS, ...customFields];
+  const hits: SearchHit[] = [];
+  for (const node of nodes) {
+    if (!SEARCHABLE_TYPES.includes(node.type)) continue;
+    let total = 0;
+    let bestField: SearchField | FieldDefinition = 'name';
+    let bestScore = -Infinity;
+    const matchesAll = words.every(word => {
+      let wordScore = -Infinity;
+      for (const field of fields) {
+        const score = fuzzyScore(word, normalize(searchableText(node, field)));
+        if (score === null || score <= wordScore) continue;
+        wordScore = score;
+        if (score > bestScore) {
+          bestScore = score;
+          bestField = field;
+        }
+      }
+      total += wordScore;
+      return wordScore > -Infinity;
+    });
+    if (matchesAll) hits.push({ id: node.id, score: total, field: bestField });
+  }
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+/** Text a hit matched in, as the user reads it. */
+export function searchFieldText(node: ChartNode, field: SearchField | FieldDefinition): string {
+  if (typeof field === 'string') return node[field] || '';
+  return formatFieldValue(field, node.fields?.[field.id] || '');
+}
+
+function searchableText(node: ChartNode, field: SearchField | FieldDefinition): string {
+  if (typeof field === 'string') return node[field] || '';
+  const value = node.fields?.[field.id] || '';
+  const shown = formatFieldValue(field, value);
+  return shown === value ? value : `${value} ${shown}`;
+}
+
+/**
+ * How well `word` matches `text` (both normalized), or null when it doesn't.
+ * Whole substrings beat scattered letters; word starts and runs score higher.
+ */
+export function fuzzyScore(word: string, text: string): number | null {
+  if (!word || !text) return null;
+
+  const index = text.indexOf(word);
+  if (index !== -1) {
+    const atWordStart = index === 0 || !isWordChar(text[index - 1]);
+    return 100 + word.length * 10 + (atWordStart ? 50 : 0) - index;
+  }
+
+  let score = 0;
+  let run = 0;
+  let from = 0;
+  for (const char of word) {
+    const found = text.indexOf(char, from);
+    if (found === -1) return null;
+    run = found === from && from > 0 ? run + 1 : 0;
+    score += 1 + run * 5 + (found === 0 || !isWordChar(text[found - 1]) ? 8 : 0) - Math.min(found - from, 10) * 0.5;
+    from = found + 1;
+  }
+  // Too scattered to be what the user meant
+  return score >= word.length * 2 ? score : null;
+}
+
+/** Position of a level on the career ladder ("P5 - Asegurar" → 5), or null. */
+export function levelRank(level?: string): number | null {
+  const match = /^\s*p?\s*(\d+)/i.exec(level || '');
+  return match ? Number(match[1]) : null;
+}
+
+// --- Filter expressions ---
+
+type FilterField = SearchField | 'type';
+type Operator = '=' | '!=' | '~' | '>' | '>=' | '<' | '<=';
+
+const FIELD_NAMES: Record<string, FilterField> = {
+  name: 'name', nombre: 'name',
+  role: 'role', rol: 'role', puesto: 'role', cargo: 'role',
+  department: 'department', departamento: 'department', dept: 'department', depto: 'department',
+  level: 'level', nivel: 'level',
+  type: 'type', tipo: 'type'
+};
+
+const OPERATORS: Record<string, Operator> = {
+  '=': '=', '==': '=', '!=': '!=', '≠': '!=', '~': '~',
+  '>': '>', '>=': '>=', '≥': '>=', '<': '<', '<=': '<=', '≤': '<='
+};
+
+const TOKEN_PATTERN = /\s*(\(|\)|>=|<=|==|!=|[=~<>≥≤≠]|"[^"]*"|'[^']*'|[^\s()=~<>≥≤≠!"']+)/y;
+
+/**
+ * Compiles a filter such as `department = Product AND level ≥ P5`.
+ * Conditions are `field operator value`; combine them with AND, OR, NOT and
+ * parentheses (AND binds tighter). Text compares ignore case and accents;
+ * `~` means "contains". Levels compare by their number, and so do number and
+ * date custom fields. Custom fields go by their label, quoted when it has spaces.
+ */
+export function parseFilter(expression: string, customFields: FieldDefinition[] = []): { filter: NodeFilter } | { error: string } {
+  const tokens: string[] = [];
+  let rest = expression.trim();
+  while (rest) {
+    TOKEN_PATTERN.lastIndex = 0;
+    const match = TOKEN_PATTERN.exec(rest);
+    if (!match) return { error: `No se entiende "${rest.trim()}"` };
+    tokens.push(match[1]);
+    rest = rest.slice(match[0].length).trim();
+  }
+  if (tokens.length === 0) return { error: 'Escribe una condición, p. ej. departamento = Product' };
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const isKeyword = (token: string | undefined, keyword: string) => token?.toUpperCase() === keyword;
+
+  const parseOr = (): NodeFilter => {
+    let left = parseAnd();
+    while (isKeyword(peek(), 'OR')) {
+      position++;
+      const a = left, b = parseAnd();
+      left = node => a(node) || b(node);
+    }
+    return left;
+  };
+
+  const parseAnd = (): NodeFilter => {
+    let left = parseNot();
+    while (isKeyword(peek(), 'AND')) {
+      position++;
+      const a = left, b = parseNot();
+      left = node => a(node) && b(node);
+    }
+    return left;
+  };
+
+  const parseNot = (): NodeFilter => {
+    if (isKeyword(peek(), 'NOT')) {
+      position++;
+      const inner = parseNot();
+      return node => !inner(node);
+    }
+    if (peek() === '(') {
+      position++;
+      const inner = parseOr();
+      if (peek() !== ')') throw new Error('Falta cerrar un paréntesis');
+      position++;
+      return inner;
+    }
+    return parseCondition();
+  };
+
+  const parseCondition = (): NodeFilter => {
+    const fieldToken = peek();
+    if (fieldToken === undefined) throw new Error('Falta una condición al final');
+    const key = fieldKey(unquote(fieldToken));
+    const field = FIELD_NAMES[key] || customFields.find(f => fieldKey(f.label) === key || fieldKey(f.id) === key);
+    if (!field) {
+      const names = ['nombre', 'rol', 'departamento', 'nivel', 'tipo', ...customFields.map(f => f.label.toLowerCase())];
+      throw new Error(`Campo desconocido: "${fieldToken}". Usa ${names.slice(0, -1).join(', ')} o ${names[names.length - 1]}`);
+    }
+    position++;
+
+    const operator = OPERATORS[peek() ?? ''];
+    if (!operator) throw new Error(`Falta un operador (=, !=, ~, >, <…) después de "${fieldToken}"`);
+    position++;
+
+    // The value runs until the next keyword or parenthesis, so it may have spaces
+    const words: string[] = [];
+    while (position < tokens.length && peek() !== ')' && !['AND', 'OR'].includes(peek().toUpperCase())) {
+      words.push(unquote(tokens[position++]));
+    }
+    if (words.length === 0) throw new Error(`Falta el valor de "${fieldToken}"`);
+    return condition(field, operator, words.join(' '));
+  };
+
+  try {
+    const filter = parseOr();
+    if (position < tokens.length) throw new Error(`Sobra "${tokens[position]}"`);
+    return { filter };
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+}
+
+function condition(field: FilterField | FieldDefinition, operator: Operator, value: string): NodeFilter {
+  if (typeof field !== 'string' && (field.type === 'number' || field.type === 'date')) return orderedCondition(field, operator, value);
+
+  const wanted = normalize(value);
+  const wantedRank = field === 'level' ? levelRank(value) : null;
+
+  if (operator === '>' || operator === '>=' || operator === '<' || operator === '<=') {
+    if (wantedRank === null) throw new Error('Solo el nivel, los números y las fechas se pueden comparar con < y >, p. ej. nivel >= P5');
+    return node => {
+      const rank = levelRank(node.level);
+      if (rank === null) return false;
+      switch (operator) {
+        case '>': return rank > wantedRank;
+        case '>=': return rank >= wantedRank;
+        case '<': return rank < wantedRank;
+        default: return rank <= wantedRank;
+      }
+    };
+  }
+
+  const equals = (node: ChartNode) => {
+    // "nivel = P5" matches "P5 - Asegurar, Asesorar"
+    if (wantedRank !== null) return levelRank(node.level) === wantedRank;
+    return normalize(fieldValue(node, field)) === wanted;
+  };
+  switch (operator) {
+    case '=': return equals;
+    case '!=': return node => !equals(node);
+    default: return node => normalize(fieldValue(node, field)).includes(wanted);
+  }
+}
+
+// Number and date fields: compares numbers, or dates in their YYYY-MM-DD form
+function orderedCondition(field: FieldDefinition, operator: Operator, value: string): NodeFilter {
+  const wanted = parseFieldValue(field, value);
+  if (!wanted) throw new Error(field.type === 'number' ? `"${value}" no es un número` : `"${value}" no es una fecha (usa dd/mm/aaaa)`);
+  if (operator === '~') throw new Error(`Usa =, !=, < o > con ${field.label}`);
+
+  const compare = (a: string, b: string) => field.type === 'number' ? Number(a) - Number(b) : a.localeCompare(b);
+  return node => {
+    const stored = node.fields?.[field.id];
+    if (!stored) return operator === '!=';
+    const diff = compare(stored, wanted);
+    switch (operator) {
+      case '=': return diff === 0;
+      case '!=': return diff !== 0;
+      case '>': return diff > 0;
+      case '>=': return diff >= 0;
+      case '<': return diff < 0;
+      default: return diff <= 0;
+    }
+  };
+}
+
+function fieldValue(node: ChartNode, field: FilterField | FieldDefinition): string {
+  if (typeof field !== 'string') return node.fields?.[field.id] || '';
+  return (field === 'type' ? node.type : node[field]) || '';
+}
+
+// Field names match ignoring case, accents, spaces, dashes and underscores
+function fieldKey(text: string): string {
+  return normalize(text).replace(/[\s_-]+/g, '');
+}
+
+function unquote(token: string): string {
+  return /^(["']).*\1$/.test(token) ? token.slice(1, -1) : token;
+}
+
+// Lower case without accents, so "Diseño" and "diseno" are the same
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+function isWordChar(char: string): boolean {
+  return /[a-z0-9]/.test(char);
+}
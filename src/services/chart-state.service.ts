@@ -1,4 +1,28 @@
 import { Injectable, signal, computed } from '@angular/core';
+import { parseChartFile, ValidationIssue } from './chart-schema';
+import { RosterPerson } from './roster-import';
+import { getContentBounds, defaultNodeSize, nodeRect, getOverlapArea, containingGroup } from './chart-geometry';
+import { layoutHierarchy, layoutSubtree, connectorFlow, LayoutSettings, ConnectorStyle, DEFAULT_LAYOUT, normalizeLayoutSettings } from './chart-layout';
+import { edgesFromChildren, withoutChildren, withHierarchy, reportsTo, newEdgeId, collapsedBranches, reportingLevels, MANAGEMENT_KINDS } from './chart-edges';
+import { TemplateContent, addPerson, addGroup } from './chart-templates';
+import { ProblemFix } from './chart-problems';
+import { fieldIdFor, parseFieldValue } from './chart-fields';
+import { CardDesign, CardTemplate, StyleRule, DEFAULT_CARD_DESIGN, normalizeCardDesign } from './card-styles';
+import { ChartTheme, ThemedProp, CLASSIC_THEME, normalizeTheme, restyleNodes, themeNodeStyle, markOverrides } from './chart-themes';
+import { NodeStyle, nodeStyle, withStyle, sameStyle, appliesTo } from './node-styles';
+import { AlignEdge, AlignItem, DistributeAxis, Offset, SizeDimension, alignOffsets, distributeOffsets, matchSizes, isResizable } from './chart-align';
+
+// Career levels available for people nodes
+export const LEVELS = [
+  'P0 - Egresado',
+  'P1 - Seguir',
+  'P2 - Asistir',
+  'P3 - Aplicar',
+  'P4 - Facilitar',
+  'P5 - Asegurar, Asesorar',
+  'P6 - Iniciar, Ejercer influencia',
+  'P7 - Establecer estrategias, inspirar, movilizar'
+];
 
 export interface ChartNode {
   id: string;
@@ -25,7 +49,7 @@ export interface ChartNode {
   avatarIcon?: string;  // Stores Emoji or Material Icon name
   
   level?: string; // P0 - P7
-  children?: string[]; 
+  children?: string[]; // Legacy: reporting edges hold the hierarchy now, see withHierarchy
   
   // Styling props
   backgroundColor?: string; 
@@ -34,6 +58,24 @@ export interface ChartNode {
   departmentColor?: string;
   borderColor?: string;
   borderWidth?: number;
+
+  locked?: boolean; // Protected from editing and deletion
+  collapsed?: boolean; // Reports and everything below them hidden from the canvas and layout
+
+  fields?: Record<string, string>; // Custom field values keyed by field id, see FieldDefinition
+  cardTemplate?: CardTemplate; // Overrides the chart's card template for this person
+  styleOverrides?: ThemedProp[]; // Theme-set properties the user picked by hand; theme switches keep them
+}
+
+export type FieldType = 'text' | 'number' | 'date' | 'select' | 'email' | 'url';
+
+// An extra attribute people in this chart carry (email, location, cost centre…)
+export interface FieldDefinition {
+  id: string;
+  label: string;
+  type: FieldType;
+  options?: string[]; // Choices of a 'select' field
+  showOnCard?: boolean;
 }
 
 export interface NodePosition {
@@ -41,12 +83,33 @@ export interface NodePosition {
   y: number;
   width?: number; // Dynamic width
   height?: number; // Dynamic height
+  pinned?: boolean; // Layouts never move pinned nodes
+  locked?: boolean; // Neither layouts nor dragging move locked nodes
 }
 
+export type EdgeKind = 'reporting' | 'dotted' | 'advisory' | 'generic';
+export type EdgeStrokeStyle = 'solid' | 'dashed' | 'dotted';
+export type EdgeRouting = 'auto' | 'curved' | 'straight' | 'orthogonal';
+export type EdgePort = 'top' | 'bottom' | 'left' | 'right';
+
 export interface ChartEdge {
   id: string;
   sourceId: string;
   targetId: string;
+  kind: EdgeKind; // Only reporting edges make up the hierarchy
+  label?: string;
+
+  // Styling props; unset ones follow the kind (see resolveEdgeStyle)
+  strokeStyle?: EdgeStrokeStyle;
+  color?: string;
+  strokeWidth?: number;
+  arrowStart?: boolean;
+  arrowEnd?: boolean;
+  routing?: EdgeRouting; // 'auto' follows the chart layout
+
+  // Sides the edge is attached to; unset ones follow the layout's flow
+  sourcePort?: EdgePort;
+  targetPort?: EdgePort;
 }
 
 export interface Drawing {
@@ -56,6 +119,9 @@ export interface Drawing {
   strokeWidth: number;
 }
 
+// How long layout changes take to glide into place
+const LAYOUT_ANIMATION_MS = 450;
+
 interface ClipboardItem {
   type: 'node' | 'drawing';
   data: ChartNode | Drawing;
@@ -66,10 +132,31 @@ interface ClipboardItem {
 }
 
 // Interface for History
-interface HistorySnapshot {
+export interface HistorySnapshot {
   nodes: [string, ChartNode][]; // Map entries as array for JSON safety
   positions: [string, NodePosition][]; // Map entries
   drawings: Drawing[];
+  edges?: ChartEdge[]; // Missing in history saved before edges were stored
+  chartType?: string; // Template switches change these too; missing in older history
+  layout?: LayoutSettings;
+  fields?: FieldDefinition[];
+  cardDesign?: CardDesign;
+  theme?: ChartTheme;
+}
+
+// Everything a saved document needs to restore the editor exactly as it was left
+export interface ChartDocumentState {
+  chartType: string;
+  nodes: [string, ChartNode][];
+  positions: [string, NodePosition][];
+  drawings: Drawing[];
+  edges?: ChartEdge[]; // Missing in documents saved before edges were stored (hierarchy in children)
+  history: { undo: HistorySnapshot[]; redo: HistorySnapshot[] };
+  viewport: { zoomLevel: number; panOffset: { x: number; y: number } };
+  layout?: LayoutSettings; // Missing in documents saved before layouts were configurable
+  fields?: FieldDefinition[]; // Missing in documents saved before custom fields
+  cardDesign?: CardDesign; // Missing in documents saved before card templates
+  theme?: ChartTheme; // Missing in documents saved before themes
 }
 
 @Injectable({
@@ -80,6 +167,7 @@ export class ChartStateService {
   nodes = signal<Map<string, ChartNode>>(new Map());
   nodePositions = signal<Map<string, NodePosition>>(new Map());
   drawings = signal<Drawing[]>([]);
+  edges = signal<ChartEdge[]>([]);
   
   selectedNodeIds = signal<Set<string>>(new Set()); 
   selectedDrawingIds = signal<Set<string>>(new Set());
@@ -88,43 +176,91 @@ export class ChartStateService {
   zoomLevel = signal<number>(100);
   panOffset = signal<{x: number, y: number}>({ x: 0, y: 0 });
 
+  // Structure of the open document ('functional' | 'matrix' | 'whiteboard')
+  chartType = signal<string>('functional');
+
+  // Auto-layout algorithm and spacing of the open document
+  layoutSettings = signal<LayoutSettings>(DEFAULT_LAYOUT);
+
+  // Custom fields people in this document carry, in display order
+  fieldSchema = signal<FieldDefinition[]>([]);
+
+  // Card template and styling rules of the open document
+  cardDesign = signal<CardDesign>(DEFAULT_CARD_DESIGN);
+
+  // Palette, fonts and shapes new nodes start from
+  theme = signal<ChartTheme>(CLASSIC_THEME);
+
+  // Direction connectors are drawn in, following the layout
+  edgeFlow = computed(() => connectorFlow(this.layoutSettings().algorithm));
+
   // Dark Mode State
   isDarkMode = signal<boolean>(false);
 
+  // Colour of connectors without their own; themes without one follow the editor's mode
+  connectorColor = computed(() => this.theme().connectorColor || (this.isDarkMode() ? '#94a3b8' : '#64748b'));
+
   // History Stacks
   private undoStack: HistorySnapshot[] = [];
   private redoStack: HistorySnapshot[] = [];
   private maxHistorySize = 50; // Limit history to save memory
 
+  // Layout change currently gliding into place
+  private positionAnimation: { frame: number; target: Map<string, NodePosition> } | null = null;
+
   // Clipboard
   private clipboard: ClipboardItem[] = [];
+  private clipboardEdges: ChartEdge[] = []; // Connectors between copied nodes
 
-  // Computed Edges for Rendering
-  edges = computed(() => {
-    const edges: ChartEdge[] = [];
-    const nodeMap = this.nodes();
-    
-    nodeMap.forEach((node: ChartNode) => {
-      if (node.children) {
-        node.children.forEach(childId => {
-          // Verify child exists
-          if (nodeMap.has(childId)) {
-            edges.push({
-              id: `${node.id}-${childId}`,
-              sourceId: node.id,
-              targetId: childId
-            });
-          }
-        });
-      }
+  // Look copied with copyStyle, kept apart from the node clipboard
+  styleClipboard = signal<NodeStyle | null>(null);
+
+  // Computed: Nodes with their reports filled in from the reporting edges
+  hierarchy = computed(() => withHierarchy(this.nodes(), this.edges()));
+
+  selectedEdge = computed(() => {
+    const id = this.selectedEdgeId();
+    return id ? this.edges().find(e => e.id === id) || null : null;
+  });
+
+  // Computed: People under each collapsed node, keyed by that node
+  collapsedBranches = computed(() => collapsedBranches(this.nodes(), this.edges()));
+
+  // Computed: Nodes off the canvas, the minimap and the layout: everyone under a
+  // collapsed node, and the areas left with none of their people showing
+  hiddenNodeIds = computed(() => {
+    const hidden = new Set<string>();
+    this.collapsedBranches().forEach(ids => ids.forEach(id => hidden.add(id)));
+    if (hidden.size === 0) return hidden;
+
+    const nodes = Array.from(this.nodes().values());
+    const functionalTypes = ['executive', 'manager', 'employee'];
+    nodes.filter(n => n.type === 'group').forEach(group => {
+      const members = nodes.filter(n => n.department === group.name && functionalTypes.includes(n.type));
+      if (members.length > 0 && members.every(m => hidden.has(m.id))) hidden.add(group.id);
     });
-    return edges;
+    return hidden;
   });
 
+  // Computed: Positions of the nodes on the canvas
+  visiblePositions = computed(() => {
+    const hidden = this.hiddenNodeIds();
+    const positions = this.nodePositions();
+    if (hidden.size === 0) return positions;
+    return new Map(Array.from(positions).filter(([id]) => !hidden.has(id)));
+  });
+
+  // Computed: Box around every visible node and drawing in world units, null when empty.
+  // Shared by the minimap and the image exporters
+  contentBounds = computed(() => getContentBounds(this.visiblePositions().values(), this.drawings()));
+
   // Computed: Used for rendering the nodes
   flatNodes = computed(() => {
-    const list: { data: ChartNode; x: number; y: number; width?: number; height?: number }[] = [];
+    const list: { data: ChartNode; x: number; y: number; width?: number; height?: number; pinned?: boolean; locked?: boolean; reportCount: number; hiddenCount: number }[] = [];
     const positions = this.nodePositions();
+    const hidden = this.hiddenNodeIds();
+    const hierarchy = this.hierarchy();
+    const branches = this.collapsedBranches();
     
     // Convert to array and sort: Groups first (render at bottom), then others
     const sortedNodes = Array.from(this.nodes().values()).sort((a: ChartNode, b: ChartNode) => {
@@ -134,13 +270,18 @@ export class ChartStateService {
     });
 
     sortedNodes.forEach((node: ChartNode) => {
+      if (hidden.has(node.id)) return;
       const pos = positions.get(node.id) || { x: 0, y: 0 };
       list.push({ 
         data: node, 
         x: pos.x, 
         y: pos.y, 
         width: pos.width, 
-        height: pos.height 
+        height: pos.height,
+        pinned: pos.pinned,
+        locked: node.locked || pos.locked,
+        reportCount: hierarchy.get(node.id)?.children?.length || 0,
+        hiddenCount: branches.get(node.id)?.length || 0
       });
     });
     return list;
@@ -155,10 +296,6 @@ export class ChartStateService {
 
   selectionCount = computed(() => this.selectedNodeIds().size + this.selectedDrawingIds().size);
 
-  constructor() {
-    this.loadFunctionalChart(false);
-  }
-
   toggleDarkMode() {
     this.isDarkMode.update(v => !v);
     if (this.isDarkMode()) {
@@ -171,11 +308,18 @@ export class ChartStateService {
   // --- History Management ---
 
   saveHistory() {
+    this.finishPositionAnimation();
     const snapshot: HistorySnapshot = {
       // Deep copy maps by converting to array of entries and stringifying
       nodes: JSON.parse(JSON.stringify(Array.from(this.nodes().entries()))),
       positions: JSON.parse(JSON.stringify(Array.from(this.nodePositions().entries()))),
-      drawings: JSON.parse(JSON.stringify(this.drawings()))
+      drawings: JSON.parse(JSON.stringify(this.drawings())),
+      edges: JSON.parse(JSON.stringify(this.edges())),
+      chartType: this.chartType(),
+      layout: this.layoutSettings(),
+      fields: JSON.parse(JSON.stringify(this.fieldSchema())),
+      cardDesign: JSON.parse(JSON.stringify(this.cardDesign())),
+      theme: this.theme()
     };
 
     this.undoStack.push(snapshot);
@@ -187,12 +331,19 @@ export class ChartStateService {
 
   undo() {
     if (this.undoStack.length === 0) return;
+    this.finishPositionAnimation();
 
     // Save current state to redo stack
     const currentSnapshot: HistorySnapshot = {
       nodes: Array.from(this.nodes().entries()),
       positions: Array.from(this.nodePositions().entries()),
-      drawings: this.drawings()
+      drawings: this.drawings(),
+      edges: this.edges(),
+      chartType: this.chartType(),
+      layout: this.layoutSettings(),
+      fields: this.fieldSchema(),
+      cardDesign: this.cardDesign(),
+      theme: this.theme()
     };
     this.redoStack.push(currentSnapshot);
 
@@ -205,12 +356,19 @@ export class ChartStateService {
 
   redo() {
     if (this.redoStack.length === 0) return;
+    this.finishPositionAnimation();
 
     // Save current state to undo stack (without clearing redo)
     const currentSnapshot: HistorySnapshot = {
       nodes: Array.from(this.nodes().entries()),
       positions: Array.from(this.nodePositions().entries()),
-      drawings: this.drawings()
+      drawings: this.drawings(),
+      edges: this.edges(),
+      chartType: this.chartType(),
+      layout: this.layoutSettings(),
+      fields: this.fieldSchema(),
+      cardDesign: this.cardDesign(),
+      theme: this.theme()
     };
     this.undoStack.push(currentSnapshot);
 
@@ -221,104 +379,354 @@ export class ChartStateService {
     }
   }
 
+  // --- Document State (used by the document library for persistence) ---
+
+  getDocumentState(): ChartDocumentState {
+    return JSON.parse(JSON.stringify({
+      chartType: this.chartType(),
+      nodes: Array.from(this.nodes().entries()),
+      positions: Array.from((this.positionAnimation?.target ?? this.nodePositions()).entries()),
+      drawings: this.drawings(),
+      edges: this.edges(),
+      history: { undo: this.undoStack, redo: this.redoStack },
+      viewport: { zoomLevel: this.zoomLevel(), panOffset: this.panOffset() },
+      layout: this.layoutSettings(),
+      fields: this.fieldSchema(),
+      cardDesign: this.cardDesign(),
+      theme: this.theme()
+    }));
+  }
+
+  loadDocumentState(state: ChartDocumentState) {
+    this.finishPositionAnimation();
+    this.chartType.set(state.chartType);
+    this.applyNodesAndEdges(new Map(state.nodes), state.edges);
+    this.nodePositions.set(new Map(state.positions));
+    this.drawings.set(state.drawings);
+    this.undoStack = state.history.undo;
+    this.redoStack = state.history.redo;
+    this.zoomLevel.set(state.viewport.zoomLevel);
+    this.panOffset.set(state.viewport.panOffset);
+    this.layoutSettings.set(normalizeLayoutSettings(state.layout));
+    this.fieldSchema.set(state.fields ?? []);
+    this.cardDesign.set(normalizeCardDesign(state.cardDesign));
+    this.theme.set(normalizeTheme(state.theme));
+    this.clearSelection();
+  }
+
+  clearHistory() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
   private applySnapshot(snapshot: HistorySnapshot) {
-    this.nodes.set(new Map(snapshot.nodes));
+    this.applyNodesAndEdges(new Map(snapshot.nodes), snapshot.edges);
     this.nodePositions.set(new Map(snapshot.positions));
     this.drawings.set(snapshot.drawings);
+    if (snapshot.chartType) this.chartType.set(snapshot.chartType);
+    if (snapshot.layout) this.layoutSettings.set(normalizeLayoutSettings(snapshot.layout));
+    if (snapshot.fields) this.fieldSchema.set(snapshot.fields);
+    if (snapshot.cardDesign) this.cardDesign.set(snapshot.cardDesign);
+    if (snapshot.theme) this.theme.set(snapshot.theme);
     
     // Clear selection on undo/redo to avoid ghost selections
     this.clearSelection();
   }
   
-  private clearChart() {
-    this.nodes.set(new Map());
-    this.nodePositions.set(new Map());
-    this.drawings.set([]);
-    this.clearSelection();
+  // Older documents and history kept the hierarchy in `children`; those become reporting edges
+  private applyNodesAndEdges(nodes: Map<string, ChartNode>, edges: ChartEdge[] | undefined) {
+    this.edges.set(edges ?? edgesFromChildren(nodes.values()));
+    this.nodes.set(withoutChildren(nodes));
   }
 
-  private _addNode(map: Map<string, ChartNode>, pos: Map<string, NodePosition>, id: string, name: string, role: string, type: ChartNode['type'], dept: string, x: number, y: number, children: string[] = [], options: Partial<ChartNode> = {}) {
-      map.set(id, {
-        id, name, role, type, department: dept, children,
-        avatarType: 'icon', avatarIcon: 'person',
-        backgroundColor: '#ffffff', borderColor: '#cbd5e1', borderWidth: 2,
-        nameColor: '#0f172a', roleColor: '#475569', departmentColor: '#64748b',
-        level: type === 'group' ? undefined : 'P4 - Facilitar',
-        shapeType: 'rectangle', borderRadius: 8,
-        ...options
-      });
-      pos.set(id, { x, y, width: 208, height: 100 });
-  }
-
-  private addGroup(map: Map<string, ChartNode>, pos: Map<string, NodePosition>, id: string, name: string, x: number, y: number, width: number, height: number) {
-      map.set(id, {
-        id, name, role: '', type: 'group', department: '', children: [],
-        avatarType: 'icon',
-        backgroundColor: '#fef9c3', // Light yellow like screenshot
-        borderColor: '#fde047',
-        borderWidth: 2,
-        nameColor: '#854d0e',
-        roleColor: '', departmentColor: '',
-        shapeType: 'rectangle', borderRadius: 16
-      });
-      pos.set(id, { x, y, width, height });
+  // --- Chart Templates ---
+
+  /** Replaces the chart with a template's content; undoable as one step unless `saveState` is false. */
+  applyTemplate(content: TemplateContent, saveState = true) {
+    if (saveState) this.saveHistory();
+    this.finishPositionAnimation();
+    this.chartType.set(content.chartType);
+    this.layoutSettings.set(content.layout);
+    this.applyNodesAndEdges(content.nodes, content.edges);
+    this.nodePositions.set(content.positions);
+    this.drawings.set(content.drawings);
+    this.fieldSchema.set(content.fields ?? []);
+    this.cardDesign.set(content.cardDesign ?? DEFAULT_CARD_DESIGN);
+    this.theme.set(content.theme ?? CLASSIC_THEME);
+    this.clearSelection();
+    if (content.autoLayout) this.autoLayout(false);
   }
+  
+  // --- Enhanced Layout Algorithm ---
 
-  // --- Chart Template Loaders ---
+  // Changing the algorithm or spacing re-lays the chart as one undoable step
+  setLayoutSettings(changes: Partial<LayoutSettings>) {
+    this.saveHistory(); // Before the change, so undo brings the old settings back too
+    this.layoutSettings.set(normalizeLayoutSettings({ ...this.layoutSettings(), ...changes }));
+    this.autoLayout(false, true);
+  }
 
-  loadFunctionalChart(saveState = true) {
-    if (saveState) this.saveHistory();
-    const map = new Map<string, ChartNode>();
-    const pos = new Map<string, NodePosition>();
+  // Only affects future edits, so nothing is re-laid out right away
+  setIncrementalLayout(incremental: boolean) {
+    this.layoutSettings.update(settings => ({ ...settings, incremental }));
+  }
 
-    // These positions are just placeholders, autoLayout will fix them.
-    this.addGroup(map, pos, 'g1', 'Management', 500, 50, 300, 300);
-    this.addGroup(map, pos, 'g2', 'Growth', 200, 250, 300, 300);
-    this.addGroup(map, pos, 'g3', 'Product', 800, 250, 300, 300);
+  // Connectors are redrawn from the setting; the nodes stay where they are
+  setConnectorStyle(connectorStyle: ConnectorStyle) {
+    this.layoutSettings.update(settings => ({ ...settings, connectorStyle }));
+  }
 
-    this._addNode(map, pos, '1', 'Sarah Connor', 'CEO / Founder', 'executive', 'Management', 600, 50, ['2', '3']);
-    this._addNode(map, pos, '2', 'James Wright', 'Marketing VP', 'manager', 'Growth', 350, 250, ['2-1', '2-2']);
-    this._addNode(map, pos, '2-1', 'Growth Team', 'Lead', 'employee', 'Growth', 250, 450);
-    this._addNode(map, pos, '2-2', 'Brand Team', 'Lead', 'employee', 'Growth', 450, 450);
-    this._addNode(map, pos, '3', 'Emily Chen', 'Engineering VP', 'manager', 'Product', 850, 250, ['3-1', '3-2']);
-    this._addNode(map, pos, '3-1', 'Frontend', 'Team A', 'employee', 'Product', 750, 450);
-    this._addNode(map, pos, '3-2', 'Backend', 'Team B', 'employee', 'Product', 950, 450);
+  isLocked(id: string): boolean {
+    return !!(this.nodes().get(id)?.locked || this.nodePositions().get(id)?.locked);
+  }
 
-    const n1 = map.get('1');
-    if (n1) { n1.avatarType = 'icon'; n1.avatarIcon = '👩‍💼'; }
+  // Locks the selection against moving, editing and deleting, or unlocks it when everything is already locked
+  toggleLockSelection() {
+    const ids = Array.from(this.selectedNodeIds()).filter(id => this.nodes().has(id));
+    if (ids.length === 0) return;
+    const lock = ids.some(id => !this.isLocked(id));
 
-    this.nodes.set(map);
-    this.nodePositions.set(pos);
-    this.autoLayout(false);
+    this.saveHistory();
+    this.nodes.update(map => {
+      const newMap = new Map<string, ChartNode>(map);
+      ids.forEach(id => {
+        const { locked, ...rest } = newMap.get(id)!;
+        newMap.set(id, lock ? { ...rest, locked: true } : rest);
+      });
+      return newMap;
+    });
+    this.nodePositions.update(map => {
+      const newMap = new Map<string, NodePosition>(map);
+      ids.forEach(id => {
+        const current = newMap.get(id);
+        if (!current) return;
+        const { locked, ...rest } = current;
+        newMap.set(id, lock ? { ...rest, locked: true } : rest);
+      });
+      return newMap;
+    });
   }
 
-  loadWhiteboard(saveState = true) {
-    if (saveState) this.saveHistory();
-    this.clearChart();
+  // Pins the selection in place for layouts, or releases it when everything is already pinned
+  togglePinSelection() {
+    const ids = Array.from(this.selectedNodeIds()).filter(id => this.nodePositions().has(id));
+    if (ids.length === 0) return;
+    const pin = ids.some(id => !this.nodePositions().get(id)!.pinned);
+
+    this.saveHistory();
+    this.nodePositions.update(map => {
+      const newMap = new Map<string, NodePosition>(map);
+      ids.forEach(id => {
+        const { pinned, ...rest } = newMap.get(id)!;
+        newMap.set(id, pin ? { ...rest, pinned: true } : rest);
+      });
+      return newMap;
+    });
   }
-  
-  // --- Enhanced Layout Algorithm ---
 
-  autoLayout(saveState = true) {
+  autoLayout(saveState = true, animate = saveState) {
     if (saveState) this.saveHistory();
+    this.finishPositionAnimation();
 
     const currentPositions = this.nodePositions(); 
-    const map = this.nodes();
+    const map = this.layoutMap();
+    const hidden = this.hiddenNodeIds();
     
     // STEP 0.5: Capture relationships between Text/Notes and Groups (Visual Containment)
     // This allows text elements inside groups to "move with" the group after layout
+    const anchoredNodes = this.captureAnchoredNodes(map, currentPositions);
+
+    // 0. Pre-process: Sort Children by Department to keep groups contiguous
+    this.sortChildrenByDepartment(map);
+
+    // 1. Position the people with the chart's layout algorithm
+    const newPositions = layoutHierarchy(map, currentPositions, this.layoutSettings());
+    const functionalTypes = ['executive', 'manager', 'employee'];
+
+    // 2. Transfer non-hierarchy nodes (preserve old position initially), pinned and hidden ones
+    currentPositions.forEach((pos, id) => {
+       const node = map.get(id);
+       if (hidden.has(id) || (node && (!functionalTypes.includes(node.type) || pos.pinned || pos.locked))) {
+          newPositions.set(id, pos);
+       }
+    });
+    this.followCollapsedBranches(currentPositions, newPositions);
+
+    // 3. Post-Process: Calculate Group/Area Boundaries
+    this.fitGroupsToMembers(map, newPositions);
+    
+    // 4. Post-Process: Re-position anchored nodes (Text/Notes)
+    // They must follow their parent group
+    this.followAnchors(anchoredNodes, newPositions);
+
+    if (animate) {
+      this.animatePositions(newPositions);
+    } else {
+      this.nodePositions.set(newPositions);
+    }
+  }
+
+  /**
+   * Incremental counterpart of autoLayout: re-lays only the branches under the
+   * given managers and nudges their neighbours aside. Does nothing unless the
+   * chart opted in or `force` is set. Callers save history beforehand.
+   */
+  private relayoutBranches(rootIds: string[], force = false) {
+    const settings = this.layoutSettings();
+    if ((!settings.incremental && !force) || rootIds.length === 0) return;
+
+    // A radial ring cannot be re-laid piecewise
+    if (settings.algorithm === 'radial') {
+      this.autoLayout(false);
+      return;
+    }
+
+    this.finishPositionAnimation();
+    const map = this.layoutMap();
+    const currentPositions = this.nodePositions();
+    const anchoredNodes = this.captureAnchoredNodes(map, currentPositions);
+    this.sortChildrenByDepartment(map);
+
+    let newPositions = currentPositions;
+    rootIds.forEach(rootId => {
+      newPositions = layoutSubtree(map, newPositions, rootId, settings, id => {
+        const pos = currentPositions.get(id);
+        return !pos?.pinned && !pos?.locked;
+      });
+    });
+
+    this.followCollapsedBranches(currentPositions, newPositions);
+    this.fitGroupsToMembers(map, newPositions);
+    this.followAnchors(anchoredNodes, newPositions);
+    this.animatePositions(newPositions);
+  }
+
+  // The hierarchy the layouts place: hidden nodes left out, collapsed managers as leaves
+  private layoutMap(): Map<string, ChartNode> {
+    const map = withHierarchy(this.nodes(), this.edges());
+    this.hiddenNodeIds().forEach(id => map.delete(id));
+    this.collapsedBranches().forEach((_, id) => {
+      const node = map.get(id);
+      if (node) node.children = [];
+    });
+    return map;
+  }
+
+  // Hidden branches travel with their collapsed manager, so they come back in place when expanded
+  private followCollapsedBranches(before: Map<string, NodePosition>, after: Map<string, NodePosition>) {
+    const hidden = this.hiddenNodeIds();
+    this.collapsedBranches().forEach((ids, rootId) => {
+      if (hidden.has(rootId)) return; // Moved along with an outer branch
+      const from = before.get(rootId);
+      const to = after.get(rootId);
+      if (!from || !to || (from.x === to.x && from.y === to.y)) return;
+      ids.forEach(id => {
+        const pos = before.get(id);
+        if (pos && !pos.pinned && !pos.locked) after.set(id, { ...pos, x: pos.x + to.x - from.x, y: pos.y + to.y - from.y });
+      });
+    });
+  }
+
+  // --- Collapse / Expand ---
+
+  /** Hides (or shows again) everyone below a node as one undo step. */
+  toggleCollapse(id: string) {
+    const node = this.nodes().get(id);
+    if (!node) return;
+    this.saveHistory();
+    this.setCollapsed(new Set(node.collapsed ? [] : [id]), [id]);
+    // Showing a branch always makes room for it; hiding one only tidies up when the chart asks for it
+    this.relayoutBranches([id], !!node.collapsed);
+  }
+
+  /** Shows the first `depth` levels of the hierarchy and collapses the rest. */
+  expandToDepth(depth: number) {
+    const levels = reportingLevels(this.nodes(), this.edges());
+    const ids = this.managerIds();
+    this.saveHistory();
+    this.setCollapsed(new Set(ids.filter(id => (levels.get(id) ?? 1) >= depth)), ids);
+    this.autoLayout(false, true);
+  }
+
+  /** Collapses every manager at `level` or deeper; shallower ones are left as they are. */
+  collapseBelowLevel(level: number) {
+    const levels = reportingLevels(this.nodes(), this.edges());
+    const ids = this.managerIds().filter(id => (levels.get(id) ?? 1) >= level);
+    this.saveHistory();
+    this.setCollapsed(new Set(ids), ids);
+    this.autoLayout(false, true);
+  }
+
+  expandAll() {
+    const ids = Array.from(this.nodes().values()).filter(n => n.collapsed).map(n => n.id);
+    if (ids.length === 0) return;
+    this.saveHistory();
+    this.setCollapsed(new Set(), ids);
+    this.autoLayout(false, true);
+  }
+
+  /**
+   * Collapsed nodes keeping `id` off the canvas, outermost first; empty when it shows.
+   * An area counts as hidden under the nodes hiding its people.
+   */
+  collapsedAncestors(id: string): string[] {
+    const node = this.nodes().get(id);
+    if (!node || !this.hiddenNodeIds().has(id)) return [];
+    const functionalTypes = ['executive', 'manager', 'employee'];
+    const ids = node.type === 'group'
+      ? Array.from(this.nodes().values()).filter(n => n.department === node.name && functionalTypes.includes(n.type)).map(n => n.id)
+      : [id];
+    return Array.from(this.collapsedBranches())
+      .filter(([, branch]) => ids.some(i => branch.includes(i)))
+      .sort(([, a], [, b]) => b.length - a.length) // An outer branch holds the inner ones
+      .map(([rootId]) => rootId);
+  }
+
+  /** Expands whatever hides a node, as one undo step. */
+  revealNode(id: string) {
+    const ids = this.collapsedAncestors(id);
+    if (ids.length === 0) return;
+    this.saveHistory();
+    this.setCollapsed(new Set(), ids);
+    this.relayoutBranches(ids, true);
+  }
+
+  // People with reports, the only nodes collapsing affects
+  private managerIds(): string[] {
+    return Array.from(this.hierarchy().values()).filter(n => n.children?.length).map(n => n.id);
+  }
+
+  // Sets `collapsed` on each of `ids`: on for those in `collapsedIds`, off for the rest
+  private setCollapsed(collapsedIds: Set<string>, ids: string[]) {
+    this.nodes.update(map => {
+      const newMap = new Map(map);
+      ids.forEach(id => {
+        const node = newMap.get(id);
+        if (!node || !!node.collapsed === collapsedIds.has(id)) return;
+        const { collapsed, ...rest } = node;
+        newMap.set(id, collapsedIds.has(id) ? { ...rest, collapsed: true } : rest);
+      });
+      return newMap;
+    });
+    // Nothing hidden stays selected
+    const hidden = this.hiddenNodeIds();
+    this.selectedNodeIds.update(ids => new Set(Array.from(ids).filter(id => !hidden.has(id))));
+  }
+
+  // Texts, notes and shapes sitting inside a group, as offsets from its top-left corner
+  private captureAnchoredNodes(map: Map<string, ChartNode>, positions: Map<string, NodePosition>) {
     const anchoredNodes = new Map<string, { groupId: string, offsetX: number, offsetY: number }>();
     
     map.forEach((node: ChartNode) => {
         // We only care about maintaining position for 'text', 'note', or 'shape' inside a group
         if (node.type === 'text' || node.type === 'note' || node.type === 'shape') {
-            const nodePos = currentPositions.get(node.id);
-            if (!nodePos) return;
+            const nodePos = positions.get(node.id);
+            if (!nodePos || nodePos.pinned || nodePos.locked) return;
             
             // Check intersection with all groups
             map.forEach((group: ChartNode) => {
                 if (group.type === 'group') {
-                    const groupPos = currentPositions.get(group.id);
+                    const groupPos = positions.get(group.id);
                     if (groupPos) {
                         // Check if node center is inside group
                         const nodeCx = nodePos.x + (nodePos.width || 0) / 2;
@@ -339,126 +747,16 @@ export class ChartStateService {
             });
         }
     });
+    return anchoredNodes;
+  }
 
-
-    const newPositions = new Map<string, NodePosition>();
-    
-    // Config Constants
-    const CARD_WIDTH = 250; 
-    const LEVEL_HEIGHT = 400; 
-    const GROUP_PADDING = 150; 
-    const GROUP_MARGIN = 800; 
-    const NODE_MARGIN = 80;    
-
-    // 0. Pre-process: Sort Children by Department to keep groups contiguous
-    this.sortChildrenByDepartment(map);
-
-    // Helper: Calculate the width required for a subtree
-    const measureSubtree = (nodeId: string): number => {
-       const node = map.get(nodeId);
-       if (!node) return 0;
-       
-       if (!node.children || node.children.length === 0) {
-          return CARD_WIDTH;
-       }
-       
-       let totalWidth = 0;
-       const children = node.children;
-       
-       let i = 0;
-       while (i < children.length) {
-          const startNode = map.get(children[i]);
-          const startDept = startNode?.department || '';
-          let blockWidth = 0;
-          const blockStart = i;
-          while (i < children.length) {
-             const currNode = map.get(children[i]);
-             const currDept = currNode?.department || '';
-             if (currDept !== startDept) break; 
-             if (i > blockStart) blockWidth += NODE_MARGIN;
-             blockWidth += measureSubtree(children[i]);
-             i++;
-          }
-          if (startDept) blockWidth += (GROUP_PADDING * 2); 
-          totalWidth += blockWidth;
-          if (i < children.length) totalWidth += GROUP_MARGIN;
-       }
-       return totalWidth;
-    };
-
-    // Helper: Recursively position nodes
-    const executeLayout = (nodeId: string, x: number, depth: number) => {
-       const node = map.get(nodeId);
-       if (!node) return;
-       
-       const totalW = measureSubtree(nodeId);
-       const contentCenter = x + totalW / 2;
-       
-       const oldPos = currentPositions.get(nodeId);
-       const width = oldPos?.width || 208;
-       const height = oldPos?.height || 100;
-       
-       newPositions.set(nodeId, { 
-           x: contentCenter - (width / 2), 
-           y: depth * LEVEL_HEIGHT + 50,
-           width, 
-           height 
-       });
-
-       if (!node.children || node.children.length === 0) return;
-       
-       let currentX = x;
-       let i = 0;
-       while (i < node.children.length) {
-          const startChildId = node.children[i];
-          const startNode = map.get(startChildId);
-          const startDept = startNode?.department || '';
-          const blockStartIdx = i;
-          
-          if (startDept) currentX += GROUP_PADDING;
-          
-          while (i < node.children.length) {
-             const currChildId = node.children[i];
-             const currNode = map.get(currChildId);
-             const currDept = currNode?.department || '';
-             if (currDept !== startDept) break;
-             
-             if (i > blockStartIdx) currentX += NODE_MARGIN;
-
-             const childW = measureSubtree(currChildId);
-             executeLayout(currChildId, currentX, depth + 1);
-             currentX += childW;
-             i++;
-          }
-          if (startDept) currentX += GROUP_PADDING;
-          if (i < node.children.length) currentX += GROUP_MARGIN;
-       }
-    };
-
-    // 1. Identify Roots and Layout
-    const childrenSet = new Set<string>();
-    map.forEach((n: ChartNode) => n.children?.forEach(c => childrenSet.add(c)));
+  // Wraps every unpinned group around the people of its department
+  private fitGroupsToMembers(map: Map<string, ChartNode>, positions: Map<string, NodePosition>) {
     const functionalTypes = ['executive', 'manager', 'employee'];
-    const roots = Array.from(map.values())
-      .filter((n: ChartNode) => !childrenSet.has(n.id) && functionalTypes.includes(n.type));
-    
-    let rootX = 0;
-    roots.forEach(root => {
-        const w = measureSubtree(root.id);
-        executeLayout(root.id, rootX, 0);
-        rootX += w + GROUP_MARGIN + 200; 
+    const groups = Array.from(map.values()).filter(n => {
+      const pos = positions.get(n.id);
+      return n.type === 'group' && !pos?.pinned && !pos?.locked;
     });
-
-    // 2. Transfer non-hierarchy nodes (preserve old position initially)
-    currentPositions.forEach((pos, id) => {
-       const node = map.get(id);
-       if (node && !functionalTypes.includes(node.type)) {
-          newPositions.set(id, pos);
-       }
-    });
-
-    // 3. Post-Process: Calculate Group/Area Boundaries
-    const groups = Array.from(map.values()).filter(n => n.type === 'group');
     
     groups.forEach(group => {
        const members = Array.from(map.values()).filter((n: ChartNode) => 
@@ -470,7 +768,7 @@ export class ChartStateService {
           let maxX = -Infinity, maxY = -Infinity;
 
           members.forEach((member: ChartNode) => {
-             const pos = newPositions.get(member.id);
+             const pos = positions.get(member.id);
              if (pos) {
                 const w = pos.width || 208;
                 const h = pos.height || 100;
@@ -486,7 +784,7 @@ export class ChartStateService {
              const BOX_PADDING_TOP = 100;
              const BOX_PADDING_BOTTOM = 140; 
 
-             newPositions.set(group.id, {
+             positions.set(group.id, {
                 x: minX - BOX_PADDING_SIDE,
                 y: minY - BOX_PADDING_TOP,
                 width: (maxX - minX) + (BOX_PADDING_SIDE * 2),
@@ -495,23 +793,71 @@ export class ChartStateService {
           }
        }
     });
-    
-    // 4. Post-Process: Re-position anchored nodes (Text/Notes)
-    // They must follow their parent group
+  }
+
+  private followAnchors(anchoredNodes: Map<string, { groupId: string, offsetX: number, offsetY: number }>, positions: Map<string, NodePosition>) {
     anchoredNodes.forEach((anchor, nodeId) => {
-        const newGroupPos = newPositions.get(anchor.groupId);
-        const currentNodePos = newPositions.get(nodeId); // currently holds old pos
+        const newGroupPos = positions.get(anchor.groupId);
+        const currentNodePos = positions.get(nodeId); // currently holds old pos
         
         if (newGroupPos && currentNodePos) {
-            newPositions.set(nodeId, {
+            positions.set(nodeId, {
                 ...currentNodePos,
                 x: newGroupPos.x + anchor.offsetX,
                 y: newGroupPos.y + anchor.offsetY
             });
         }
     });
+  }
+
+  // --- Layout Animation ---
+
+  // Glides nodes from where they are to their new place so viewers can follow what moved
+  private animatePositions(target: Map<string, NodePosition>) {
+    this.finishPositionAnimation();
+    const from = this.nodePositions();
+    const reduceMotion = typeof window === 'undefined' || window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+    if (reduceMotion || typeof requestAnimationFrame === 'undefined') {
+      this.nodePositions.set(target);
+      return;
+    }
+
+    const startedAt = performance.now();
+    const lerp = (a: number | undefined, b: number | undefined, k: number) =>
+      a === undefined || b === undefined ? b : a + (b - a) * k;
+
+    const step = (now: number) => {
+      const t = Math.min(1, (now - startedAt) / LAYOUT_ANIMATION_MS);
+      if (t >= 1) {
+        this.finishPositionAnimation();
+        return;
+      }
+      const k = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2; // ease-in-out
+      const frame = new Map<string, NodePosition>();
+      target.forEach((to, id) => {
+        const start = from.get(id);
+        frame.set(id, start ? {
+          ...to,
+          x: lerp(start.x, to.x, k)!,
+          y: lerp(start.y, to.y, k)!,
+          width: lerp(start.width, to.width, k),
+          height: lerp(start.height, to.height, k)
+        } : to);
+      });
+      this.nodePositions.set(frame);
+      if (this.positionAnimation) this.positionAnimation.frame = requestAnimationFrame(step);
+    };
+
+    this.positionAnimation = { frame: requestAnimationFrame(step), target };
+  }
 
-    this.nodePositions.set(newPositions);
+  // Jumps a running layout animation to its end, before anything else touches positions
+  private finishPositionAnimation() {
+    if (!this.positionAnimation) return;
+    cancelAnimationFrame(this.positionAnimation.frame);
+    const target = this.positionAnimation.target;
+    this.positionAnimation = null;
+    this.nodePositions.set(target);
   }
 
   // Helper to sort children so departments stay together
@@ -533,45 +879,36 @@ export class ChartStateService {
 
   // --- Topology Actions ---
 
-  linkNodes(sourceId: string, targetId: string) {
+  /**
+   * Connects two nodes. A reporting edge makes the target report to the source
+   * (replacing its current manager); other kinds are free-form relationships.
+   */
+  linkNodes(sourceId: string, targetId: string, kind: EdgeKind = 'reporting', ports: Pick<ChartEdge, 'sourcePort' | 'targetPort'> = {}) {
     if (sourceId === targetId) return;
 
-    // Check if link already exists
-    const source = this.nodes().get(sourceId);
-    if (source?.children?.includes(targetId)) return;
+    // Check if link already exists (a primary manager can't also be a secondary one)
+    if (this.edges().some(e => e.sourceId === sourceId && e.targetId === targetId && (e.kind === kind || (kind === 'dotted' && e.kind === 'reporting')))) return;
 
-    // Check for cycles (A -> B -> A)
-    if (this.isDescendant(targetId, sourceId)) {
+    // Check for cycles (A -> B -> A), counting secondary managers too
+    const manages = MANAGEMENT_KINDS.includes(kind);
+    if (manages && reportsTo(this.edges(), targetId, sourceId, MANAGEMENT_KINDS)) {
       alert("Cannot connect: This would create a cycle.");
       return;
     }
 
     this.saveHistory();
 
-    this.nodes.update(map => {
-      const newMap = new Map<string, ChartNode>(map);
-      const node = newMap.get(sourceId);
-      if (node) {
-        this.removeFromParent(newMap, targetId);
-        const newChildren = [...(node.children || []), targetId];
-        newMap.set(sourceId, { ...node, children: newChildren });
-      }
-      return newMap;
-    });
+    this.edges.update(edges => [
+      ...(kind === 'reporting' ? this.withoutManagerOf(edges, targetId) : edges)
+        .filter(e => !(manages && e.kind === 'dotted' && e.sourceId === sourceId && e.targetId === targetId)),
+      { id: newEdgeId(), sourceId, targetId, kind, ...ports }
+    ]);
+
+    if (kind === 'reporting') this.relayoutBranches([sourceId]);
   }
 
   unlinkEdge(sourceId: string, targetId: string) {
-    this.nodes.update(map => {
-      const newMap = new Map<string, ChartNode>(map);
-      const node = newMap.get(sourceId);
-      if (node && node.children) {
-        newMap.set(sourceId, {
-          ...node,
-          children: node.children.filter(id => id !== targetId)
-        });
-      }
-      return newMap;
-    });
+    this.edges.update(edges => edges.filter(e => !(e.sourceId === sourceId && e.targetId === targetId)));
   }
 
   deleteSelectedEdge() {
@@ -582,37 +919,223 @@ export class ChartStateService {
     
     if (edge) {
       this.saveHistory();
-      this.unlinkEdge(edge.sourceId, edge.targetId);
+      this.edges.update(edges => edges.filter(e => e.id !== edgeId));
       this.selectedEdgeId.set(null);
     }
   }
 
-  private removeFromParent(map: Map<string, ChartNode>, childId: string) {
-    map.forEach((node: ChartNode) => {
-      if (node.children?.includes(childId)) {
-        map.set(node.id, {
-          ...node,
-          children: node.children.filter(c => c !== childId)
-        });
-      }
-    });
+  // Restyles or relabels an edge in place; callers save history for discrete changes
+  updateEdge(id: string, changes: Partial<Omit<ChartEdge, 'id' | 'sourceId' | 'targetId' | 'kind'>>) {
+    this.edges.update(edges => edges.map(e => e.id === id ? { ...e, ...changes } : e));
   }
 
-  private isDescendant(rootId: string, searchId: string): boolean {
-    const map = this.nodes();
-    const node = map.get(rootId);
-    if (!node || !node.children) return false;
-    
-    for (const childId of node.children) {
-      if (childId === searchId) return true;
-      if (this.isDescendant(childId, searchId)) return true;
+  /**
+   * Changes what an edge means. Turning it into a reporting line replaces the
+   * target's current manager, whose line is kept as a dotted one.
+   */
+  setEdgeKind(id: string, kind: EdgeKind) {
+    const edge = this.edges().find(e => e.id === id);
+    if (!edge || edge.kind === kind) return;
+
+    const others = this.edges().filter(e => e.id !== id);
+    if (MANAGEMENT_KINDS.includes(kind) && reportsTo(others, edge.targetId, edge.sourceId, MANAGEMENT_KINDS)) {
+      alert("Cannot connect: This would create a cycle.");
+      return;
+    }
+
+    this.saveHistory();
+    this.edges.update(edges => edges.map(e => {
+      if (e.id === id) return { ...e, kind };
+      if (kind === 'reporting' && e.kind === 'reporting' && e.targetId === edge.targetId) return { ...e, kind: 'dotted' as EdgeKind };
+      return e;
+    }));
+    if (kind === 'reporting') this.relayoutBranches([edge.sourceId]);
+  }
+
+  // A person has one manager: drops the reporting edge into `childId`
+  private withoutManagerOf(edges: ChartEdge[], childId: string): ChartEdge[] {
+    return edges.filter(e => !(e.kind === 'reporting' && e.targetId === childId));
+  }
+
+  // --- Managers (matrix charts) ---
+  // The primary manager is the person's reporting edge; secondary managers are dotted lines
+
+  primaryManagerOf(personId: string): string | null {
+    return this.edges().find(e => e.kind === 'reporting' && e.targetId === personId)?.sourceId ?? null;
+  }
+
+  secondaryManagersOf(personId: string): string[] {
+    return this.edges().filter(e => e.kind === 'dotted' && e.targetId === personId).map(e => e.sourceId);
+  }
+
+  // Whether `managerId` may manage `personId` without closing a loop
+  canManage(managerId: string, personId: string): boolean {
+    return managerId !== personId && !reportsTo(this.edges(), personId, managerId, MANAGEMENT_KINDS);
+  }
+
+  setPrimaryManager(personId: string, managerId: string | null) {
+    const previous = this.primaryManagerOf(personId);
+    if (previous === managerId) return;
+    if (!managerId) {
+      this.saveHistory();
+      this.edges.update(edges => this.withoutManagerOf(edges, personId));
+      this.relayoutBranches([previous!]);
+      return;
     }
-    return false;
+    this.linkNodes(managerId, personId, 'reporting');
+  }
+
+  addSecondaryManager(personId: string, managerId: string) {
+    this.linkNodes(managerId, personId, 'dotted');
+  }
+
+  removeSecondaryManager(personId: string, managerId: string) {
+    this.saveHistory();
+    this.edges.update(edges => edges.filter(e => !(e.kind === 'dotted' && e.sourceId === managerId && e.targetId === personId)));
+  }
+
+  // --- Card Design ---
+
+  setCardTemplate(template: CardTemplate) {
+    if (this.cardDesign().template === template) return;
+    this.saveHistory();
+    this.cardDesign.update(design => ({ ...design, template }));
+  }
+
+  // Only changes what's drawn over the canvas, so it isn't an undo step
+  setLegendVisible(showLegend: boolean) {
+    this.cardDesign.update(design => ({ ...design, showLegend }));
+  }
+
+  /** Appends a styling rule (blue border until edited) and returns its id. */
+  addStyleRule(condition = ''): string {
+    this.saveHistory();
+    const id = Math.random().toString(36).substr(2, 9);
+    this.cardDesign.update(design => ({ ...design, rules: [...design.rules, { id, condition, style: { borderColor: '#3b82f6' } }] }));
+    return id;
+  }
+
+  // Edits a rule in place; like updateField, callers save history for discrete changes
+  updateStyleRule(id: string, changes: Partial<Omit<StyleRule, 'id'>>) {
+    this.cardDesign.update(design => ({ ...design, rules: design.rules.map(r => r.id === id ? { ...r, ...changes } : r) }));
+  }
+
+  removeStyleRule(id: string) {
+    this.saveHistory();
+    this.cardDesign.update(design => ({ ...design, rules: design.rules.filter(r => r.id !== id) }));
+  }
+
+  moveStyleRule(id: string, delta: 1 | -1) {
+    const rules = [...this.cardDesign().rules];
+    const index = rules.findIndex(r => r.id === id);
+    const target = index + delta;
+    if (index < 0 || target < 0 || target >= rules.length) return;
+    this.saveHistory();
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    this.cardDesign.update(design => ({ ...design, rules }));
+  }
+
+  // --- Theme ---
+
+  /** Switches theme as one undo step; nodes still on the old theme's defaults take the new ones. */
+  setTheme(theme: ChartTheme) {
+    const current = this.theme();
+    if (JSON.stringify(current) === JSON.stringify(theme)) return;
+    this.saveHistory();
+    this.nodes.set(restyleNodes(this.nodes(), current, theme));
+    this.theme.set(theme);
+  }
+
+  // --- Custom Fields ---
+
+  /** Appends a field to the schema and returns its id. */
+  addField(label: string, type: FieldType = 'text'): string {
+    this.saveHistory();
+    const id = fieldIdFor(label, this.fieldSchema().map(f => f.id));
+    this.fieldSchema.update(fields => [...fields, { id, label, type, ...(type === 'select' ? { options: [] } : {}) }]);
+    return id;
+  }
+
+  // Renames or restyles a field in place; callers save history for discrete changes
+  updateField(id: string, changes: Partial<Omit<FieldDefinition, 'id' | 'type'>>) {
+    this.fieldSchema.update(fields => fields.map(f => f.id === id ? { ...f, ...changes } : f));
+  }
+
+  /**
+   * Changes a field's type, converting the values that fit the new one and
+   * leaving the rest as typed. A new select starts with the values in use as its options.
+   */
+  setFieldType(id: string, type: FieldType) {
+    const field = this.fieldSchema().find(f => f.id === id);
+    if (!field || field.type === type) return;
+    this.saveHistory();
+
+    const values = Array.from(this.nodes().values()).map(n => n.fields?.[id]).filter((v): v is string => !!v);
+    const changed: FieldDefinition = { ...field, type };
+    if (type === 'select') changed.options = field.options?.length ? field.options : Array.from(new Set(values)).sort();
+    this.fieldSchema.update(fields => fields.map(f => f.id === id ? changed : f));
+
+    this.nodes.update(map => {
+      const newMap = new Map<string, ChartNode>(map);
+      newMap.forEach(node => {
+        const value = node.fields?.[id];
+        const converted = value ? parseFieldValue(changed, value) : null;
+        if (converted !== null && converted !== value) newMap.set(node.id, { ...node, fields: { ...node.fields, [id]: converted } });
+      });
+      return newMap;
+    });
+  }
+
+  /** Deletes a field along with everyone's value for it. */
+  removeField(id: string) {
+    this.saveHistory();
+    this.fieldSchema.update(fields => fields.filter(f => f.id !== id));
+    this.nodes.update(map => {
+      const newMap = new Map<string, ChartNode>(map);
+      newMap.forEach(node => {
+        if (node.fields?.[id] === undefined) return;
+        const { [id]: removed, ...fields } = node.fields;
+        newMap.set(node.id, { ...node, fields });
+      });
+      return newMap;
+    });
+  }
+
+  moveField(id: string, delta: 1 | -1) {
+    const fields = [...this.fieldSchema()];
+    const index = fields.findIndex(f => f.id === id);
+    const target = index + delta;
+    if (index < 0 || target < 0 || target >= fields.length) return;
+    this.saveHistory();
+    [fields[index], fields[target]] = [fields[target], fields[index]];
+    this.fieldSchema.set(fields);
+  }
+
+  // Sets a custom field on the selection; like updateNode, callers save history
+  updateNodeField(fieldId: string, value: string) {
+    const ids = this.selectedNodeIds();
+    this.nodes.update(map => {
+      const newMap = new Map<string, ChartNode>(map);
+      ids.forEach(id => {
+        const node = newMap.get(id);
+        if (!node || node.locked || !appliesTo(node.type, 'fields')) return;
+        const fields = { ...node.fields };
+        if (value) {
+          fields[fieldId] = value;
+        } else {
+          delete fields[fieldId];
+        }
+        newMap.set(id, { ...node, fields });
+      });
+      return newMap;
+    });
   }
 
   // --- Node Actions ---
 
   updateNodePosition(id: string, x: number, y: number) {
+    if (this.isLocked(id)) return;
+    this.finishPositionAnimation(); // Otherwise the next animation frame puts the node back
     this.nodePositions.update(map => {
       const newMap = new Map<string, NodePosition>(map);
       const current = newMap.get(id);
@@ -686,7 +1209,8 @@ export class ChartStateService {
   }
 
   selectAll() {
-    const allNodeIds = new Set(this.nodes().keys());
+    const hidden = this.hiddenNodeIds();
+    const allNodeIds = new Set(Array.from(this.nodes().keys()).filter(id => !hidden.has(id)));
     this.selectedNodeIds.set(allNodeIds);
     
     const allDrawingIds = new Set(this.drawings().map(d => d.id));
@@ -695,6 +1219,15 @@ export class ChartStateService {
     this.selectedEdgeId.set(null);
   }
 
+  /** Replaces the selection with the given nodes, skipping any hidden in a collapsed branch. */
+  selectNodes(ids: Iterable<string>) {
+    const hidden = this.hiddenNodeIds();
+    const nodes = this.nodes();
+    this.selectedNodeIds.set(new Set(Array.from(ids).filter(id => nodes.has(id) && !hidden.has(id))));
+    this.selectedDrawingIds.set(new Set());
+    this.selectedEdgeId.set(null);
+  }
+
   selectEdge(id: string) {
     this.selectedNodeIds.set(new Set());
     this.selectedDrawingIds.set(new Set());
@@ -707,21 +1240,29 @@ export class ChartStateService {
     this.selectedEdgeId.set(null);
   }
 
-  updateNode(updatedNode: Partial<ChartNode>) {
+  /**
+   * Applies the changes to every selected node; each takes only the properties its type uses.
+   * Theme colours and fonts set here count as picked by hand, unless `followTheme` says they
+   * are the theme's own values (e.g. "Fuente del tema").
+   */
+  updateNode(updatedNode: Partial<ChartNode>, followTheme = false) {
     const currentIds = this.selectedNodeIds();
     if (currentIds.size === 0) return;
 
-    const isRenaming = updatedNode.name !== undefined;
-
     this.nodes.update(map => {
       const newMap = new Map<string, ChartNode>(map);
       currentIds.forEach(id => {
         const node = newMap.get(id);
-        if (node) {
+        if (node && !node.locked) {
+          const changes: Partial<ChartNode> = Object.fromEntries(
+            Object.entries(updatedNode).filter(([prop]) => appliesTo(node.type, prop as keyof ChartNode))
+          );
+          if (Object.keys(changes).length === 0) return;
+
           // Rename Propagation: If we rename a group, update all children who have this group as department
-          if (node.type === 'group' && isRenaming && updatedNode.name && node.name !== updatedNode.name) {
+          if (node.type === 'group' && changes.name && node.name !== changes.name) {
              const oldName = node.name;
-             const newName = updatedNode.name;
+             const newName = changes.name;
              
              // Scan all nodes to find members of this group
              newMap.forEach((otherNode: ChartNode) => {
@@ -731,26 +1272,14 @@ export class ChartStateService {
              });
           }
 
-          newMap.set(id, { ...node, ...updatedNode });
+          const marks = Object.fromEntries(Object.keys(changes).map(prop => [prop, !followTheme]));
+          newMap.set(id, markOverrides({ ...node, ...changes }, marks));
         }
       });
       return newMap;
     });
   }
 
-  // Helper used to detect intersection area
-  private getOverlapArea(r1: {x:number, y:number, w:number, h:number}, r2: {x:number, y:number, w:number, h:number}): number {
-        const overlapLeft = Math.max(r1.x, r2.x);
-        const overlapRight = Math.min(r1.x + r1.w, r2.x + r2.w);
-        const overlapTop = Math.max(r1.y, r2.y);
-        const overlapBottom = Math.min(r1.y + r1.h, r2.y + r2.h);
-
-        if (overlapLeft < overlapRight && overlapTop < overlapBottom) {
-          return (overlapRight - overlapLeft) * (overlapBottom - overlapTop);
-        }
-        return 0;
-  }
-
   // Update group membership based on overlap (intersection)
   updateGroupMembership(groupId: string) {
       const nodes = this.nodes();
@@ -761,12 +1290,7 @@ export class ChartStateService {
       
       if (!groupNode || !groupPos || groupNode.type !== 'group') return;
       
-      const gRect = {
-        x: groupPos.x,
-        y: groupPos.y,
-        w: groupPos.width || 300,
-        h: groupPos.height || 300
-      };
+      const gRect = nodeRect(groupNode, groupPos);
       
       const functionalTypes = ['executive', 'manager', 'employee'];
 
@@ -777,15 +1301,8 @@ export class ChartStateService {
             if (functionalTypes.includes(node.type) && node.id !== groupId) {
                const pos = positions.get(node.id);
                if (pos) {
-                   const nRect = {
-                     x: pos.x,
-                     y: pos.y,
-                     w: pos.width || 208,
-                     h: pos.height || 100
-                   };
-
                    // Calculate Overlap
-                   const overlap = this.getOverlapArea(gRect, nRect);
+                   const overlap = getOverlapArea(gRect, nodeRect(node, pos));
                    
                    // CASE 1: Node touches Group -> Adopt
                    if (overlap > 0) {
@@ -813,35 +1330,8 @@ export class ChartStateService {
 
       if (!node || !pos || !['executive', 'manager', 'employee'].includes(node.type)) return;
 
-      const nRect = {
-         x: pos.x,
-         y: pos.y,
-         w: pos.width || 208,
-         h: pos.height || 100
-      };
-
-      let bestGroup: ChartNode | null = null;
-      let maxOverlap = 0;
-
       // Find the group with maximum overlap
-      nodes.forEach((gNode: ChartNode) => {
-          if (gNode.type === 'group' && gNode.id !== nodeId) {
-             const gPos = positions.get(gNode.id);
-             if (gPos) {
-                 const gRect = {
-                    x: gPos.x,
-                    y: gPos.y,
-                    w: gPos.width || 300,
-                    h: gPos.height || 300
-                 };
-                 const overlap = this.getOverlapArea(nRect, gRect);
-                 if (overlap > maxOverlap) {
-                    maxOverlap = overlap;
-                    bestGroup = gNode;
-                 }
-             }
-          }
-      });
+      const bestGroup = containingGroup(nodeId, nodes, positions);
 
       this.nodes.update(map => {
          const newMap = new Map<string, ChartNode>(map);
@@ -849,8 +1339,8 @@ export class ChartStateService {
          if (!currentNode) return newMap; // Safety
 
          if (bestGroup) {
-             if (currentNode.department !== (bestGroup as ChartNode).name) {
-                 newMap.set(nodeId, { ...currentNode, department: (bestGroup as ChartNode).name });
+             if (currentNode.department !== bestGroup.name) {
+                 newMap.set(nodeId, { ...currentNode, department: bestGroup.name });
              }
          } else {
              // If touching NO group, clear department (Stop touching = Eliminate name)
@@ -862,24 +1352,71 @@ export class ChartStateService {
       });
   }
 
+  /** Applies a quick fix from the problems panel as a single undo step. */
+  applyProblemFix(fix: ProblemFix) {
+    switch (fix.type) {
+      case 'deleteNodes':
+        this.selectNodes(fix.nodeIds);
+        this.deleteSelection();
+        return;
+      case 'deleteEdge':
+        this.saveHistory();
+        this.edges.update(edges => edges.filter(e => e.id !== fix.edgeId));
+        if (this.selectedEdgeId() === fix.edgeId) this.selectedEdgeId.set(null);
+        return;
+      case 'setDepartment':
+        if (this.isLocked(fix.nodeId)) return;
+        this.saveHistory();
+        this.nodes.update(map => {
+          const node = map.get(fix.nodeId);
+          return node ? new Map(map).set(node.id, { ...node, department: fix.department }) : map;
+        });
+        return;
+      case 'move': {
+        const pos = this.nodePositions().get(fix.nodeId);
+        if (!pos || this.isLocked(fix.nodeId)) return;
+        this.saveHistory();
+        this.nodePositions.update(map => new Map(map).set(fix.nodeId, { ...pos, x: pos.x + fix.dx, y: pos.y + fix.dy }));
+        return;
+      }
+      case 'setManager': {
+        const personIds = fix.personIds.filter(id => this.canManage(fix.managerId, id));
+        if (personIds.length === 0) return;
+        this.saveHistory();
+        this.edges.update(edges => [
+          ...personIds.reduce((list, id) => this.withoutManagerOf(list, id), edges),
+          ...personIds.map(id => ({ id: newEdgeId(), sourceId: fix.managerId, targetId: id, kind: 'reporting' as EdgeKind }))
+        ]);
+        this.relayoutBranches([fix.managerId]);
+        return;
+      }
+    }
+  }
+
   deleteSelection() {
-    const nodeIds = this.selectedNodeIds();
+    // Locked nodes survive deletes, cuts and the eraser
+    const nodeIds = new Set(Array.from(this.selectedNodeIds()).filter(id => !this.isLocked(id)));
     const drawingIds = this.selectedDrawingIds();
     
     if (nodeIds.size === 0 && drawingIds.size === 0) return;
 
     this.saveHistory();
 
+    // Managers that lose reports get their branch tidied afterwards
+    const affectedParents = Array.from(new Set(this.edges()
+      .filter(e => e.kind === 'reporting' && nodeIds.has(e.targetId) && !nodeIds.has(e.sourceId))
+      .map(e => e.sourceId)));
+
     // Delete Nodes
     if (nodeIds.size > 0) {
         this.nodes.update(map => {
           const newMap = new Map<string, ChartNode>(map);
-          nodeIds.forEach(idToDelete => {
-             this.removeFromParent(newMap, idToDelete);
-             newMap.delete(idToDelete);
-          });
+          nodeIds.forEach(idToDelete => newMap.delete(idToDelete));
           return newMap;
         });
+
+        // Connectors go with either end
+        this.edges.update(edges => edges.filter(e => !nodeIds.has(e.sourceId) && !nodeIds.has(e.targetId)));
     
         this.nodePositions.update(map => {
           const newMap = new Map<string, NodePosition>(map);
@@ -893,8 +1430,10 @@ export class ChartStateService {
         this.drawings.update(list => list.filter(d => !drawingIds.has(d.id)));
     }
     
-    this.selectedNodeIds.set(new Set());
+    // Whatever was locked stays selected
+    this.selectedNodeIds.update(current => new Set(Array.from(current).filter(id => !nodeIds.has(id))));
     this.selectedDrawingIds.set(new Set());
+    this.relayoutBranches(affectedParents);
   }
   
   // Specific method for the eraser
@@ -960,6 +1499,11 @@ export class ChartStateService {
             });
         }
     });
+
+    // Copy Edges that stay inside the copied nodes
+    this.clipboardEdges = JSON.parse(JSON.stringify(
+      this.edges().filter(e => selectedNodes.has(e.sourceId) && selectedNodes.has(e.targetId))
+    ));
   }
 
   pasteNodes(targetX: number, targetY: number) {
@@ -987,7 +1531,8 @@ export class ChartStateService {
        const offsetY = item.y - minY;
        
        if (item.type === 'node') {
-           const nodeData = item.data as ChartNode;
+           // Copies start out unlocked
+           const { locked, ...nodeData } = item.data as ChartNode;
            idMap.set(nodeData.id, newId);
            newItems.push({
               node: { ...nodeData, id: newId },
@@ -1010,18 +1555,10 @@ export class ChartStateService {
        }
     });
 
-    // Second pass: Fix relationships (children) for nodes
-    newItems.forEach(item => {
-       if (item.node.children && item.node.children.length > 0) {
-          const newChildren: string[] = [];
-          item.node.children.forEach(childId => {
-             if (idMap.has(childId)) {
-                newChildren.push(idMap.get(childId)!);
-             }
-          });
-          item.node.children = newChildren;
-       }
-    });
+    // Second pass: Recreate the connectors between the pasted nodes
+    const newEdges: ChartEdge[] = this.clipboardEdges
+      .filter(e => idMap.has(e.sourceId) && idMap.has(e.targetId))
+      .map(e => ({ ...e, id: newEdgeId(), sourceId: idMap.get(e.sourceId)!, targetId: idMap.get(e.targetId)! }));
 
     // 3. Commit to state
     if (newItems.length > 0) {
@@ -1036,6 +1573,8 @@ export class ChartStateService {
           newItems.forEach(item => newMap.set(item.node.id, item.pos));
           return newMap;
         });
+
+        this.edges.update(edges => [...edges, ...newEdges]);
     }
 
     if (newDrawings.length > 0) {
@@ -1059,36 +1598,192 @@ export class ChartStateService {
     });
   }
 
-  importFromJson(data: any) {
-    // Basic validation
-    if (!data || !Array.isArray(data.nodes) || !Array.isArray(data.positions)) {
-      alert('Invalid JSON format for import.');
-      throw new Error('Invalid JSON format for import.');
+  // --- Style Clipboard ---
+
+  /** Copies the look of a node (the last selected one by default). */
+  copyStyle(id = this.selectedNode()?.id) {
+    const node = id ? this.nodes().get(id) : undefined;
+    if (node) this.styleClipboard.set(nodeStyle(node, this.theme()));
+  }
+
+  /**
+   * Gives the copied look to the nodes (the selection by default) as one undo
+   * step. Each node takes what its type draws; locked nodes are skipped.
+   * Returns how many nodes changed.
+   */
+  pasteStyle(ids: Iterable<string> = this.selectedNodeIds()): number {
+    const style = this.styleClipboard();
+    if (!style) return 0;
+    const changed = new Map<string, ChartNode>();
+    for (const id of ids) {
+      const node = this.nodes().get(id);
+      const styled = node && !node.locked ? withStyle(node, style, this.theme()) : null;
+      if (styled) changed.set(id, styled);
     }
+    if (changed.size === 0) return 0;
+
+    this.saveHistory();
+    this.nodes.update(map => new Map([...map, ...changed]));
+    return changed.size;
+  }
+
+  /** Selects every visible node that looks like this one (the last selected by default). */
+  selectSameStyle(id = this.selectedNode()?.id) {
+    const reference = id ? this.nodes().get(id) : undefined;
+    if (!reference) return;
+    this.selectNodes(Array.from(this.nodes().values()).filter(n => sameStyle(reference, n, this.theme())).map(n => n.id));
+  }
+
+  // --- Alignment ---
+
+  /** Lines the selection up on one side or the centre of its bounding box, as one undo step. */
+  alignSelection(edge: AlignEdge) {
+    this.moveSelectionBy(alignOffsets(this.alignItems(), edge));
+  }
+
+  /** Spreads the selection out with equal gaps along the axis, as one undo step; needs three items or more. */
+  distributeSelection(axis: DistributeAxis) {
+    this.moveSelectionBy(distributeOffsets(this.alignItems(), axis));
+  }
+
+  /**
+   * Gives the selected nodes the width or height of the last selected one, as
+   * one undo step. Only resizable nodes take part; person cards keep their size.
+   */
+  matchSelectionSize(dimension: SizeDimension) {
+    this.finishPositionAnimation();
+    const nodes = this.nodes();
+    const positions = this.nodePositions();
+    const items = Array.from(this.selectedNodeIds())
+      .filter(id => nodes.has(id) && positions.has(id) && isResizable(nodes.get(id)!.type))
+      .map(id => ({ id, rect: nodeRect(nodes.get(id)!, positions.get(id)!), fixed: this.isLocked(id) }));
+
+    const resized = new Map<string, NodePosition>();
+    matchSizes(items, dimension).forEach(({ w, h }, id) => resized.set(id, { ...positions.get(id)!, width: w, height: h }));
+    if (resized.size === 0) return;
+
+    this.saveHistory();
+    this.nodePositions.update(map => new Map([...map, ...resized]));
+    this.refreshMembership(Array.from(resized.keys()));
+  }
+
+  // Boxes of the selected nodes and drawings; locked nodes hold their place but still count
+  private alignItems(): AlignItem[] {
+    this.finishPositionAnimation(); // Measure where a running layout animation is heading
+    const nodes = this.nodes();
+    const positions = this.nodePositions();
+    const items: AlignItem[] = [];
+    this.selectedNodeIds().forEach(id => {
+      const node = nodes.get(id);
+      const pos = positions.get(id);
+      if (node && pos) items.push({ id, rect: nodeRect(node, pos), fixed: this.isLocked(id) });
+    });
+    const drawingIds = this.selectedDrawingIds();
+    this.drawings().filter(d => drawingIds.has(d.id)).forEach(d => items.push({ id: d.id, rect: this.getDrawingBounds(d.path) }));
+    return items;
+  }
+
+  private moveSelectionBy(moves: Map<string, Offset>) {
+    if (moves.size === 0) return;
+    this.saveHistory(); // Also settles any running layout animation, which would undo the moves
+
+    const nodeIds = Array.from(moves.keys()).filter(id => this.selectedNodeIds().has(id));
+    this.nodePositions.update(map => {
+      const newMap = new Map<string, NodePosition>(map);
+      nodeIds.forEach(id => {
+        const current = newMap.get(id)!;
+        const { dx, dy } = moves.get(id)!;
+        newMap.set(id, { ...current, x: current.x + dx, y: current.y + dy });
+      });
+      return newMap;
+    });
+    const drawingIds = this.selectedDrawingIds();
+    this.drawings.update(list => list.map(d => {
+      const move = drawingIds.has(d.id) ? moves.get(d.id) : undefined;
+      return move ? { ...d, path: this.shiftPath(d.path, move.dx, move.dy) } : d;
+    }));
+    this.refreshMembership(nodeIds);
+  }
+
+  // Moved or resized boxes may now sit in (or out of) a department group, as after a drag
+  private refreshMembership(ids: string[]) {
+    ids.forEach(id => {
+      if (this.nodes().get(id)?.type === 'group') {
+        this.updateGroupMembership(id);
+      } else {
+        this.updateNodeMembership(id);
+      }
+    });
+  }
+
+  /**
+   * Validates (and migrates) an exported chart and applies it only when it has no errors.
+   * Returns every issue found so the UI can report them field by field.
+   */
+  importFromJson(data: unknown): ValidationIssue[] {
+    const { file, issues } = parseChartFile(data);
+    if (!file) return issues;
 
     this.saveHistory(); // Save current state so import can be undone
 
-    try {
-      // Convert arrays back to Maps
-      const newNodes = new Map<string, ChartNode>(data.nodes);
-      const newPositions = new Map<string, NodePosition>(data.positions);
-      // drawings can be optional in older exports, so handle that
-      const newDrawings = Array.isArray(data.drawings) ? data.drawings : [];
+    this.nodes.set(new Map(file.nodes.map(n => [n.id, n] as [string, ChartNode])));
+    this.edges.set(file.edges);
+    this.nodePositions.set(new Map(Object.entries(file.positions)));
+    this.drawings.set(file.drawings);
+    this.chartType.set(file.metadata.chartType);
+    this.layoutSettings.set(file.layout);
+    this.fieldSchema.set(file.fields);
+    this.cardDesign.set(file.cardDesign);
+    this.theme.set(file.theme);
+    this.clearSelection();
 
-      this.nodes.set(newNodes);
-      this.nodePositions.set(newPositions);
-      this.drawings.set(newDrawings);
-
-      this.clearSelection();
-    } catch(error) {
-        console.error('Error processing imported JSON data:', error);
-        alert('Could not apply the data from the JSON file. The data may be invalid.');
-        // If processing fails, revert to the previous state by undoing.
-        this.undo();
-        // The undo operation pushes the failed state to the redo stack, which is confusing.
-        // Clear the redo stack to prevent users from redoing a failed import.
-        this.redoStack = [];
-    }
+    return issues;
+  }
+
+  /**
+   * Adds (or replaces the chart with) people from a roster import as a single undo step.
+   * Creates a department group for every department that has none yet, then lays everything out.
+   */
+  importRoster(people: RosterPerson[], replace: boolean, newFields: FieldDefinition[] = []) {
+    if (people.length === 0) return;
+    this.saveHistory();
+
+    // Columns the user chose to keep as new custom fields
+    this.fieldSchema.update(fields => [...fields, ...newFields.filter(f => !fields.some(existing => existing.id === f.id))]);
+
+    const map = new Map<string, ChartNode>();
+    const pos = replace ? new Map<string, NodePosition>() : new Map<string, NodePosition>(this.nodePositions());
+    const existing = replace ? new Map<string, ChartNode>() : this.nodes();
+
+    const reports = new Map<string, string[]>();
+    people.forEach(p => {
+      if (p.managerId) reports.set(p.managerId, [...(reports.get(p.managerId) || []), p.id]);
+    });
+
+    people.forEach(p => {
+      const children = reports.get(p.id) || [];
+      const type: ChartNode['type'] = !p.managerId && children.length > 0 ? 'executive' : (children.length > 0 ? 'manager' : 'employee');
+      addPerson(map, pos, p.id, p.name, p.role, type, p.department, 0, 0, children, {
+        level: p.level || undefined,
+        ...(Object.keys(p.fields).length ? { fields: p.fields } : {})
+      });
+    });
+
+    const existingGroups = new Set([...existing.values(), ...map.values()].filter(n => n.type === 'group').map(n => n.name));
+    new Set(people.map(p => p.department).filter(Boolean)).forEach(dept => {
+      if (!existingGroups.has(dept)) {
+        addGroup(map, pos, `group-${Math.random().toString(36).substr(2, 9)}`, dept, 0, 0, 300, 300);
+      }
+    });
+    const themed = restyleNodes(map, CLASSIC_THEME, this.theme());
+
+    // Imported people take their manager from the roster
+    const keptEdges = replace ? [] : this.edges().filter(e => !(e.kind === 'reporting' && map.has(e.targetId)));
+    this.edges.set([...keptEdges, ...edgesFromChildren(themed.values())]);
+    this.nodes.set(new Map([...existing, ...withoutChildren(themed)]));
+    this.nodePositions.set(pos);
+    this.clearSelection();
+    this.autoLayout(false);
   }
 
   // Helper to shift SVG path
@@ -1154,13 +1849,13 @@ export class ChartStateService {
   addNode(type: ChartNode['type'], x: number, y: number, options: Partial<ChartNode> = {}, dimensions?: {width: number, height: number}): string {
     this.saveHistory();
 
-    const newNode: ChartNode = {
+    // Colours a tool passes in were chosen, not taken from the theme
+    const newNode = markOverrides({
       id: Math.random().toString(36).substr(2, 9),
       name: type === 'note' ? 'New Note' : (type === 'shape' ? 'New Shape' : (type === 'group' ? 'New Area' : (type === 'text' ? 'Type text...' : 'New Role'))),
       role: type === 'note' || type === 'shape' || type === 'group' || type === 'text' ? '' : 'Position',
       type: type,
       level: type === 'executive' || type === 'manager' || type === 'employee' ? 'P0 - Egresado' : undefined,
-      children: [],
       avatarType: 'icon',
       avatarIcon: 'person',
       backgroundColor: type === 'group' || type === 'text' ? 'transparent' : '#ffffff',
@@ -1176,8 +1871,9 @@ export class ChartStateService {
       fontWeight: 'normal',
       fontStyle: 'normal',
       textDecoration: 'none',
+      ...themeNodeStyle(this.theme(), type),
       ...options
-    };
+    } as ChartNode, Object.fromEntries(Object.keys(options).map(prop => [prop, true])));
 
     // Default sizes for logic calculation
     let width = dimensions?.width || 208;
@@ -1226,11 +1922,10 @@ export class ChartStateService {
     let newY = 100;
 
     if (parentId) {
-      const parentNode = this.nodes().get(parentId);
       const parentPos = positions.get(parentId);
       
       if (parentPos) {
-         const siblingsCount = parentNode?.children?.length || 0;
+         const siblingsCount = this.edges().filter(e => e.kind === 'reporting' && e.sourceId === parentId).length;
          const spacing = 240; 
          newX = parentPos.x + (siblingsCount * spacing); 
          newY = parentPos.y + 180;
@@ -1250,14 +1945,8 @@ export class ChartStateService {
     
     // Link if parent exists
     if (parentId) {
-      this.nodes.update(map => {
-        const newMap = new Map<string, ChartNode>(map);
-        const parent = newMap.get(parentId!);
-        if (parent) {
-          newMap.set(parentId!, { ...parent, children: [...(parent.children || []), newId]});
-        }
-        return newMap;
-      });
+      this.edges.update(edges => [...edges, { id: newEdgeId(), sourceId: parentId!, targetId: newId, kind: 'reporting' }]);
+      this.relayoutBranches([parentId]);
     }
 
     this.selectedNodeIds.set(new Set([newId]));
@@ -1282,7 +1971,7 @@ export class ChartStateService {
   }
 
   zoomToFit(containerWidth: number, containerHeight: number) {
-    const positions = this.nodePositions();
+    const positions = this.visiblePositions();
     const drawings = this.drawings();
 
     if (positions.size === 0 && drawings.length === 0) {
@@ -1341,14 +2030,25 @@ export class ChartStateService {
     this.zoomLevel.set(zoomPercentage);
 
     // Center the content
-    const finalScale = zoomPercentage / 100;
-    
     const contentCenterX = minX + (maxX - minX) / 2;
     const contentCenterY = minY + (maxY - minY) / 2;
+    this.centerOn(contentCenterX, contentCenterY, containerWidth, containerHeight);
+  }
 
-    const newPanX = (containerWidth / 2) - (contentCenterX * finalScale);
-    const newPanY = (containerHeight / 2) - (contentCenterY * finalScale);
+  /** Pans, keeping the zoom, so the given world point sits in the middle of the container. */
+  centerOn(worldX: number, worldY: number, containerWidth: number, containerHeight: number) {
+    const scale = this.zoomLevel() / 100;
+    this.panOffset.set({
+      x: (containerWidth / 2) - (worldX * scale),
+      y: (containerHeight / 2) - (worldY * scale)
+    });
+  }
 
-    this.panOffset.set({ x: newPanX, y: newPanY });
+  centerOnNode(id: string, containerWidth: number, containerHeight: number) {
+    const pos = this.nodePositions().get(id);
+    const node = this.nodes().get(id);
+    if (!pos || !node) return;
+    const size = defaultNodeSize(node.type);
+    this.centerOn(pos.x + (pos.width || size.width) / 2, pos.y + (pos.height || size.height) / 2, containerWidth, containerHeight);
   }
 }
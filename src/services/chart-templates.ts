@@ -0,0 +1,287 @@
+import { ChartNode, NodePosition, ChartEdge, Drawing, EdgeKind, FieldDefinition } from './chart-state.service';
+import { LayoutSettings, DEFAULT_LAYOUT, normalizeLayoutSettings } from './chart-layout';
+import { edgesFromChildren } from './chart-edges';
+import { CardDesign, normalizeCardDesign } from './card-styles';
+import { ChartTheme, normalizeTheme } from './chart-themes';
+
+// Starting points for new charts. Built-in templates are generated from sample
+// data; custom ones are snapshots of a chart the user saved.
+
+export interface TemplateContent {
+  chartType: string;
+  nodes: Map<string, ChartNode>;
+  positions: Map<string, NodePosition>;
+  edges: ChartEdge[];
+  drawings: Drawing[];
+  layout: LayoutSettings;
+  /** Lay the people out once loaded; off when the placement is the point (e.g. a grid). */
+  autoLayout: boolean;
+  fields?: FieldDefinition[];
+  cardDesign?: CardDesign;
+  theme?: ChartTheme;
+}
+
+export interface ChartTemplate {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  build(): TemplateContent;
+}
+
+/** A chart saved as a template, as kept in IndexedDB. */
+export interface StoredChartTemplate {
+  id: string;
+  name: string;
+  createdAt: number;
+  chartType: string;
+  nodes: [string, ChartNode][];
+  positions: [string, NodePosition][];
+  edges: ChartEdge[];
+  drawings: Drawing[];
+  layout: LayoutSettings;
+  fields?: FieldDefinition[]; // Missing in templates saved before custom fields
+  cardDesign?: CardDesign; // Missing in templates saved before card templates
+  theme?: ChartTheme; // Missing in templates saved before themes
+}
+
+export const BUILT_IN_TEMPLATES: ChartTemplate[] = [
+  {
+    id: 'whiteboard',
+    name: 'Pizarrón',
+    description: 'Lienzo en blanco para notas, formas y dibujos.',
+    icon: 'gesture',
+    build: () => emptyContent('whiteboard')
+  },
+  {
+    id: 'functional',
+    name: 'Funcional',
+    description: 'Departamentos bajo una dirección general.',
+    icon: 'account_tree',
+    build: buildFunctional
+  },
+  {
+    id: 'divisional',
+    name: 'Divisional',
+    description: 'Una división por región, cada una con sus propias áreas.',
+    icon: 'lan',
+    build: buildDivisional
+  },
+  {
+    id: 'matrix',
+    name: 'Matricial',
+    description: 'Funciones × proyectos: cada persona depende de su área y de un proyecto.',
+    icon: 'grid_view',
+    build: buildMatrix
+  },
+  {
+    id: 'team-of-teams',
+    name: 'Equipo de equipos',
+    description: 'Estructura plana de equipos autónomos alrededor de un coordinador.',
+    icon: 'hub',
+    build: buildTeamOfTeams
+  },
+  {
+    id: 'project',
+    name: 'Equipo de proyecto',
+    description: 'Patrocinador, dirección de proyecto y líneas de trabajo.',
+    icon: 'assignment',
+    build: buildProject
+  }
+];
+
+/** Content of a saved template; a fresh copy every time so applying it twice shares nothing. */
+export function storedTemplateContent(template: StoredChartTemplate): TemplateContent {
+  const copy: StoredChartTemplate = JSON.parse(JSON.stringify(template));
+  return {
+    chartType: copy.chartType,
+    nodes: new Map(copy.nodes),
+    positions: new Map(copy.positions),
+    edges: copy.edges,
+    drawings: copy.drawings,
+    layout: normalizeLayoutSettings(copy.layout),
+    autoLayout: false,
+    fields: copy.fields ?? [],
+    cardDesign: normalizeCardDesign(copy.cardDesign),
+    theme: normalizeTheme(copy.theme)
+  };
+}
+
+// --- Sample builders ---
+
+/** Adds a person card; `children` become reporting edges through edgesFromChildren. */
+export function addPerson(map: Map<string, ChartNode>, pos: Map<string, NodePosition>, id: string, name: string, role: string, type: ChartNode['type'], dept: string, x: number, y: number, children: string[] = [], options: Partial<ChartNode> = {}) {
+  map.set(id, {
+    id, name, role, type, department: dept, children,
+    avatarType: 'icon', avatarIcon: 'person',
+    backgroundColor: '#ffffff', borderColor: '#cbd5e1', borderWidth: 2,
+    nameColor: '#0f172a', roleColor: '#475569', departmentColor: '#64748b',
+    level: type === 'group' ? undefined : 'P4 - Facilitar',
+    shapeType: 'rectangle', borderRadius: 8,
+    ...options
+  });
+  pos.set(id, { x, y, width: 208, height: 100 });
+}
+
+export function addGroup(map: Map<string, ChartNode>, pos: Map<string, NodePosition>, id: string, name: string, x: number, y: number, width: number, height: number, options: Partial<ChartNode> = {}) {
+  map.set(id, {
+    id, name, role: '', type: 'group', department: '',
+    avatarType: 'icon',
+    backgroundColor: '#fef9c3', // Light yellow like screenshot
+    borderColor: '#fde047',
+    borderWidth: 2,
+    nameColor: '#854d0e',
+    roleColor: '', departmentColor: '',
+    shapeType: 'rectangle', borderRadius: 16,
+    ...options
+  });
+  pos.set(id, { x, y, width, height });
+}
+
+function emptyContent(chartType: string): TemplateContent {
+  return { chartType, nodes: new Map(), positions: new Map(), edges: [], drawings: [], layout: DEFAULT_LAYOUT, autoLayout: false };
+}
+
+// A tree drawn from `children`; positions are placeholders for autoLayout
+function treeContent(map: Map<string, ChartNode>, pos: Map<string, NodePosition>, layout: Partial<LayoutSettings> = {}): TemplateContent {
+  return {
+    chartType: 'functional',
+    nodes: map,
+    positions: pos,
+    edges: edgesFromChildren(map.values()),
+    drawings: [],
+    layout: normalizeLayoutSettings({ ...DEFAULT_LAYOUT, ...layout }),
+    autoLayout: true
+  };
+}
+
+function buildFunctional(): TemplateContent {
+  const map = new Map<string, ChartNode>();
+  const pos = new Map<string, NodePosition>();
+
+  addGroup(map, pos, 'g1', 'Management', 500, 50, 300, 300);
+  addGroup(map, pos, 'g2', 'Growth', 200, 250, 300, 300);
+  addGroup(map, pos, 'g3', 'Product', 800, 250, 300, 300);
+
+  addPerson(map, pos, '1', 'Sarah Connor', 'CEO / Founder', 'executive', 'Management', 600, 50, ['2', '3'], { avatarIcon: '👩‍💼' });
+  addPerson(map, pos, '2', 'James Wright', 'Marketing VP', 'manager', 'Growth', 350, 250, ['2-1', '2-2']);
+  addPerson(map, pos, '2-1', 'Growth Team', 'Lead', 'employee', 'Growth', 250, 450);
+  addPerson(map, pos, '2-2', 'Brand Team', 'Lead', 'employee', 'Growth', 450, 450);
+  addPerson(map, pos, '3', 'Emily Chen', 'Engineering VP', 'manager', 'Product', 850, 250, ['3-1', '3-2']);
+  addPerson(map, pos, '3-1', 'Frontend', 'Team A', 'employee', 'Product', 750, 450);
+  addPerson(map, pos, '3-2', 'Backend', 'Team B', 'employee', 'Product', 950, 450);
+
+  return treeContent(map, pos);
+}
+
+function buildDivisional(): TemplateContent {
+  const map = new Map<string, ChartNode>();
+  const pos = new Map<string, NodePosition>();
+  const divisions: [string, string, string][] = [
+    ['americas', 'Americas', 'Laura Gómez'],
+    ['emea', 'EMEA', 'Henrik Larsen'],
+    ['apac', 'APAC', 'Mei Tanaka']
+  ];
+
+  addGroup(map, pos, 'g-hq', 'Headquarters', 0, 0, 300, 300, { backgroundColor: '#f1f5f9', borderColor: '#cbd5e1', nameColor: '#475569' });
+  addPerson(map, pos, 'ceo', 'Robert Hale', 'CEO', 'executive', 'Headquarters', 0, 0, divisions.map(([id]) => id), { avatarIcon: '👨‍💼' });
+  divisions.forEach(([id, region, head]) => {
+    addGroup(map, pos, `g-${id}`, region, 0, 0, 300, 300);
+    addPerson(map, pos, id, head, `President, ${region}`, 'manager', region, 0, 0, [`${id}-sales`, `${id}-ops`]);
+    addPerson(map, pos, `${id}-sales`, 'Sales', `${region} Sales Lead`, 'employee', region, 0, 0);
+    addPerson(map, pos, `${id}-ops`, 'Operations', `${region} Operations Lead`, 'employee', region, 0, 0);
+  });
+
+  return treeContent(map, pos, { groupSpacing: 300 });
+}
+
+// Cells of a functions × projects grid; placed by hand, so no autoLayout
+function buildMatrix(): TemplateContent {
+  const map = new Map<string, ChartNode>();
+  const pos = new Map<string, NodePosition>();
+  const edges: ChartEdge[] = [];
+  const link = (sourceId: string, targetId: string, kind: EdgeKind) => edges.push({ id: `${sourceId}-${targetId}`, sourceId, targetId, kind });
+
+  const functions: [string, string, string, string][] = [
+    ['eng', 'Engineering', 'Emily Chen', 'Engineering VP'],
+    ['design', 'Design', 'Lucas Moreau', 'Head of Design'],
+    ['mkt', 'Marketing', 'Grace Kim', 'Marketing Director']
+  ];
+  const projects: [string, string, string][] = [
+    ['atlas', 'Atlas', 'Priya Patel'],
+    ['nova', 'Nova', 'Diego Ramos']
+  ];
+  const members: Record<string, [string, string]> = {
+    'atlas-eng': ['Ana López', 'Frontend Engineer'],
+    'atlas-design': ['Mia Novak', 'Product Designer'],
+    'atlas-mkt': ['Omar Haddad', 'Growth Marketer'],
+    'nova-eng': ['Tom Becker', 'Backend Engineer'],
+    'nova-design': ['Kenji Sato', 'UX Researcher'],
+    'nova-mkt': ['Lena Fischer', 'Content Strategist']
+  };
+
+  const CELL_W = 260, CELL_H = 240, GAP = 40;
+  const gridX = 300, gridY = 260;
+  const cellX = (col: number) => gridX + col * (CELL_W + GAP);
+  const cellY = (row: number) => gridY + row * (CELL_H + GAP);
+
+  addPerson(map, pos, 'ceo', 'Sarah Connor', 'CEO / Founder', 'executive', 'Management', cellX(1) + 26, -260, [], { avatarIcon: '👩‍💼' });
+  functions.forEach(([fnId, fn, head, role], col) => {
+    addPerson(map, pos, fnId, head, role, 'manager', fn, cellX(col) + 26, 0);
+    link('ceo', fnId, 'reporting');
+  });
+  projects.forEach(([projectId, project, lead], row) => {
+    addPerson(map, pos, projectId, lead, `Program Manager · ${project}`, 'manager', 'Management', 20, cellY(row) + 40);
+    link('ceo', projectId, 'reporting');
+
+    functions.forEach(([fnId, fn], col) => {
+      const id = `${projectId}-${fnId}`;
+      addGroup(map, pos, `g-${id}`, `${project} · ${fn}`, cellX(col), cellY(row), CELL_W, CELL_H, {
+        backgroundColor: '#eff6ff', borderColor: '#93c5fd', nameColor: '#1d4ed8'
+      });
+      const [name, memberRole] = members[id];
+      addPerson(map, pos, id, name, memberRole, 'employee', fn, cellX(col) + 26, cellY(row) + 40);
+      link(fnId, id, 'reporting');   // Primary line: their function
+      link(projectId, id, 'dotted'); // Secondary line: their project
+    });
+  });
+
+  return { chartType: 'matrix', nodes: map, positions: pos, edges, drawings: [], layout: DEFAULT_LAYOUT, autoLayout: false };
+}
+
+function buildTeamOfTeams(): TemplateContent {
+  const map = new Map<string, ChartNode>();
+  const pos = new Map<string, NodePosition>();
+  const teams: [string, string, string[]][] = [
+    ['checkout', 'Checkout', ['Iris Walsh', 'Noah Berg']],
+    ['search', 'Search', ['Sofía Ruiz', 'Ethan Cole']],
+    ['mobile', 'Mobile', ['Yuki Mori', 'Liam Park']],
+    ['platform', 'Platform', ['Zara Ali', 'Max Weber']]
+  ];
+
+  addPerson(map, pos, 'coordinator', 'Nadia Flores', 'Agile Coach', 'executive', 'Coordination', 0, 0, teams.map(([id]) => id), { avatarIcon: '🧭' });
+  teams.forEach(([id, team, people]) => {
+    const memberIds = people.map((_, i) => `${id}-${i + 1}`);
+    addPerson(map, pos, id, `${team} Team`, 'Team Lead', 'manager', team, 0, 0, memberIds);
+    people.forEach((name, i) => addPerson(map, pos, memberIds[i], name, 'Team Member', 'employee', team, 0, 0));
+  });
+
+  return treeContent(map, pos, { algorithm: 'radial' });
+}
+
+function buildProject(): TemplateContent {
+  const map = new Map<string, ChartNode>();
+  const pos = new Map<string, NodePosition>();
+
+  addPerson(map, pos, 'sponsor', 'Martin Shaw', 'Project Sponsor', 'executive', 'Steering', 0, 0, ['pm'], { avatarIcon: '🎯' });
+  addPerson(map, pos, 'pm', 'Clara Vidal', 'Project Manager', 'manager', 'Project Office', 0, 0, ['ws-tech', 'ws-change', 'ws-qa']);
+  addPerson(map, pos, 'ws-tech', 'Ravi Kumar', 'Technical Lead', 'manager', 'Delivery', 0, 0, ['tech-1', 'tech-2']);
+  addPerson(map, pos, 'tech-1', 'Julia Stone', 'Developer', 'employee', 'Delivery', 0, 0);
+  addPerson(map, pos, 'tech-2', 'Pablo Núñez', 'Developer', 'employee', 'Delivery', 0, 0);
+  addPerson(map, pos, 'ws-change', 'Hannah Lee', 'Change Lead', 'manager', 'Adoption', 0, 0, ['change-1']);
+  addPerson(map, pos, 'change-1', 'Samuel Ortiz', 'Trainer', 'employee', 'Adoption', 0, 0);
+  addPerson(map, pos, 'ws-qa', 'Olga Petrova', 'QA Lead', 'manager', 'Quality', 0, 0, ['qa-1']);
+  addPerson(map, pos, 'qa-1', 'Ben Carter', 'Tester', 'employee', 'Quality', 0, 0);
+
+  return treeContent(map, pos, { algorithm: 'left-right', levelSpacing: 320 });
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ChartNode } from './chart-state.service';
+import { BUILT_IN_THEMES, CLASSIC_THEME, markOverrides, restyleNodes } from './chart-themes';
+
+const CORPORATE = BUILT_IN_THEMES.find(t => t.id === 'corporate')!;
+const MIDNIGHT = BUILT_IN_THEMES.find(t => t.id === 'midnight')!;
+
+const card = (extra: Partial<ChartNode> = {}): ChartNode => ({ id: 'a', name: 'Ana', role: '', type: 'employee', avatarType: 'icon', ...extra });
+
+const restyle = (node: ChartNode, from = CLASSIC_THEME, to = CORPORATE) => restyleNodes(new Map([[node.id, node]]), from, to).get(node.id)!;
+
+describe('restyleNodes', () => {
+  it('moves unset and default values to the new theme', () => {
+    const node = restyle(card({ borderColor: CLASSIC_THEME.card.borderColor }));
+    expect(node.backgroundColor).toBe(CORPORATE.card.backgroundColor);
+    expect(node.borderColor).toBe(CORPORATE.card.borderColor);
+    expect(node.nameColor).toBe(CORPORATE.card.nameColor);
+  });
+
+  it('treats the values nodes had before themes as classic defaults', () => {
+    expect(restyle(card({ backgroundColor: '#FFF', borderColor: '#e2e8f0' }))).toMatchObject({
+      backgroundColor: CORPORATE.card.backgroundColor,
+      borderColor: CORPORATE.card.borderColor
+    });
+    // Only when leaving the classic theme
+    expect(restyle(card({ borderColor: '#e2e8f0' }), CORPORATE, MIDNIGHT).borderColor).toBe('#e2e8f0');
+  });
+
+  it('keeps custom values', () => {
+    expect(restyle(card({ backgroundColor: '#fecaca' })).backgroundColor).toBe('#fecaca');
+  });
+
+  it('keeps hand-picked values even when they match the old default', () => {
+    const node = markOverrides(card({ backgroundColor: CLASSIC_THEME.card.backgroundColor }), { backgroundColor: true });
+    const restyled = restyle(node, CLASSIC_THEME, MIDNIGHT);
+    expect(restyled.backgroundColor).toBe(CLASSIC_THEME.card.backgroundColor);
+    expect(restyled.borderColor).toBe(MIDNIGHT.card.borderColor);
+  });
+
+  it('only touches the properties the theme sets for the type', () => {
+    const text = restyle(card({ type: 'text', backgroundColor: CLASSIC_THEME.card.backgroundColor }));
+    expect(text.backgroundColor).toBe(CLASSIC_THEME.card.backgroundColor);
+    expect(text.nameColor).toBe(CORPORATE.text.nameColor);
+    expect(text.fontFamily).toBe(CORPORATE.fontFamily);
+  });
+
+  it('returns the same map and nodes when nothing changes', () => {
+    const nodes = new Map([['a', card()]]);
+    expect(restyleNodes(nodes, CORPORATE, { ...CORPORATE })).toBe(nodes);
+    const picked = markOverrides(card({ backgroundColor: '#000', borderColor: '#000', nameColor: '#000', roleColor: '#000', departmentColor: '#000' }),
+      { backgroundColor: true, borderColor: true, nameColor: true, roleColor: true, departmentColor: true });
+    expect(restyle(picked)).toBe(picked);
+  });
+});
+
+describe('markOverrides', () => {
+  it('adds and removes hand-picked properties the theme sets', () => {
+    const node = markOverrides(card(), { nameColor: true, backgroundColor: true, fontSize: true });
+    expect(node.styleOverrides).toEqual(['backgroundColor', 'nameColor']);
+    expect(markOverrides(node, { backgroundColor: false }).styleOverrides).toEqual(['nameColor']);
+    expect(markOverrides(node, { backgroundColor: false, nameColor: false })).not.toHaveProperty('styleOverrides');
+    expect(markOverrides(node, { nameColor: true })).toBe(node);
+  });
+});
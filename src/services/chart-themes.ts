@@ -0,0 +1,241 @@
+import { ChartNode } from './chart-state.service';
+
+// Named looks for a whole chart. Nodes keep their colours as values and list
+// the ones picked by hand in styleOverrides; a theme switch rewrites the rest,
+// so anything chosen on purpose survives even when it matches a theme colour.
+
+export interface ChartTheme {
+  id: string;
+  name: string;
+  fontFamily: string; // Cards, areas and notes, and text boxes that didn't pick a font
+  cardRadius: number; // Corner radius of person cards, px
+  connectorColor?: string; // Unset follows the editor's light or dark mode
+  card: { backgroundColor: string; borderColor: string; nameColor: string; roleColor: string; departmentColor: string };
+  group: { backgroundColor: string; borderColor: string; nameColor: string };
+  text: { nameColor: string };
+  palette: string[]; // Offered first in the colour pickers
+}
+
+/** Envelope of an exported theme. */
+export interface ThemeFile {
+  format: typeof THEME_FILE_FORMAT;
+  version: number;
+  theme: ChartTheme;
+}
+
+export const THEME_FILE_FORMAT = 'chartflow-theme';
+const THEME_FILE_VERSION = 1;
+
+export const DEFAULT_FONT = 'Inter, sans-serif';
+
+// What every chart looked like before themes; documents without one use it
+export const CLASSIC_THEME: ChartTheme = {
+  id: 'classic',
+  name: 'Clásico',
+  fontFamily: DEFAULT_FONT,
+  cardRadius: 12,
+  card: { backgroundColor: '#ffffff', borderColor: '#cbd5e1', nameColor: '#0f172a', roleColor: '#475569', departmentColor: '#64748b' },
+  group: { backgroundColor: 'transparent', borderColor: '#cbd5e1', nameColor: '#64748b' },
+  text: { nameColor: '#0f172a' },
+  palette: ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#64748b']
+};
+
+export const BUILT_IN_THEMES: ChartTheme[] = [
+  CLASSIC_THEME,
+  {
+    id: 'corporate',
+    name: 'Corporativo',
+    fontFamily: 'Arial, Helvetica, sans-serif',
+    cardRadius: 4,
+    connectorColor: '#1e3a8a',
+    card: { backgroundColor: '#ffffff', borderColor: '#1e3a8a', nameColor: '#1e3a8a', roleColor: '#334155', departmentColor: '#2563eb' },
+    group: { backgroundColor: '#eff6ff', borderColor: '#93c5fd', nameColor: '#1e40af' },
+    text: { nameColor: '#1e3a8a' },
+    palette: ['#1e3a8a', '#2563eb', '#0ea5e9', '#64748b', '#f59e0b', '#dc2626']
+  },
+  {
+    id: 'midnight',
+    name: 'Medianoche',
+    fontFamily: DEFAULT_FONT,
+    cardRadius: 12,
+    connectorColor: '#94a3b8',
+    card: { backgroundColor: '#1e293b', borderColor: '#334155', nameColor: '#f8fafc', roleColor: '#cbd5e1', departmentColor: '#94a3b8' },
+    group: { backgroundColor: '#0f172a', borderColor: '#475569', nameColor: '#cbd5e1' },
+    text: { nameColor: '#e2e8f0' },
+    palette: ['#38bdf8', '#34d399', '#fbbf24', '#f87171', '#a78bfa', '#1e293b']
+  },
+  {
+    id: 'pastel',
+    name: 'Pastel',
+    fontFamily: "'Trebuchet MS', sans-serif",
+    cardRadius: 20,
+    connectorColor: '#c084fc',
+    card: { backgroundColor: '#fdf4ff', borderColor: '#f0abfc', nameColor: '#701a75', roleColor: '#86198f', departmentColor: '#a21caf' },
+    group: { backgroundColor: '#fef3c7', borderColor: '#fcd34d', nameColor: '#92400e' },
+    text: { nameColor: '#701a75' },
+    palette: ['#fbcfe8', '#bfdbfe', '#bbf7d0', '#fde68a', '#ddd6fe', '#fecaca']
+  },
+  {
+    id: 'minimal',
+    name: 'Minimalista',
+    fontFamily: "'Helvetica Neue', Helvetica, Arial, sans-serif",
+    cardRadius: 0,
+    connectorColor: '#a3a3a3',
+    card: { backgroundColor: '#ffffff', borderColor: '#e5e5e5', nameColor: '#171717', roleColor: '#525252', departmentColor: '#737373' },
+    group: { backgroundColor: 'transparent', borderColor: '#d4d4d4', nameColor: '#525252' },
+    text: { nameColor: '#171717' },
+    palette: ['#171717', '#525252', '#a3a3a3', '#e5e5e5', '#2563eb', '#dc2626']
+  }
+];
+
+const PERSON_TYPES: ChartNode['type'][] = ['executive', 'manager', 'employee'];
+
+export type ThemedProp = 'backgroundColor' | 'borderColor' | 'nameColor' | 'roleColor' | 'departmentColor' | 'fontFamily';
+
+// Values nodes got before themes existed (renderer fallbacks, sample data,
+// the text tool); coming from the classic theme they count as defaults too
+const CLASSIC_ALIASES: Record<'card' | 'group' | 'text', Partial<Record<ThemedProp, string[]>>> = {
+  card: { backgroundColor: ['#fff'], borderColor: ['#e2e8f0'], nameColor: ['#1e293b'], roleColor: ['#64748b'], departmentColor: ['#94a3b8'] },
+  group: { backgroundColor: ['#fef9c3', '#f1f5f9'], borderColor: ['#fde047'], nameColor: ['#854d0e', '#475569'] },
+  text: { nameColor: ['#1e293b'], fontFamily: ['sans-serif'] }
+};
+
+/** The properties a theme decides for a node of this type, as new nodes get them. */
+export function themeNodeStyle(theme: ChartTheme, type: ChartNode['type']): Partial<ChartNode> {
+  if (PERSON_TYPES.includes(type)) return { ...theme.card };
+  if (type === 'group') return { ...theme.group };
+  if (type === 'text') return { nameColor: theme.text.nameColor, fontFamily: theme.fontFamily };
+  if (type === 'shape') return { borderColor: theme.card.borderColor, nameColor: theme.card.nameColor };
+  return {};
+}
+
+/** The properties a theme decides for a node of this type. */
+export function themedProps(type: ChartNode['type']): ThemedProp[] {
+  return Object.keys(themeNodeStyle(CLASSIC_THEME, type)) as ThemedProp[];
+}
+
+/**
+ * The node with its hand-picked list updated: properties marked true were
+ * chosen by the user and stay through theme switches, false ones follow the
+ * theme again. Properties the theme doesn't set for the type are ignored.
+ */
+export function markOverrides(node: ChartNode, marks: Partial<Record<keyof ChartNode, boolean>>): ChartNode {
+  const picked = new Set<string>(node.styleOverrides || []);
+  (Object.keys(marks) as (keyof ChartNode)[]).forEach(prop => {
+    if (marks[prop]) picked.add(prop); else picked.delete(prop);
+  });
+  const list = themedProps(node.type).filter(prop => picked.has(prop));
+  if (list.join() === (node.styleOverrides || []).join()) return node;
+  const { styleOverrides, ...rest } = node;
+  return list.length ? { ...rest, styleOverrides: list } : rest;
+}
+
+/**
+ * Moves nodes from one theme to another: every themed property the user
+ * didn't pick takes `to`'s value. Documents from before picks were recorded
+ * have none, so there a value other than `from`'s default (or its classic
+ * aliases) also counts as picked.
+ */
+export function restyleNodes(nodes: Map<string, ChartNode>, from: ChartTheme, to: ChartTheme): Map<string, ChartNode> {
+  if (JSON.stringify(from) === JSON.stringify(to)) return nodes;
+  const result = new Map<string, ChartNode>();
+  nodes.forEach((node, id) => {
+    const before = themeNodeStyle(from, node.type);
+    const after = themeNodeStyle(to, node.type);
+    const aliases = from.id === CLASSIC_THEME.id ? CLASSIC_ALIASES[aliasGroup(node.type)] : {};
+    const changes: Partial<ChartNode> = {};
+    (Object.keys(after) as ThemedProp[]).forEach(prop => {
+      if (node.styleOverrides?.includes(prop)) return;
+      const value = node[prop];
+      const defaults = [before[prop], ...(aliases[prop] || [])].map(v => String(v).toLowerCase());
+      if (value === undefined || defaults.includes(String(value).toLowerCase())) {
+        (changes as Record<ThemedProp, unknown>)[prop] = after[prop];
+      }
+    });
+    result.set(id, Object.keys(changes).length ? { ...node, ...changes } : node);
+  });
+  return result;
+}
+
+function aliasGroup(type: ChartNode['type']): 'card' | 'group' | 'text' {
+  return type === 'group' ? 'group' : type === 'text' ? 'text' : 'card';
+}
+
+export function buildThemeFile(theme: ChartTheme): ThemeFile {
+  return { format: THEME_FILE_FORMAT, version: THEME_FILE_VERSION, theme };
+}
+
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+// Font stacks end up in style attributes, so nothing that could close the declaration
+const FONT_PATTERN = /^[\w\s,'"-]+$/;
+
+/**
+ * Reads a theme file (or a bare theme object). Returns the theme or what is
+ * wrong with it, in Spanish for the UI. Accepts a theme exported from a chart
+ * as well as one written by hand.
+ */
+export function parseThemeFile(data: unknown): { theme: ChartTheme } | { errors: string[] } {
+  const raw = isObject(data) && data['format'] === THEME_FILE_FORMAT ? data['theme'] : data;
+  if (!isObject(raw)) return { errors: ['El archivo no contiene un tema.'] };
+
+  const errors: string[] = [];
+  const missing = new Set<string>(); // Sections already reported; their colours aren't, one by one
+  const color = (value: unknown, path: string, allowTransparent = false): string => {
+    if (missing.has(path.split('.')[0])) return '';
+    if (typeof value === 'string' && (COLOR_PATTERN.test(value) || (allowTransparent && value === 'transparent'))) return value;
+    errors.push(`${path}: se esperaba un color hexadecimal (#rrggbb)${allowTransparent ? ' o "transparent"' : ''}.`);
+    return '';
+  };
+  const section = (key: string): Record<string, unknown> => {
+    const value = raw[key];
+    if (isObject(value)) return value;
+    missing.add(key);
+    errors.push(`${key}: falta la sección.`);
+    return {};
+  };
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) errors.push('name: el tema necesita un nombre.');
+  const fontFamily = typeof raw.fontFamily === 'string' && FONT_PATTERN.test(raw.fontFamily) ? raw.fontFamily.trim() : '';
+  if (!fontFamily) errors.push('fontFamily: se esperaba una lista de fuentes, p. ej. "Arial, sans-serif".');
+  const cardRadius = typeof raw.cardRadius === 'number' && Number.isFinite(raw.cardRadius) ? Math.min(40, Math.max(0, Math.round(raw.cardRadius))) : null;
+  if (cardRadius === null) errors.push('cardRadius: se esperaba un número de píxeles.');
+
+  const card = section('card');
+  const group = section('group');
+  const text = section('text');
+  const theme: ChartTheme = {
+    id: typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : '',
+    name,
+    fontFamily,
+    cardRadius: cardRadius ?? 0,
+    card: {
+      backgroundColor: color(card['backgroundColor'], 'card.backgroundColor'),
+      borderColor: color(card['borderColor'], 'card.borderColor'),
+      nameColor: color(card['nameColor'], 'card.nameColor'),
+      roleColor: color(card['roleColor'], 'card.roleColor'),
+      departmentColor: color(card['departmentColor'], 'card.departmentColor')
+    },
+    group: {
+      backgroundColor: color(group['backgroundColor'], 'group.backgroundColor', true),
+      borderColor: color(group['borderColor'], 'group.borderColor'),
+      nameColor: color(group['nameColor'], 'group.nameColor')
+    },
+    text: { nameColor: color(text['nameColor'], 'text.nameColor') },
+    palette: Array.isArray(raw.palette) ? raw.palette.filter((c: unknown): c is string => typeof c === 'string' && COLOR_PATTERN.test(c)).slice(0, 12) : []
+  };
+  if (raw.connectorColor !== undefined) theme.connectorColor = color(raw.connectorColor, 'connectorColor');
+
+  return errors.length ? { errors } : { theme };
+}
+
+/** A theme stored with a document, or the classic one when it is missing or damaged. */
+export function normalizeTheme(raw: unknown): ChartTheme {
+  if (raw === undefined || raw === null) return CLASSIC_THEME;
+  const parsed = parseThemeFile(raw);
+  return 'theme' in parsed && parsed.theme.id ? parsed.theme : CLASSIC_THEME;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
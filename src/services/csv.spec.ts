@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseDelimited, toDelimited, unprotectCell } from './csv';
+
+describe('toDelimited', () => {
+  it('quotes cells with delimiters, quotes and line breaks', () => {
+    expect(toDelimited([['a,b', 'say "hi"', 'x\ny', 'plain']])).toBe('"a,b","say ""hi""","x\ny",plain');
+  });
+
+  it('puts an apostrophe before text a spreadsheet would run as a formula', () => {
+    expect(toDelimited([['=HYPERLINK("http://x")', '+1', '-2', '@SUM(A1)', 'Ana']], ';')).toBe('"\'=HYPERLINK(""http://x"")";\'+1;\'-2;\'@SUM(A1);Ana');
+  });
+
+  it('writes numbers as they are', () => {
+    expect(toDelimited([[-3, 1.5]])).toBe('-3,1.5');
+  });
+});
+
+describe('parseDelimited', () => {
+  it('reads quoted cells, CRLF lines and a BOM, and skips blank lines', () => {
+    expect(parseDelimited('\ufeffname;note\r\n"Ana";"a; ""b"""\r\n\r\nLuis;\r\n')).toEqual([['name', 'note'], ['Ana', 'a; "b"'], ['Luis', '']]);
+  });
+
+  it('detects the delimiter from the first line', () => {
+    expect(detectDelimiter('a;b;"c,d"\n1,2,3')).toBe(';');
+    expect(detectDelimiter('a\tb\tc')).toBe('\t');
+  });
+});
+
+describe('unprotectCell', () => {
+  it('reads protected cells back as they were written', () => {
+    const cells = ['=1+1', '-2', "'quoted", 'Ana'];
+    expect(parseDelimited(toDelimited([cells]))[0].map(unprotectCell)).toEqual(cells);
+  });
+
+  it('keeps apostrophes that are not protecting anything', () => {
+    expect(unprotectCell("'Ana")).toBe("'Ana");
+    expect(unprotectCell("O'Brien")).toBe("O'Brien");
+  });
+});
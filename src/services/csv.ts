@@ -0,0 +1,84 @@
+// Minimal RFC 4180 reader/writer for comma, semicolon and tab separated files
+
+export type Delimiter = ',' | ';' | '\t';
+
+/** Picks the delimiter that appears most often in the first line (outside quotes). */
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const counts: Record<Delimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+  for (const char of firstLine) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && char in counts) counts[char as Delimiter]++;
+  }
+  return (Object.keys(counts) as Delimiter[]).reduce((best, d) => counts[d] > counts[best] ? d : best, ',');
+}
+
+export function parseDelimited(text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// Spreadsheets run text starting with these as a formula; a leading apostrophe keeps it as text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/** Text cells are protected against formula injection; numbers are written as they are. */
+export function toDelimited(rows: (string | number)[][], delimiter: Delimiter = ','): string {
+  const escape = (value: string | number) => {
+    let text = String(value ?? '');
+    if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+    return /[",;\t\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(escape).join(delimiter)).join('\r\n');
+}
+
+/** Undoes the apostrophe toDelimited puts before formula-like text, so exports read back unchanged. */
+export function unprotectCell(text: string): string {
+  return text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+}
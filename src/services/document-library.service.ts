@@ -0,0 +1,207 @@
+import { Injectable, inject, signal, effect, untracked } from '@angular/core';
+import { ChartStateService } from './chart-state.service';
+import { DocumentStorageService, ChartDocumentSummary, StoredChartDocument } from './document-storage.service';
+import { BUILT_IN_TEMPLATES } from './chart-templates';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+const LAST_DOCUMENT_KEY = 'chartflow:lastDocumentId';
+const AUTOSAVE_DELAY = 800; // ms of inactivity before writing to IndexedDB
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DocumentLibraryService {
+  private chartState = inject(ChartStateService);
+  private storage = inject(DocumentStorageService);
+
+  documents = signal<ChartDocumentSummary[]>([]);
+  currentDocumentId = signal<string | null>(null);
+  currentDocumentName = signal<string>('');
+  saveStatus = signal<SaveStatus>('idle');
+
+  private createdAt = 0;
+  private lastSavedState = ''; // Serialized state of the last write, to skip no-op saves
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    // Autosave: any change to the chart content or viewport schedules a write
+    effect(() => {
+      this.chartState.nodes();
+      this.chartState.nodePositions();
+      this.chartState.drawings();
+      this.chartState.edges();
+      this.chartState.zoomLevel();
+      this.chartState.panOffset();
+      this.chartState.chartType();
+      this.chartState.layoutSettings();
+      this.chartState.fieldSchema();
+      this.chartState.cardDesign();
+      this.chartState.theme();
+      untracked(() => this.scheduleSave());
+    });
+
+    // Flush pending changes when the tab is hidden or closed
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.flush();
+    });
+  }
+
+  /**
+   * Opens the last used document, or creates a first one from the functional template.
+   * Resolves to true when a brand new document was created.
+   */
+  async init(): Promise<boolean> {
+    try {
+      await this.refreshList();
+      const lastId = localStorage.getItem(LAST_DOCUMENT_KEY);
+      const target = this.documents().find(d => d.id === lastId) || this.documents()[0];
+      if (target && await this.openDocument(target.id)) {
+        return false;
+      }
+    } catch (error) {
+      console.error('Could not read the document library:', error);
+      this.saveStatus.set('error');
+    }
+    await this.createDocument('Mi organigrama', 'functional');
+    return true;
+  }
+
+  async refreshList() {
+    this.documents.set(await this.storage.listDocuments());
+  }
+
+  async createDocument(name: string, chartType: string): Promise<string> {
+    await this.flush();
+
+    const template = BUILT_IN_TEMPLATES.find(t => t.id === chartType) || BUILT_IN_TEMPLATES.find(t => t.id === 'functional')!;
+    this.chartState.applyTemplate(template.build(), false);
+    this.chartState.clearHistory();
+    this.chartState.zoomLevel.set(100);
+    this.chartState.panOffset.set({ x: 0, y: 0 });
+
+    const id = Math.random().toString(36).substr(2, 9);
+    this.setCurrent(id, name, Date.now());
+
+    await this.save();
+    return id;
+  }
+
+  async openDocument(id: string): Promise<boolean> {
+    await this.flush();
+    const doc = await this.storage.getDocument(id);
+    if (!doc) return false;
+
+    this.chartState.loadDocumentState(doc);
+    this.setCurrent(doc.id, doc.name, doc.createdAt);
+    // The autosave the load triggers finds nothing new to write
+    this.lastSavedState = JSON.stringify(this.chartState.getDocumentState()) + doc.name;
+    this.saveStatus.set('saved');
+    return true;
+  }
+
+  async renameDocument(id: string, name: string) {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (id === this.currentDocumentId()) {
+      this.currentDocumentName.set(trimmed);
+      await this.save();
+      return;
+    }
+    const doc = await this.storage.getDocument(id);
+    if (doc) {
+      await this.storage.putDocument({ ...doc, name: trimmed, updatedAt: Date.now() });
+      await this.refreshList();
+    }
+  }
+
+  async duplicateDocument(id: string): Promise<string | null> {
+    if (id === this.currentDocumentId()) await this.flush();
+    const doc = await this.storage.getDocument(id);
+    if (!doc) return null;
+
+    const now = Date.now();
+    const copy: StoredChartDocument = {
+      ...doc,
+      id: Math.random().toString(36).substr(2, 9),
+      name: `${doc.name} (copia)`,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.storage.putDocument(copy);
+    await this.refreshList();
+    return copy.id;
+  }
+
+  async deleteDocument(id: string) {
+    // A pending autosave of the open document would write it back
+    const isCurrent = id === this.currentDocumentId();
+    if (isCurrent) {
+      if (this.saveTimer) clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.currentDocumentId.set(null);
+    }
+    await this.storage.deleteDocument(id);
+    await this.refreshList();
+
+    // Never leave the editor without a document
+    if (isCurrent) {
+      const next = this.documents()[0];
+      if (!next || !(await this.openDocument(next.id))) {
+        await this.createDocument('Mi organigrama', 'functional');
+      }
+    }
+  }
+
+  /** Writes any pending autosave immediately. */
+  async flush() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.save();
+    }
+  }
+
+  private setCurrent(id: string, name: string, createdAt: number) {
+    this.currentDocumentId.set(id);
+    this.currentDocumentName.set(name);
+    this.createdAt = createdAt;
+    localStorage.setItem(LAST_DOCUMENT_KEY, id);
+  }
+
+  private scheduleSave() {
+    if (!this.currentDocumentId()) return;
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, AUTOSAVE_DELAY);
+  }
+
+  private async save() {
+    const id = this.currentDocumentId();
+    if (!id) return;
+
+    const state = this.chartState.getDocumentState();
+    const serialized = JSON.stringify(state) + this.currentDocumentName();
+    if (serialized === this.lastSavedState) return;
+
+    this.saveStatus.set('saving');
+    try {
+      await this.storage.putDocument({
+        ...state,
+        id,
+        name: this.currentDocumentName(),
+        createdAt: this.createdAt,
+        updatedAt: Date.now()
+      });
+      this.lastSavedState = serialized;
+      this.saveStatus.set('saved');
+      await this.refreshList();
+    } catch (error) {
+      console.error('Autosave failed:', error);
+      this.saveStatus.set('error');
+    }
+  }
+}
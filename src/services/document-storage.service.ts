@@ -0,0 +1,109 @@
+import { Injectable } from '@angular/core';
+import { ChartDocumentState } from './chart-state.service';
+import { StoredChartTemplate } from './chart-templates';
+
+export interface StoredChartDocument extends ChartDocumentState {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Lightweight view of a document for the library list
+export interface ChartDocumentSummary {
+  id: string;
+  name: string;
+  chartType: string;
+  createdAt: number;
+  updatedAt: number;
+  nodeCount: number;
+}
+
+const DB_NAME = 'chartflow';
+const DB_VERSION = 2;
+const DOCUMENTS_STORE = 'documents';
+const TEMPLATES_STORE = 'templates'; // Added in version 2
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DocumentStorageService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  async listDocuments(): Promise<ChartDocumentSummary[]> {
+    const docs = await this.request<StoredChartDocument[]>(DOCUMENTS_STORE, 'readonly', store => store.getAll());
+    return docs
+      .map(doc => ({
+        id: doc.id,
+        name: doc.name,
+        chartType: doc.chartType,
+        createdAt: doc.createdAt,
+        updatedAt: doc.updatedAt,
+        nodeCount: doc.nodes.length
+      }))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getDocument(id: string): Promise<StoredChartDocument | null> {
+    const doc = await this.request<StoredChartDocument | undefined>(DOCUMENTS_STORE, 'readonly', store => store.get(id));
+    return doc || null;
+  }
+
+  async putDocument(doc: StoredChartDocument): Promise<void> {
+    await this.request(DOCUMENTS_STORE, 'readwrite', store => store.put(doc));
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    await this.request(DOCUMENTS_STORE, 'readwrite', store => store.delete(id));
+  }
+
+  async listTemplates(): Promise<StoredChartTemplate[]> {
+    const templates = await this.request<StoredChartTemplate[]>(TEMPLATES_STORE, 'readonly', store => store.getAll());
+    return templates.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async putTemplate(template: StoredChartTemplate): Promise<void> {
+    await this.request(TEMPLATES_STORE, 'readwrite', store => store.put(template));
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await this.request(TEMPLATES_STORE, 'readwrite', store => store.delete(id));
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser.'));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+            db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+            db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed (e.g. blocked by another tab)
+      this.dbPromise.catch(() => this.dbPromise = null);
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.openDb();
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const req = action(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(req.result as T);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+}
@@ -0,0 +1,18 @@
+// Triggers a browser download for generated content
+export function downloadFile(content: BlobPart | Blob, fileName: string, mimeType: string) {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Turns a document name into something safe to use as a file name
+export function toFileName(name: string, fallback = 'chartflow-export'): string {
+  const cleaned = name.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-');
+  return cleaned || fallback;
+}
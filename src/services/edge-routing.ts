@@ -0,0 +1,261 @@
+import { ChartNode, ChartEdge, NodePosition, EdgeRouting } from './chart-state.service';
+import { LayoutFlow, Side, SIDE_VECTORS, defaultNodeSize, getConnectorPath, connectorSides, connectorAnchor, roundedPolyline } from './chart-geometry';
+
+// Connector paths for a whole chart. Orthogonal edges are routed around the
+// cards and groups in their way, and edges leaving a manager through the same
+// side share one trunk and one crossbar, the way org charts are drawn.
+
+type Point = { x: number; y: number };
+
+interface Rect { id: string; minX: number; minY: number; maxX: number; maxY: number }
+
+const CLEARANCE = 16;     // Gap kept between a routed line and the boxes it passes
+const STUB = 24;          // Straight run out of the source and into the target
+const BEND_COST = 60;     // Extra length a turn is worth, so routes prefer few elbows
+const MAX_OBSTACLES = 80; // Past this many boxes nearby, fall back to a plain elbow
+
+/**
+ * Path for every edge whose ends are positioned, keyed by edge id. Edges on
+ * 'auto' use `chartRouting`.
+ */
+export function routeEdges(
+  edges: ChartEdge[],
+  nodes: Map<string, ChartNode>,
+  positions: Map<string, NodePosition>,
+  flow: LayoutFlow,
+  chartRouting: Exclude<EdgeRouting, 'auto'>
+): Map<string, string> {
+  const paths = new Map<string, string>();
+  const orthogonal: { edge: ChartEdge; start: Point; end: Point; sourceSide: Side; targetSide: Side }[] = [];
+
+  edges.forEach(edge => {
+    const source = positions.get(edge.sourceId);
+    const target = positions.get(edge.targetId);
+    if (!source || !target) return;
+    const routing = !edge.routing || edge.routing === 'auto' ? chartRouting : edge.routing;
+    const ports = { source: edge.sourcePort, target: edge.targetPort };
+    const sides = routing === 'orthogonal' ? connectorSides(source, target, flow, ports) : null;
+    if (!sides) {
+      paths.set(edge.id, getConnectorPath(source, target, flow, routing, ports));
+      return;
+    }
+    orthogonal.push({
+      edge,
+      start: connectorAnchor(source, sides.source),
+      end: connectorAnchor(target, sides.target),
+      sourceSide: sides.source,
+      targetSide: sides.target
+    });
+  });
+  if (orthogonal.length === 0) return paths;
+
+  // Siblings cross over halfway to the nearest of them
+  const channels = new Map<string, number>();
+  orthogonal.forEach(({ edge, start, end, sourceSide }) => {
+    const ahead = distanceAhead(start, end, sourceSide);
+    if (ahead < STUB * 2) return;
+    const key = `${edge.sourceId}:${sourceSide}`;
+    channels.set(key, Math.min(channels.get(key) ?? Infinity, ahead / 2));
+  });
+
+  const rects = new Map<string, Rect>();
+  positions.forEach((pos, id) => {
+    const node = nodes.get(id);
+    if (!node) return;
+    const size = defaultNodeSize(node.type);
+    rects.set(id, { id, minX: pos.x, minY: pos.y, maxX: pos.x + (pos.width || size.width), maxY: pos.y + (pos.height || size.height) });
+  });
+
+  orthogonal.forEach(({ edge, start, end, sourceSide, targetSide }) => {
+    const source = rects.get(edge.sourceId);
+    const target = rects.get(edge.targetId);
+    // Boxes that hold either end can't be avoided, so they don't count
+    const obstacles = Array.from(rects.values()).filter(r =>
+      r !== source && r !== target && !(source && contains(r, source)) && !(target && contains(r, target))
+    ).map(r => inflate(r, CLEARANCE));
+    const channel = channels.get(`${edge.sourceId}:${sourceSide}`) ?? STUB;
+    const ends = [source, target].filter((r): r is Rect => !!r).map(r => inflate(r, CLEARANCE));
+    paths.set(edge.id, roundedPolyline(route(start, sourceSide, end, targetSide, channel, obstacles, ends)));
+  });
+
+  return paths;
+}
+
+function distanceAhead(start: Point, end: Point, side: Side): number {
+  const out = SIDE_VECTORS[side];
+  return (end.x - start.x) * out.x + (end.y - start.y) * out.y;
+}
+
+function route(start: Point, sourceSide: Side, end: Point, targetSide: Side, channel: number, obstacles: Rect[], ends: Rect[]): Point[] {
+  const out = SIDE_VECTORS[sourceSide];
+  const into = SIDE_VECTORS[targetSide];
+
+  // The org-chart elbow: out to the shared channel, across, then in
+  const opposite = out.x === -into.x && out.y === -into.y;
+  if (opposite && distanceAhead(start, end, sourceSide) > channel) {
+    const points = out.x === 0
+      ? [start, { x: start.x, y: start.y + out.y * channel }, { x: end.x, y: start.y + out.y * channel }, end]
+      : [start, { x: start.x + out.x * channel, y: start.y }, { x: start.x + out.x * channel, y: end.y }, end];
+    if (points.slice(1).every((p, i) => !obstacles.some(r => crosses(r, points[i], p)))) return simplify(points);
+  }
+
+  const from = { x: start.x + out.x * STUB, y: start.y + out.y * STUB };
+  const to = { x: end.x + into.x * STUB, y: end.y + into.y * STUB };
+  const middle = search(from, sourceSide, to, targetSide, obstacles, ends);
+  if (middle) return simplify([start, ...middle, end]);
+
+  // Boxed in: the plain elbow, even if it crosses something
+  return simplify(out.x === 0
+    ? [start, { x: start.x, y: (start.y + end.y) / 2 }, { x: end.x, y: (start.y + end.y) / 2 }, end]
+    : [start, { x: (start.x + end.x) / 2, y: start.y }, { x: (start.x + end.x) / 2, y: end.y }, end]);
+}
+
+/**
+ * Shortest path with few bends between two stub ends, over a grid made of the
+ * obstacle edges (A*). Returns null when there is no way through or too many
+ * obstacles nearby to search.
+ */
+function search(from: Point, sourceSide: Side, to: Point, targetSide: Side, obstacles: Rect[], ends: Rect[]): Point[] | null {
+  // Boxes near the straight run between the ends; detours happen around these
+  const reach = 300;
+  const area = {
+    minX: Math.min(from.x, to.x) - reach, maxX: Math.max(from.x, to.x) + reach,
+    minY: Math.min(from.y, to.y) - reach, maxY: Math.max(from.y, to.y) + reach
+  };
+  const nearby = obstacles.filter(r => r.maxX > area.minX && r.minX < area.maxX && r.maxY > area.minY && r.minY < area.maxY);
+  if (nearby.length > MAX_OBSTACLES) return null;
+  const blocking = [...nearby, ...ends];
+
+  const xs = uniqueSorted([from.x, to.x, (from.x + to.x) / 2, ...blocking.flatMap(r => [r.minX, r.maxX])]);
+  const ys = uniqueSorted([from.y, to.y, (from.y + to.y) / 2, ...blocking.flatMap(r => [r.minY, r.maxY])]);
+  const cols = xs.length;
+  const point = (cell: number): Point => ({ x: xs[cell % cols], y: ys[Math.floor(cell / cols)] });
+  const free = (p: Point) => !blocking.some(r => p.x > r.minX && p.x < r.maxX && p.y > r.minY && p.y < r.maxY);
+
+  const startCell = ys.indexOf(from.y) * cols + xs.indexOf(from.x);
+  const goalCell = ys.indexOf(to.y) * cols + xs.indexOf(to.x);
+  if (!free(point(startCell)) || !free(point(goalCell))) return null;
+
+  // Directions: 0 right, 1 down, 2 left, 3 up
+  const steps = [{ dx: 1, dy: 0 }, { dx: 0, dy: 1 }, { dx: -1, dy: 0 }, { dx: 0, dy: -1 }];
+  const direction = (v: Point) => steps.findIndex(s => s.dx === v.x && s.dy === v.y);
+  const startDir = direction(SIDE_VECTORS[sourceSide]);
+  const goalDir = direction({ x: -SIDE_VECTORS[targetSide].x, y: -SIDE_VECTORS[targetSide].y });
+
+  const cost = new Map<number, number>();
+  const previous = new Map<number, number>();
+  const heap = new MinHeap();
+  const startState = startCell * 4 + startDir;
+  const estimate = (p: Point) => Math.abs(p.x - to.x) + Math.abs(p.y - to.y);
+  cost.set(startState, 0);
+  heap.push(startState, estimate(from));
+
+  while (heap.size > 0) {
+    const state = heap.pop();
+    const cell = Math.floor(state / 4);
+    const dir = state % 4;
+    const here = point(cell);
+    const spent = cost.get(state)!;
+
+    if (cell === goalCell) {
+      const path: Point[] = [];
+      for (let s: number | undefined = state; s !== undefined; s = previous.get(s)) path.unshift(point(Math.floor(s / 4)));
+      return path;
+    }
+
+    steps.forEach((step, nextDir) => {
+      if (nextDir === (dir + 2) % 4) return; // No doubling back
+      const col = cell % cols + step.dx;
+      const row = Math.floor(cell / cols) + step.dy;
+      if (col < 0 || col >= cols || row < 0 || row >= ys.length) return;
+      const nextCell = row * cols + col;
+      const next = point(nextCell);
+      if (!free(next) || blocking.some(r => crosses(r, here, next))) return;
+
+      let nextCost = spent + Math.abs(next.x - here.x) + Math.abs(next.y - here.y) + (nextDir !== dir ? BEND_COST : 0);
+      if (nextCell === goalCell && nextDir !== goalDir) nextCost += BEND_COST;
+      const nextState = nextCell * 4 + nextDir;
+      if (nextCost >= (cost.get(nextState) ?? Infinity)) return;
+      cost.set(nextState, nextCost);
+      previous.set(nextState, state);
+      heap.push(nextState, nextCost + estimate(next));
+    });
+  }
+  return null;
+}
+
+// Whether an axis-aligned segment runs through the inside of the box
+function crosses(r: Rect, a: Point, b: Point): boolean {
+  if (a.y === b.y) {
+    return a.y > r.minY && a.y < r.maxY && Math.max(a.x, b.x) > r.minX && Math.min(a.x, b.x) < r.maxX;
+  }
+  return a.x > r.minX && a.x < r.maxX && Math.max(a.y, b.y) > r.minY && Math.min(a.y, b.y) < r.maxY;
+}
+
+function contains(outer: Rect, inner: Rect): boolean {
+  return outer.minX <= inner.minX && outer.minY <= inner.minY && outer.maxX >= inner.maxX && outer.maxY >= inner.maxY;
+}
+
+function inflate(r: Rect, by: number): Rect {
+  return { id: r.id, minX: r.minX - by, minY: r.minY - by, maxX: r.maxX + by, maxY: r.maxY + by };
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+// Drops repeated points and the middle of straight runs
+function simplify(points: Point[]): Point[] {
+  const result: Point[] = [];
+  points.forEach(p => {
+    const last = result[result.length - 1];
+    if (last && last.x === p.x && last.y === p.y) return;
+    const beforeLast = result[result.length - 2];
+    if (beforeLast && ((beforeLast.x === last.x && last.x === p.x) || (beforeLast.y === last.y && last.y === p.y))) {
+      result[result.length - 1] = p;
+      return;
+    }
+    result.push(p);
+  });
+  return result;
+}
+
+class MinHeap {
+  private items: { value: number; priority: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(value: number, priority: number) {
+    const items = this.items;
+    items.push({ value, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = i * 2 + 1, right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top.value;
+  }
+}
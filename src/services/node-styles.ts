@@ -0,0 +1,106 @@
+import { ChartNode } from './chart-state.service';
+import { ChartTheme, themeNodeStyle, markOverrides } from './chart-themes';
+
+// The look of a node apart from its content: colours, border, corners, font
+// settings and shape. Each node type only renders some of these, so copying
+// or bulk-editing across types carries over what each understands and leaves the rest.
+// Properties a node leaves unset look like its theme's default, so styles are
+// read and compared with those filled in.
+
+export type StyleProp =
+  | 'backgroundColor' | 'borderColor' | 'borderWidth' | 'borderRadius'
+  | 'nameColor' | 'roleColor' | 'departmentColor'
+  | 'fontSize' | 'fontFamily' | 'fontWeight' | 'fontStyle' | 'textDecoration' | 'textAlign'
+  | 'shapeType';
+
+// Copied look; styleOverrides says which theme colours were picked by hand on the source
+export type NodeStyle = Partial<Pick<ChartNode, StyleProp | 'styleOverrides'>>;
+
+const PERSON_PROPS: StyleProp[] = ['backgroundColor', 'borderColor', 'borderWidth', 'nameColor', 'roleColor', 'departmentColor'];
+
+// What the canvas actually draws for each type
+const STYLE_PROPS: Record<ChartNode['type'], StyleProp[]> = {
+  executive: PERSON_PROPS,
+  manager: PERSON_PROPS,
+  employee: PERSON_PROPS,
+  note: ['backgroundColor', 'nameColor'],
+  shape: ['backgroundColor', 'borderColor', 'borderWidth', 'borderRadius', 'nameColor', 'shapeType'],
+  group: ['backgroundColor', 'borderColor', 'nameColor'],
+  text: ['backgroundColor', 'borderColor', 'borderWidth', 'borderRadius', 'nameColor', 'fontSize', 'fontFamily', 'fontWeight', 'fontStyle', 'textDecoration', 'textAlign']
+};
+
+const ALL_STYLE_PROPS = new Set<keyof ChartNode>(Object.values(STYLE_PROPS).flat());
+
+// Content only person cards show
+const PERSON_TYPES: ChartNode['type'][] = ['executive', 'manager', 'employee'];
+const PERSON_PROPS_ONLY: (keyof ChartNode)[] = ['role', 'department', 'level', 'avatarType', 'avatarImage', 'avatarIcon', 'cardTemplate', 'fields'];
+
+// Font stacks offered for text boxes
+export const FONT_FAMILIES: { value: string; label: string }[] = [
+  { value: 'sans-serif', label: 'Sans Serif' },
+  { value: 'serif', label: 'Serif' },
+  { value: 'monospace', label: 'Monospace' },
+  { value: "'Courier New', Courier, monospace", label: 'Courier' },
+  { value: "'Times New Roman', Times, serif", label: 'Times New Roman' },
+  { value: "'Brush Script MT', cursive", label: 'Handwriting' }
+];
+
+/** Whether a node of this type uses the property: style it draws, people-only content on people, anything else everywhere. */
+export function appliesTo(type: ChartNode['type'], prop: keyof ChartNode): boolean {
+  if (ALL_STYLE_PROPS.has(prop)) return (STYLE_PROPS[type] as (keyof ChartNode)[]).includes(prop);
+  if (PERSON_PROPS_ONLY.includes(prop)) return PERSON_TYPES.includes(type);
+  return true;
+}
+
+/**
+ * The node's style, limited to what its type draws. Every such property is
+ * listed: unset ones take the theme's value, or stay undefined so pasting
+ * clears them on the target too.
+ */
+export function nodeStyle(node: ChartNode, theme: ChartTheme): NodeStyle {
+  const style: Record<string, unknown> = { styleOverrides: node.styleOverrides || [] };
+  STYLE_PROPS[node.type].forEach(prop => style[prop] = resolved(node, prop, theme));
+  return style as NodeStyle;
+}
+
+/**
+ * The node with the parts of `style` its type draws; null when nothing would
+ * change. Theme colours the source picked by hand (or that differ from this
+ * node's theme default) stay picked; the rest follow the theme.
+ */
+export function withStyle(node: ChartNode, style: NodeStyle, theme: ChartTheme): ChartNode | null {
+  const defaults = themeNodeStyle(theme, node.type);
+  const result: Record<string, unknown> = { ...node };
+  const picked: string[] = style.styleOverrides || [];
+  const marks: Partial<Record<keyof ChartNode, boolean>> = {};
+  let changed = false;
+  STYLE_PROPS[node.type].forEach(prop => {
+    if (!(prop in style)) return; // The source doesn't draw it
+    const value = style[prop] ?? defaults[prop];
+    if (value !== node[prop]) changed = true;
+    if (value === undefined) delete result[prop]; else result[prop] = value;
+    marks[prop] = picked.includes(prop) || (value !== undefined && value !== defaults[prop]);
+  });
+  const restyled = result as unknown as ChartNode;
+  const styled = markOverrides(restyled, marks);
+  return changed || styled !== restyled ? styled : null;
+}
+
+/**
+ * Whether two nodes look alike: same kind of node (people count as one) and
+ * the same value for every property that kind draws, with unset ones at the
+ * theme's default. Colours compare without case.
+ */
+export function sameStyle(a: ChartNode, b: ChartNode, theme: ChartTheme): boolean {
+  const props = STYLE_PROPS[a.type];
+  if (props !== STYLE_PROPS[b.type]) return false;
+  return props.every(prop => normalize(resolved(a, prop, theme)) === normalize(resolved(b, prop, theme)));
+}
+
+function resolved(node: ChartNode, prop: StyleProp, theme: ChartTheme): unknown {
+  return node[prop] ?? themeNodeStyle(theme, node.type)[prop];
+}
+
+function normalize(value: unknown): string {
+  return value === undefined ? '' : String(value).toLowerCase();
+}
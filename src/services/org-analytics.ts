@@ -0,0 +1,110 @@
+import { ChartNode, ChartEdge, LEVELS } from './chart-state.service';
+import { withHierarchy, reportingLevels } from './chart-edges';
+import { levelRank } from './chart-search';
+
+// Figures about the people in a chart, computed from the reporting lines.
+// Every figure carries the ids behind it so the panel can select them.
+
+export interface SpanBounds {
+  min: number;
+  max: number;
+}
+
+export const DEFAULT_SPAN_BOUNDS: SpanBounds = { min: 2, max: 8 };
+
+export interface Metric {
+  label: string;
+  count: number;
+  ids: string[];
+}
+
+export interface ManagerMetric {
+  id: string;
+  name: string;
+  role: string;
+  directIds: string[];
+  totalIds: string[];
+}
+
+export interface OrgAnalytics {
+  people: Metric;
+  departments: Metric[];
+  managers: ManagerMetric[]; // Most people below them first
+  maxDepth: number;
+  averageDepth: number;
+  deepest: Metric; // People at the deepest level
+  levels: Metric[]; // P0–P7, then people without a level
+  spanTooNarrow: ManagerMetric[];
+  spanTooWide: ManagerMetric[];
+}
+
+const PERSON_TYPES: ChartNode['type'][] = ['executive', 'manager', 'employee'];
+
+export function computeOrgAnalytics(nodes: Map<string, ChartNode>, edges: ChartEdge[], bounds: SpanBounds): OrgAnalytics {
+  const hierarchy = withHierarchy(nodes, edges);
+  const people = Array.from(hierarchy.values()).filter(n => PERSON_TYPES.includes(n.type));
+  const ids = (list: ChartNode[]) => list.map(n => n.id);
+
+  // Headcount per department, largest first
+  const byDepartment = new Map<string, string[]>();
+  people.forEach(p => {
+    const key = p.department?.trim() || '';
+    byDepartment.set(key, [...(byDepartment.get(key) || []), p.id]);
+  });
+  const departments = Array.from(byDepartment, ([name, members]) => ({ label: name || 'Sin departamento', count: members.length, ids: members }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+  // Everyone with reports, or whose type says they should have them
+  const below = (id: string): string[] => {
+    const result: string[] = [];
+    const seen = new Set<string>([id]);
+    const stack = [...(hierarchy.get(id)?.children || [])];
+    while (stack.length > 0) {
+      const next = stack.pop()!;
+      if (seen.has(next)) continue;
+      seen.add(next);
+      result.push(next);
+      stack.push(...(hierarchy.get(next)?.children || []));
+    }
+    return result;
+  };
+  const managers: ManagerMetric[] = people
+    .filter(p => p.children!.length > 0 || p.type !== 'employee')
+    .map(p => ({ id: p.id, name: p.name, role: p.role, directIds: [...p.children!], totalIds: below(p.id) }))
+    .sort((a, b) => b.totalIds.length - a.totalIds.length || b.directIds.length - a.directIds.length);
+
+  // Depth: top managers are level 1
+  const depths = reportingLevels(nodes, edges);
+  const personDepths = people.map(p => depths.get(p.id)).filter((d): d is number => d !== undefined);
+  const maxDepth = personDepths.length ? Math.max(...personDepths) : 0;
+  const averageDepth = personDepths.length ? personDepths.reduce((sum, d) => sum + d, 0) / personDepths.length : 0;
+  const deepest = people.filter(p => maxDepth > 0 && depths.get(p.id) === maxDepth);
+
+  const levels: Metric[] = LEVELS.map((level, rank) => {
+    const matching = people.filter(p => levelRank(p.level) === rank);
+    return { label: level.split(' - ')[0], count: matching.length, ids: ids(matching) };
+  });
+  const withoutLevel = people.filter(p => levelRank(p.level) === null);
+  levels.push({ label: 'Sin nivel', count: withoutLevel.length, ids: ids(withoutLevel) });
+
+  return {
+    people: { label: 'Personas', count: people.length, ids: ids(people) },
+    departments,
+    managers,
+    maxDepth,
+    averageDepth,
+    deepest: { label: `Nivel ${maxDepth}`, count: deepest.length, ids: ids(deepest) },
+    levels,
+    spanTooNarrow: managers.filter(m => m.directIds.length < bounds.min),
+    spanTooWide: managers.filter(m => m.directIds.length > bounds.max)
+  };
+}
+
+/** Bounds as typed by the user, kept sane: whole numbers, min ≤ max. */
+export function normalizeSpanBounds(raw: Partial<SpanBounds> | null | undefined): SpanBounds {
+  const toCount = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.round(value)) : fallback;
+  const min = toCount(raw?.min, DEFAULT_SPAN_BOUNDS.min);
+  const max = toCount(raw?.max, DEFAULT_SPAN_BOUNDS.max);
+  return { min: Math.min(min, max), max: Math.max(min, max) };
+}
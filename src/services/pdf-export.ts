@@ -0,0 +1,232 @@
+import { ChartNode, NodePosition } from './chart-state.service';
+import { Bounds, defaultNodeSize, getPathBounds } from './chart-geometry';
+import { buildChartSvg, SvgExportContent } from './svg-export';
+import { renderCanvas, canvasToBlob, maxPngScale } from './png-export';
+import { buildPdf, PdfPage, PdfText } from './pdf-writer';
+
+// Printable PDF export. The chart is rendered through the SVG exporter and
+// rasterised page by page, so the output matches the other image formats.
+
+export type PaperSize = 'a4' | 'letter' | 'a3';
+export type PaperOrientation = 'portrait' | 'landscape';
+export type PdfMode = 'tiles' | 'groups';
+
+// Portrait sizes in points
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  letter: { label: 'Carta (Letter)', width: 612, height: 792 },
+  a3: { label: 'A3', width: 841.89, height: 1190.55 }
+};
+
+export interface PdfExportOptions {
+  paper: PaperSize;
+  orientation: PaperOrientation;
+  mode: PdfMode;
+  /** Print scale for tiled pages; 1 prints the chart at its on-screen size. */
+  scale: number;
+  /** Content repeated on neighbouring tiles, in millimetres. */
+  overlapMm: number;
+  pageNumbers: boolean;
+  titleBlock: boolean;
+  title: string;
+  date: Date;
+}
+
+/** One page worth of chart: a world area, or a subset of nodes fitted to the page. */
+export interface PdfSheet {
+  label: string;
+  frame?: Bounds;
+  nodeIds?: Set<string>;
+  drawingIds?: Set<string>;
+}
+
+const PT_PER_PX = 0.75;   // CSS px are 1/96in, points are 1/72in
+const PT_PER_MM = 72 / 25.4;
+const MARGIN = 28;        // ~10mm
+const TITLE_HEIGHT = 34;
+const FOOTER_HEIGHT = 18;
+const PRINT_DPI = 200;
+const SHEET_PADDING = 24; // world px around fitted content
+const MAX_FIT_SCALE = 1.5;
+
+export function pageSize(options: Pick<PdfExportOptions, 'paper' | 'orientation'>): { width: number; height: number } {
+  const paper = PAPER_SIZES[options.paper];
+  return options.orientation === 'portrait'
+    ? { width: paper.width, height: paper.height }
+    : { width: paper.height, height: paper.width };
+}
+
+/** Printable area of a page, below the title block and above the footer. */
+export function contentArea(options: PdfExportOptions): { x: number; y: number; width: number; height: number } {
+  const page = pageSize(options);
+  const top = MARGIN + (options.titleBlock ? TITLE_HEIGHT : 0);
+  const bottom = MARGIN + (options.pageNumbers ? FOOTER_HEIGHT : 0);
+  return { x: MARGIN, y: top, width: page.width - MARGIN * 2, height: page.height - top - bottom };
+}
+
+/** Splits the content bounds into overlapping page-sized tiles, row by row. */
+export function planTiles(bounds: Bounds, options: PdfExportOptions): PdfSheet[] {
+  const area = contentArea(options);
+  const worldPerPt = 1 / (PT_PER_PX * options.scale);
+  const tileW = area.width * worldPerPt;
+  const tileH = area.height * worldPerPt;
+  // Never let the overlap eat the whole tile
+  const overlap = Math.min(options.overlapMm * PT_PER_MM * worldPerPt, tileW / 2, tileH / 2);
+  const stepX = tileW - overlap;
+  const stepY = tileH - overlap;
+  const cols = Math.max(1, Math.ceil((bounds.width - overlap) / stepX));
+  const rows = Math.max(1, Math.ceil((bounds.height - overlap) / stepY));
+
+  // Centre the content on the tile grid
+  const originX = bounds.minX - (cols * stepX + overlap - bounds.width) / 2;
+  const originY = bounds.minY - (rows * stepY + overlap - bounds.height) / 2;
+
+  const sheets: PdfSheet[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const minX = originX + c * stepX;
+      const minY = originY + r * stepY;
+      sheets.push({
+        label: rows * cols > 1 ? `Fila ${r + 1} · Columna ${c + 1}` : '',
+        frame: { minX, minY, maxX: minX + tileW, maxY: minY + tileH, width: tileW, height: tileH }
+      });
+    }
+  }
+  return sheets;
+}
+
+/**
+ * One sheet per department group with the nodes and drawings that sit inside
+ * it, plus a last sheet for whatever is outside every group.
+ */
+export function planGroupSheets(nodes: Map<string, ChartNode>, positions: Map<string, NodePosition>, drawings: { id: string; path: string }[]): PdfSheet[] {
+  const boxOf = (node: ChartNode) => {
+    const pos = positions.get(node.id)!;
+    const size = defaultNodeSize(node.type);
+    return { x: pos.x, y: pos.y, w: pos.width || size.width, h: pos.height || size.height };
+  };
+  const contains = (box: { x: number; y: number; w: number; h: number }, cx: number, cy: number) =>
+    cx >= box.x && cx <= box.x + box.w && cy >= box.y && cy <= box.y + box.h;
+
+  const groups = Array.from(nodes.values())
+    .filter(n => n.type === 'group' && positions.has(n.id))
+    .map(n => ({ node: n, box: boxOf(n) }))
+    .sort((a, b) => a.box.y - b.box.y || a.box.x - b.box.x);
+
+  const assigned = new Set<string>();
+  const assignedDrawings = new Set<string>();
+  const sheets: PdfSheet[] = groups.map(({ node, box }) => {
+    const nodeIds = new Set<string>([node.id]);
+    nodes.forEach(other => {
+      if (other.type === 'group' || !positions.has(other.id)) return;
+      const b = boxOf(other);
+      if (contains(box, b.x + b.w / 2, b.y + b.h / 2)) nodeIds.add(other.id);
+    });
+    const drawingIds = new Set<string>();
+    drawings.forEach(d => {
+      const b = getPathBounds(d.path);
+      if (b && contains(box, b.x + b.w / 2, b.y + b.h / 2)) drawingIds.add(d.id);
+    });
+    nodeIds.forEach(id => assigned.add(id));
+    drawingIds.forEach(id => assignedDrawings.add(id));
+    return { label: node.name || 'Área sin nombre', nodeIds, drawingIds };
+  });
+
+  const restNodes = new Set(Array.from(nodes.keys()).filter(id => positions.has(id) && !assigned.has(id)));
+  const restDrawings = new Set(drawings.filter(d => !assignedDrawings.has(d.id)).map(d => d.id));
+  if (restNodes.size > 0 || restDrawings.size > 0) {
+    sheets.push({ label: 'Fuera de las áreas', nodeIds: restNodes, drawingIds: restDrawings });
+  }
+  return sheets;
+}
+
+/** Pages for the chosen mode; empty when there is nothing to print. */
+export function planSheets(content: SvgExportContent, options: PdfExportOptions): PdfSheet[] {
+  if (options.mode === 'groups') {
+    return planGroupSheets(content.nodes, content.positions, content.drawings);
+  }
+  // Measure what will actually be drawn (cards grow with their text)
+  const rendered = buildChartSvg(content, { padding: SHEET_PADDING, background: null, theme: 'light' });
+  return rendered ? planTiles(rendered.bounds, options) : [];
+}
+
+/** Renders the sheets into a PDF. `onProgress` is called after each page. */
+export async function buildChartPdf(
+  content: SvgExportContent,
+  sheets: PdfSheet[],
+  options: PdfExportOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const page = pageSize(options);
+  const area = contentArea(options);
+  const pages: PdfPage[] = [];
+
+  for (const sheet of sheets) {
+    const svg = buildChartSvg({
+      ...content,
+      nodeIds: sheet.nodeIds ?? content.nodeIds,
+      drawingIds: sheet.drawingIds ?? content.drawingIds
+    }, {
+      padding: SHEET_PADDING,
+      background: '#ffffff',
+      theme: 'light',
+      frame: sheet.frame
+    });
+
+    const texts: PdfText[] = [];
+    const pdfPage: PdfPage = { width: page.width, height: page.height, texts };
+
+    if (svg) {
+      // Tiles keep the chosen print scale; fitted sheets shrink (or grow a little) to the page
+      const ptPerWorld = sheet.frame
+        ? PT_PER_PX * options.scale
+        : Math.min(area.width / svg.width, area.height / svg.height, MAX_FIT_SCALE * PT_PER_PX);
+      const width = svg.width * ptPerWorld;
+      const height = svg.height * ptPerWorld;
+      const rasterScale = Math.min(ptPerWorld * PRINT_DPI / 72, maxPngScale(svg.width, svg.height));
+      const canvas = await renderCanvas(svg, rasterScale);
+      const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+
+      pdfPage.image = {
+        jpeg,
+        pixelWidth: canvas.width,
+        pixelHeight: canvas.height,
+        x: area.x + (sheet.frame ? 0 : (area.width - width) / 2),
+        y: area.y + (sheet.frame ? 0 : (area.height - height) / 2),
+        width,
+        height
+      };
+    }
+
+    if (options.titleBlock) {
+      const date = options.date.toLocaleDateString('es', { year: 'numeric', month: 'long', day: 'numeric' });
+      texts.push({ x: MARGIN, y: MARGIN + 14, size: 14, bold: true, text: options.title || 'Organigrama' });
+      texts.push({ x: page.width - MARGIN - textWidth(date, 9), y: MARGIN + 14, size: 9, text: date, color: [0.39, 0.45, 0.55] });
+      pdfPage.lines = [[MARGIN, MARGIN + TITLE_HEIGHT - 10, page.width - MARGIN, MARGIN + TITLE_HEIGHT - 10]];
+    }
+
+    if (options.pageNumbers) {
+      const footerY = page.height - MARGIN;
+      const number = `Página ${pages.length + 1} de ${sheets.length}`;
+      texts.push({ x: page.width - MARGIN - textWidth(number, 8), y: footerY, size: 8, text: number, color: [0.39, 0.45, 0.55] });
+      if (sheet.label) texts.push({ x: MARGIN, y: footerY, size: 8, text: sheet.label, color: [0.39, 0.45, 0.55] });
+    }
+
+    pages.push(pdfPage);
+    onProgress?.(pages.length, sheets.length);
+  }
+
+  return buildPdf(pages, options.title);
+}
+
+// Helvetica metrics are close enough to Arial for right-aligning short labels
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+function textWidth(text: string, size: number): number {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+  }
+  if (!measureContext) return text.length * size * 0.5;
+  measureContext.font = `${size}px Helvetica, Arial, sans-serif`;
+  return measureContext.measureText(text).width;
+}
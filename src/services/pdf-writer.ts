@@ -0,0 +1,152 @@
+// Minimal PDF 1.4 writer: pages with one JPEG image each plus lines of text in
+// the standard Helvetica fonts. Enough for printable exports without pulling in
+// a PDF library. Coordinates are in points with the origin at the top-left.
+
+export interface PdfText {
+  x: number;
+  y: number; // baseline
+  size: number;
+  text: string;
+  bold?: boolean;
+  color?: [number, number, number]; // 0..1
+}
+
+export interface PdfImage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  image?: PdfImage;
+  texts: PdfText[];
+  /** Thin frame lines (e.g. crop marks), as [x1, y1, x2, y2]. */
+  lines?: [number, number, number, number][];
+}
+
+export function buildPdf(pages: PdfPage[], title = ''): Blob {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const push = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? latin1(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n`);
+  };
+
+  // Fixed objects: 1 catalog, 2 page tree, 3 regular font, 4 bold font, 5 info
+  const firstPageObject = 6;
+  const pageIds = pages.map((_, i) => firstPageObject + i * 3);
+
+  push('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  startObject(1);
+  push('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject(2);
+  push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+  startObject(3);
+  push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n');
+  startObject(4);
+  push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>\nendobj\n');
+  startObject(5);
+  push(`<< /Title (${escapeText(title)}) /Producer (ChartFlow) /CreationDate (D:${pdfDate(new Date())}) >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+
+    startObject(pageId);
+    const xObjects = page.image ? ` /XObject << /Im1 ${imageId} 0 R >>` : '';
+    push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+    const content = pageContent(page);
+    startObject(contentId);
+    push(`<< /Length ${content.length} >>\nstream\n`);
+    push(content);
+    push('\nendstream\nendobj\n');
+
+    // Keep object numbering regular even when the page has no image
+    startObject(imageId);
+    if (page.image) {
+      push(`<< /Type /XObject /Subtype /Image /Width ${page.image.pixelWidth} /Height ${page.image.pixelHeight} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.image.jpeg.length} >>\nstream\n`);
+      push(page.image.jpeg);
+      push('\nendstream\nendobj\n');
+    } else {
+      push('null\nendobj\n');
+    }
+  });
+
+  const objectCount = firstPageObject + pages.length * 3;
+  const xrefOffset = length;
+  push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  push(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
+
+function pageContent(page: PdfPage): string {
+  const ops: string[] = [];
+  // PDF space starts at the bottom-left
+  const flipY = (y: number) => num(page.height - y);
+
+  if (page.image) {
+    const img = page.image;
+    ops.push(`q ${num(img.width)} 0 0 ${num(img.height)} ${num(img.x)} ${flipY(img.y + img.height)} cm /Im1 Do Q`);
+  }
+
+  if (page.lines?.length) {
+    ops.push('q 0.5 w 0.6 0.65 0.7 RG');
+    page.lines.forEach(([x1, y1, x2, y2]) => ops.push(`${num(x1)} ${flipY(y1)} m ${num(x2)} ${flipY(y2)} l S`));
+    ops.push('Q');
+  }
+
+  page.texts.forEach(t => {
+    const [r, g, b] = t.color || [0.12, 0.16, 0.23];
+    ops.push(`BT /${t.bold ? 'F2' : 'F1'} ${num(t.size)} Tf ${num(r)} ${num(g)} ${num(b)} rg ${num(t.x)} ${flipY(t.y)} Td (${escapeText(t.text)}) Tj ET`);
+  });
+
+  return ops.join('\n');
+}
+
+// WinAnsi covers Latin-1, which is all the Spanish UI needs; anything else becomes '?'
+function escapeText(text: string): string {
+  return Array.from(text)
+    .map(c => c.charCodeAt(0) <= 0xff && c.length === 1 ? c : '?')
+    .join('')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)')
+    .replace(/[\r\n]+/g, ' ');
+}
+
+function latin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+function num(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+function pdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
@@ -0,0 +1,53 @@
+import { RenderedSvg } from './svg-export';
+
+// Rasterises an exported SVG in the browser; nothing leaves the machine
+
+export const PNG_SCALES = [1, 2, 4];
+
+// Conservative canvas limits that hold across current browsers
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384;
+
+/** Largest scale factor the browser can rasterise a document of this size at. */
+export function maxPngScale(width: number, height: number): number {
+  if (width <= 0 || height <= 0) return 0;
+  return Math.min(MAX_CANVAS_SIDE / width, MAX_CANVAS_SIDE / height, Math.sqrt(MAX_CANVAS_AREA / (width * height)));
+}
+
+/** Draws the SVG onto a new canvas `scale` times its pixel size. */
+export async function renderCanvas(svg: RenderedSvg, scale: number): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(new Blob([svg.markup], { type: 'image/svg+xml' }));
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(svg.width * scale));
+    canvas.height = Math.max(1, Math.round(svg.height * scale));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    // Transparent unless the SVG paints its own background
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: 'image/png' | 'image/jpeg', quality?: number): Promise<Blob> {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`${type} encoding failed`)), type, quality);
+  });
+}
+
+export async function renderPng(svg: RenderedSvg, scale: number): Promise<Blob> {
+  return canvasToBlob(await renderCanvas(svg, scale), 'image/png');
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('SVG could not be loaded as an image'));
+    image.src = url;
+  });
+}
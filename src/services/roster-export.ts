@@ -0,0 +1,83 @@
+import { ChartNode, NodePosition, FieldDefinition } from './chart-state.service';
+
+// Flattens the reporting hierarchy into spreadsheet rows
+
+export const PERSON_TYPES: ChartNode['type'][] = ['executive', 'manager', 'employee'];
+
+export const ROSTER_HEADER = [
+  'id', 'name', 'role', 'department', 'level', 'manager_id', 'manager_name', 'depth', 'direct_reports', 'total_reports'
+];
+
+export const OTHER_NODES_HEADER = ['id', 'type', 'text', 'department', 'x', 'y', 'width', 'height'];
+
+/**
+ * One row per person, ordered top-down (each manager followed by their reports).
+ * Custom fields follow the fixed columns, headed by their label so the file imports back.
+ */
+export function buildRosterRows(nodes: Map<string, ChartNode>, fields: FieldDefinition[] = []): (string | number)[][] {
+  const people = Array.from(nodes.values()).filter(n => PERSON_TYPES.includes(n.type));
+  const personIds = new Set(people.map(p => p.id));
+  const parentOf = new Map<string, string>();
+  people.forEach(p => p.children?.forEach(c => {
+    if (personIds.has(c)) parentOf.set(c, p.id);
+  }));
+
+  const reportsOf = (id: string) => (nodes.get(id)?.children || []).filter(c => personIds.has(c));
+  const totalReports = new Map<string, number>();
+  const countTotal = (id: string, visiting: Set<string>): number => {
+    if (totalReports.has(id)) return totalReports.get(id)!;
+    if (visiting.has(id)) return 0; // Defensive: malformed data with a cycle
+    visiting.add(id);
+    const total = reportsOf(id).reduce((sum, c) => sum + 1 + countTotal(c, visiting), 0);
+    totalReports.set(id, total);
+    return total;
+  };
+
+  const rows: (string | number)[][] = [[...ROSTER_HEADER, ...fields.map(f => f.label)]];
+  const visited = new Set<string>();
+  const visit = (id: string, depth: number) => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    const node = nodes.get(id)!;
+    const manager = parentOf.has(id) ? nodes.get(parentOf.get(id)!) : undefined;
+    rows.push([
+      node.id,
+      node.name,
+      node.role,
+      node.department || '',
+      node.level || '',
+      manager?.id || '',
+      manager?.name || '',
+      depth,
+      reportsOf(id).length,
+      countTotal(id, new Set()),
+      ...fields.map(f => node.fields?.[f.id] || '')
+    ]);
+    reportsOf(id).forEach(c => visit(c, depth + 1));
+  };
+
+  people.filter(p => !parentOf.has(p.id)).forEach(root => visit(root.id, 0));
+  // Anything left over sits in a cycle; still export it rather than dropping people
+  people.forEach(p => visit(p.id, 0));
+  return rows;
+}
+
+/** Notes, shapes, text boxes and groups, for the separate "other elements" sheet. */
+export function buildOtherNodesRows(nodes: Map<string, ChartNode>, positions: Map<string, NodePosition>): (string | number)[][] {
+  const rows: (string | number)[][] = [OTHER_NODES_HEADER];
+  nodes.forEach(node => {
+    if (PERSON_TYPES.includes(node.type)) return;
+    const pos = positions.get(node.id);
+    rows.push([
+      node.id,
+      node.type,
+      node.name,
+      node.department || '',
+      pos ? Math.round(pos.x) : '',
+      pos ? Math.round(pos.y) : '',
+      pos?.width ? Math.round(pos.width) : '',
+      pos?.height ? Math.round(pos.height) : ''
+    ]);
+  });
+  return rows;
+}
@@ -0,0 +1,222 @@
+import { FieldDefinition } from './chart-state.service';
+import { parseFieldValue } from './chart-fields';
+import { unprotectCell } from './csv';
+
+// Turns spreadsheet rows (one person per row) into a reporting hierarchy
+
+export type RosterField = 'id' | 'name' | 'role' | 'department' | 'level' | 'email' | 'manager';
+
+export const ROSTER_FIELDS: { id: RosterField; label: string; required?: boolean }[] = [
+  { id: 'name', label: 'Nombre', required: true },
+  { id: 'role', label: 'Rol / Puesto' },
+  { id: 'department', label: 'Departamento' },
+  { id: 'level', label: 'Nivel' },
+  { id: 'id', label: 'ID de Empleado' },
+  { id: 'email', label: 'Email' },
+  { id: 'manager', label: 'Manager (ID o Email)' }
+];
+
+// Column index per field; -1 or missing means "not mapped". Custom fields go by field id
+export type ColumnMapping = Partial<Record<RosterField, number>> & { fields?: Record<string, number> };
+
+export interface RosterPerson {
+  row: number; // 1-based row in the source file, for the report
+  id: string;
+  name: string;
+  role: string;
+  department: string;
+  level: string;
+  email: string;
+  managerId: string | null; // Resolved id of the manager inside the roster
+  fields: Record<string, string>; // Custom field values, already in canonical form
+}
+
+export interface RosterIssue {
+  severity: 'error' | 'warning';
+  row: number;
+  message: string;
+}
+
+export interface RosterPreview {
+  people: RosterPerson[];
+  issues: RosterIssue[];
+  departments: string[];
+  rootCount: number;
+}
+
+// Header keywords (English and Spanish) used to pre-fill the mapping step
+const HEADER_HINTS: Record<RosterField, string[]> = {
+  id: ['id', 'employee id', 'employeeid', 'emp id', 'legajo', 'id empleado', 'numero'],
+  name: ['name', 'full name', 'nombre', 'nombre completo', 'empleado'],
+  role: ['role', 'title', 'job title', 'position', 'rol', 'puesto', 'cargo'],
+  department: ['department', 'dept', 'team', 'departamento', 'area', 'área', 'equipo'],
+  level: ['level', 'grade', 'band', 'nivel', 'banda'],
+  email: ['email', 'e-mail', 'mail', 'correo'],
+  manager: ['manager', 'manager id', 'manager email', 'reports to', 'supervisor', 'jefe', 'responsable', 'reporta a']
+};
+
+/** Columns some field reads from. */
+export function mappedColumns(mapping: ColumnMapping): Set<number> {
+  const { fields, ...builtIn } = mapping;
+  return new Set([...Object.values(builtIn), ...Object.values(fields || {})].filter((i): i is number => i !== undefined && i >= 0));
+}
+
+export function guessMapping(headers: string[], customFields: FieldDefinition[] = []): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(h => h.trim().toLowerCase());
+
+  (Object.keys(HEADER_HINTS) as RosterField[]).forEach(field => {
+    const index = normalized.findIndex((h, i) =>
+      HEADER_HINTS[field].includes(h) && !Object.values(mapping).includes(i)
+    );
+    if (index >= 0) mapping[field] = index;
+  });
+
+  // Fall back to partial matches for headers such as "Manager Email Address"
+  (Object.keys(HEADER_HINTS) as RosterField[]).forEach(field => {
+    if (mapping[field] !== undefined) return;
+    const index = normalized.findIndex((h, i) =>
+      HEADER_HINTS[field].some(hint => h.includes(hint)) && !Object.values(mapping).includes(i)
+    );
+    if (index >= 0) mapping[field] = index;
+  });
+
+  // Custom fields by their name; they may share a column with a built-in one (e.g. the email)
+  const fields: Record<string, number> = {};
+  customFields.forEach(field => {
+    const names = [field.label.trim().toLowerCase(), field.id];
+    const index = normalized.findIndex((h, i) => names.includes(h) && !Object.values(fields).includes(i));
+    if (index >= 0) fields[field.id] = index;
+  });
+  if (Object.keys(fields).length > 0) mapping.fields = fields;
+
+  return mapping;
+}
+
+/**
+ * Builds the people list and reports duplicates, unknown managers and cycles.
+ * Rows with errors are skipped; the rest can be committed as-is.
+ * @param existingIds Ids already on the canvas (when merging) that imported ids must not reuse.
+ * @param levels Canonical level labels, so "P5" in the file becomes "P5 - Asegurar, Asesorar".
+ * @param customFields Schema the `fields` part of the mapping refers to; values that don't fit their type are dropped with a warning.
+ */
+export function buildRosterPreview(
+  rows: string[][],
+  mapping: ColumnMapping,
+  hasHeader: boolean,
+  levels: string[],
+  existingIds: Set<string> = new Set(),
+  customFields: FieldDefinition[] = []
+): RosterPreview {
+  const issues: RosterIssue[] = [];
+  const people: RosterPerson[] = [];
+  const managerRefs = new Map<string, string>(); // person id -> raw manager reference
+  const seenIds = new Set<string>();
+  const cell = (row: string[], field: RosterField) => {
+    const index = mapping[field];
+    return index === undefined || index < 0 ? '' : unprotectCell((row[index] || '').trim());
+  };
+
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const firstRowNumber = hasHeader ? 2 : 1;
+
+  dataRows.forEach((row, i) => {
+    const rowNumber = firstRowNumber + i;
+    const name = cell(row, 'name');
+    if (!name) {
+      issues.push({ severity: 'error', row: rowNumber, message: 'Fila sin nombre; se omitirá.' });
+      return;
+    }
+
+    const email = cell(row, 'email');
+    const id = cell(row, 'id') || email || `row-${rowNumber}`;
+    if (seenIds.has(id)) {
+      issues.push({ severity: 'error', row: rowNumber, message: `ID duplicado "${id}"; se omitirá esta fila.` });
+      return;
+    }
+    if (existingIds.has(id)) {
+      issues.push({ severity: 'error', row: rowNumber, message: `El ID "${id}" ya existe en el lienzo; se omitirá esta fila.` });
+      return;
+    }
+    seenIds.add(id);
+
+    const fields: Record<string, string> = {};
+    customFields.forEach(field => {
+      const index = mapping.fields?.[field.id];
+      const raw = index === undefined || index < 0 ? '' : unprotectCell((row[index] || '').trim());
+      if (!raw) return;
+      const value = parseFieldValue(field, raw);
+      if (value === null) {
+        issues.push({ severity: 'warning', row: rowNumber, message: `"${raw}" no es un valor válido para ${field.label}; se omitirá.` });
+      } else {
+        fields[field.id] = value;
+      }
+    });
+
+    people.push({
+      row: rowNumber,
+      id,
+      name,
+      role: cell(row, 'role'),
+      department: cell(row, 'department'),
+      level: normalizeLevel(cell(row, 'level'), levels),
+      email,
+      managerId: null,
+      fields
+    });
+    const managerRef = cell(row, 'manager');
+    if (managerRef) managerRefs.set(id, managerRef);
+  });
+
+  // Resolve manager references by id first, then by email (case-insensitive)
+  const byId = new Map(people.map(p => [p.id, p]));
+  const byEmail = new Map(people.filter(p => p.email).map(p => [p.email.toLowerCase(), p]));
+
+  people.forEach(person => {
+    const ref = managerRefs.get(person.id);
+    if (!ref) return;
+    const manager = byId.get(ref) || byEmail.get(ref.toLowerCase());
+    if (!manager) {
+      issues.push({ severity: 'warning', row: person.row, message: `Manager desconocido "${ref}"; ${person.name} quedará sin manager.` });
+    } else if (manager.id === person.id) {
+      issues.push({ severity: 'warning', row: person.row, message: `${person.name} figura como su propio manager; se ignorará.` });
+    } else {
+      person.managerId = manager.id;
+    }
+  });
+
+  // Detect reporting cycles and break them at the row where they are found
+  people.forEach(person => {
+    const chain: string[] = [person.id];
+    let current = person.managerId ? byId.get(person.managerId) : undefined;
+    while (current) {
+      if (current.id === person.id) {
+        const names = chain.map(id => byId.get(id)!.name).join(' → ');
+        issues.push({ severity: 'error', row: person.row, message: `Ciclo de reporte: ${names} → ${person.name}. Se eliminó el manager de ${person.name}.` });
+        person.managerId = null;
+        break;
+      }
+      if (chain.includes(current.id)) break; // Cycle higher up, reported from its own members
+      chain.push(current.id);
+      current = current.managerId ? byId.get(current.managerId) : undefined;
+    }
+  });
+
+  const departments = Array.from(new Set(people.map(p => p.department).filter(Boolean))).sort();
+  const rootCount = people.filter(p => !p.managerId).length;
+  if (people.length > 0 && rootCount > 1) {
+    issues.push({ severity: 'warning', row: 0, message: `Hay ${rootCount} personas sin manager; el organigrama tendrá varias raíces.` });
+  }
+
+  issues.sort((a, b) => a.row - b.row);
+  return { people, issues, departments, rootCount };
+}
+
+function normalizeLevel(raw: string, levels: string[]): string {
+  if (!raw) return '';
+  const code = raw.trim().toUpperCase().match(/^P\s*([0-7])\b/);
+  if (code) {
+    return levels.find(l => l.startsWith(`P${code[1]} `)) || raw;
+  }
+  return levels.find(l => l.toLowerCase() === raw.toLowerCase()) || raw;
+}
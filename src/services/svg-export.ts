@@ -0,0 +1,546 @@
+import { ChartNode, NodePosition, Drawing, ChartEdge, FieldDefinition } from './chart-state.service';
+import { SHAPE_POLYGONS, defaultNodeSize, getContentBounds, getPathBounds, getPathMidpoint, Bounds, LayoutFlow } from './chart-geometry';
+import { resolveEdgeStyle } from './chart-edges';
+import { routeEdges } from './edge-routing';
+import { ConnectorStyle } from './chart-layout';
+import { cardFieldRows } from './chart-fields';
+import { CardDesign, CardStyle, CardTemplate, RuleStyle, DEFAULT_CARD_DESIGN, DEFAULT_BADGE_COLOR, compileRules, cardStyleFor, cardFieldsFor, styleLegend, badgeTextColor } from './card-styles';
+import { ChartTheme, DEFAULT_FONT } from './chart-themes';
+
+// Renders the chart as a standalone SVG document. The markup mirrors the
+// templates in ChartNodeComponent closely enough that an exported chart looks
+// like the canvas, but only uses plain SVG so it scales cleanly anywhere.
+
+export type ExportTheme = 'light' | 'dark';
+
+export interface SvgExportOptions {
+  padding: number;
+  /** Fill behind the chart; null keeps it transparent. */
+  background: string | null;
+  theme: ExportTheme;
+  /** Exact world area to draw (e.g. the viewport); defaults to the content bounds plus padding. */
+  frame?: Bounds;
+}
+
+export interface SvgExportContent {
+  nodes: Map<string, ChartNode>;
+  positions: Map<string, NodePosition>;
+  drawings: Drawing[];
+  edges: ChartEdge[];
+  /** Connector direction of the chart's layout. */
+  flow?: LayoutFlow;
+  /** Chart-wide connector style, for edges that don't pick their own. */
+  connectorStyle?: ConnectorStyle;
+  /** Draws dotted-line (secondary) managers above the cards, as matrix charts do. */
+  overlaySecondary?: boolean;
+  /** Restricts the output to these nodes and drawings (selection export). */
+  nodeIds?: Set<string>;
+  drawingIds?: Set<string>;
+  /** Avatar URL -> data URL, so blob: avatars survive outside the app. */
+  images?: Map<string, string>;
+  /** Custom field schema; each card shows the fields its template asks for. */
+  fields?: FieldDefinition[];
+  /** Card templates and styling rules; plain standard cards when missing. */
+  cardDesign?: CardDesign;
+  /** Chart theme: font, card corners and connector colour. */
+  theme?: ChartTheme;
+}
+
+export interface RenderedSvg {
+  markup: string;
+  bounds: Bounds;
+  /** Pixel size of the document at 1x. */
+  width: number;
+  height: number;
+}
+
+export const THEME_COLORS: Record<ExportTheme, { background: string; connector: string; label: string }> = {
+  light: { background: '#f8fafc', connector: '#64748b', label: '#475569' }, // slate-50 / slate-500 / slate-600
+  dark: { background: '#020617', connector: '#94a3b8', label: '#cbd5e1' }   // slate-950 / slate-400 / slate-300
+};
+
+const FONT_FAMILY = DEFAULT_FONT;
+
+interface Box { x: number; y: number; width: number; height: number }
+
+// What a person card looks like once the chart's card design is applied
+interface CardLook { template: CardTemplate; style: CardStyle | null; fields: FieldDefinition[]; radius: number }
+
+/** Builds the SVG, or returns null when the scope has nothing to draw. */
+export function buildChartSvg(content: SvgExportContent, options: SvgExportOptions): RenderedSvg | null {
+  const { nodes, positions, nodeIds, drawingIds } = content;
+  const images = content.images || new Map<string, string>();
+  const colors = THEME_COLORS[options.theme];
+
+  // Same stacking as the canvas: groups, connectors, other nodes, overlaid connectors, drawings
+  const included = Array.from(nodes.values()).filter(n => positions.has(n.id) && (!nodeIds || nodeIds.has(n.id)));
+  const groups = included.filter(n => n.type === 'group');
+  const others = included.filter(n => n.type !== 'group');
+  const drawings = content.drawings.filter(d => !drawingIds || drawingIds.has(d.id));
+  const edges = content.edges.filter(e =>
+    positions.has(e.sourceId) && positions.has(e.targetId) &&
+    (!nodeIds || (nodeIds.has(e.sourceId) && nodeIds.has(e.targetId)))
+  );
+
+  const boxes: Box[] = [];
+  const ids = { clip: 0 };
+  const parts: string[] = [];
+
+  const design = content.cardDesign || DEFAULT_CARD_DESIGN;
+  const fields = content.fields || [];
+  const rules = compileRules(design.rules, fields);
+  const lookOf = (node: ChartNode): CardLook => {
+    const template = node.cardTemplate || design.template;
+    return { template, style: cardStyleFor(node, rules), fields: cardFieldsFor(template, fields), radius: content.theme?.cardRadius ?? 12 };
+  };
+
+  const markerColors = new Set<string>();
+  // Routed against the whole chart so a selection export draws the same lines
+  const paths = routeEdges(edges, nodes, positions, content.flow || 'down', content.connectorStyle || 'curved');
+  const renderEdges = (list: ChartEdge[]) => {
+    const labels: string[] = [];
+    list.forEach(edge => {
+      const d = paths.get(edge.id)!;
+      const style = resolveEdgeStyle(edge, content.theme?.connectorColor || colors.connector);
+      const b = getPathBounds(d);
+      if (b) boxes.push({ x: b.x, y: b.y, width: b.w, height: b.h });
+
+      const marker = `url(#${markerId(style.color)})`;
+      if (style.arrowStart || style.arrowEnd) markerColors.add(style.color);
+      const attrs = [`d="${d}"`, 'fill="none"', `stroke="${attr(style.color)}"`, `stroke-width="${style.width}"`];
+      if (style.dasharray) attrs.push(`stroke-dasharray="${style.dasharray}"`, 'stroke-linecap="round"');
+      if (style.arrowStart) attrs.push(`marker-start="${marker}"`);
+      if (style.arrowEnd) attrs.push(`marker-end="${marker}"`);
+      parts.push(`<path ${attrs.join(' ')}/>`);
+
+      // Labels go above every connector, haloed like on the canvas
+      const mid = edge.label ? getPathMidpoint(d) : null;
+      if (mid && edge.label) {
+        const halo = options.background || colors.background;
+        const w = measureText(edge.label, 12, 600) + 6;
+        boxes.push({ x: mid.x - w / 2, y: mid.y - 9, width: w, height: 18 });
+        labels.push(`<text x="${round(mid.x)}" y="${round(mid.y)}" text-anchor="middle" dominant-baseline="middle" font-size="12" font-weight="600" fill="${colors.label}" stroke="${attr(halo)}" stroke-width="5" stroke-linejoin="round" paint-order="stroke">${escapeXml(edge.label)}</text>`);
+      }
+    });
+    parts.push(...labels);
+  };
+
+  const overlay = content.overlaySecondary ? edges.filter(e => e.kind === 'dotted') : [];
+  groups.forEach(node => parts.push(renderNode(node, positions.get(node.id)!, images, boxes, ids, lookOf(node))));
+  renderEdges(edges.filter(e => !overlay.includes(e)));
+  others.forEach(node => parts.push(renderNode(node, positions.get(node.id)!, images, boxes, ids, lookOf(node))));
+  renderEdges(overlay);
+  drawings.forEach(drawing => {
+    parts.push(`<path d="${attr(drawing.path)}" fill="none" stroke="${attr(drawing.color)}" stroke-width="${drawing.strokeWidth}" stroke-linecap="round" stroke-linejoin="round"/>`);
+  });
+
+  if (design.showLegend) {
+    const legend = renderLegend(styleLegend(rules, nodes).map(entry => ({ label: entry.label, style: entry.rule.style })), boxes, colors.label);
+    if (legend) parts.push(legend);
+  }
+
+  const contentBounds = getContentBounds(boxes, drawings, options.padding);
+  if (!contentBounds) return null;
+  const bounds = options.frame || contentBounds;
+
+  const width = Math.ceil(bounds.width);
+  const height = Math.ceil(bounds.height);
+  const markup = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="${round(bounds.minX)} ${round(bounds.minY)} ${width} ${height}" font-family="${attr(content.theme?.fontFamily || FONT_FAMILY)}">`,
+    '<defs>',
+    ...Array.from(markerColors, color =>
+      `<marker id="${markerId(color)}" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto-start-reverse"><polygon points="0 0, 10 3.5, 0 7" fill="${attr(color)}"/></marker>`
+    ),
+    '</defs>',
+    options.background ? `<rect x="${round(bounds.minX)}" y="${round(bounds.minY)}" width="${width}" height="${height}" fill="${attr(options.background)}"/>` : '',
+    ...parts,
+    '</svg>'
+  ].filter(Boolean).join('\n');
+
+  return { markup, bounds, width, height };
+}
+
+/** Reads every non-data avatar URL into a data URL; unreadable ones are left out. */
+export async function inlineImages(urls: Iterable<string>): Promise<Map<string, string>> {
+  const result = new Map<string, string>();
+  for (const url of new Set(urls)) {
+    if (url.startsWith('data:')) {
+      result.set(url, url);
+      continue;
+    }
+    try {
+      const blob = await (await fetch(url)).blob();
+      result.set(url, await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      }));
+    } catch {
+      // Revoked blob URLs and CORS-blocked images fall back to initials
+    }
+  }
+  return result;
+}
+
+// --- Node renderers ---
+
+function renderNode(node: ChartNode, pos: NodePosition, images: Map<string, string>, boxes: Box[], ids: { clip: number }, look: CardLook): string {
+  const size = defaultNodeSize(node.type);
+  const box: Box = { x: pos.x, y: pos.y, width: pos.width || size.width, height: pos.height || size.height };
+
+  switch (node.type) {
+    case 'note': boxes.push(box); return renderNote(node, box);
+    case 'text': boxes.push(box); return renderText(node, box);
+    case 'shape': boxes.push(box); return renderShape(node, box);
+    case 'group': return renderGroup(node, box, boxes);
+    default: return renderCard(node, box, images, boxes, ids, look);
+  }
+}
+
+function renderNote(node: ChartNode, box: Box): string {
+  const out = [`<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="2" fill="${attr(node.backgroundColor || '#fef3c7')}"/>`];
+  const lineHeight = 26; // 16px, leading-relaxed
+  const lines = wrapText(node.name, box.width - 32, 16, 500);
+  const maxLines = Math.max(0, Math.floor((box.height - 32) / lineHeight));
+  lines.slice(0, maxLines).forEach((line, i) => {
+    out.push(textLine(line, box.x + 16, box.y + 16 + i * lineHeight, lineHeight, 16, {
+      weight: 500, color: node.nameColor || '#1e293b'
+    }));
+  });
+  return group(out);
+}
+
+function renderText(node: ChartNode, box: Box): string {
+  const out: string[] = [];
+  const borderWidth = node.borderWidth || 0;
+  const background = node.backgroundColor && node.backgroundColor !== 'transparent' ? node.backgroundColor : null;
+  if (background || borderWidth > 0) {
+    out.push(insetRect(box, borderWidth, node.borderRadius || 0, background, borderWidth > 0 ? node.borderColor || 'transparent' : null));
+  }
+
+  const fontSize = node.fontSize || 14;
+  const weight = node.fontWeight === 'bold' ? 700 : 400;
+  const lineHeight = fontSize * 1.5;
+  const inner = box.width - 16 - borderWidth * 2;
+  const align = node.textAlign || 'left';
+  const anchorX = align === 'center' ? box.x + box.width / 2 : align === 'right' ? box.x + box.width - 8 - borderWidth : box.x + 8 + borderWidth;
+  const maxLines = Math.max(1, Math.floor((box.height - 16 - borderWidth * 2) / lineHeight));
+
+  wrapText(node.name, inner, fontSize, weight, node.fontFamily).slice(0, maxLines).forEach((line, i) => {
+    out.push(textLine(line, anchorX, box.y + 8 + borderWidth + i * lineHeight, lineHeight, fontSize, {
+      weight,
+      color: node.nameColor || '#0f172a',
+      family: node.fontFamily,
+      italic: node.fontStyle === 'italic',
+      underline: node.textDecoration === 'underline',
+      anchor: align === 'center' ? 'middle' : align === 'right' ? 'end' : 'start'
+    }));
+  });
+  return group(out);
+}
+
+function renderShape(node: ChartNode, box: Box): string {
+  const out: string[] = [];
+  const fill = node.backgroundColor || '#ffffff';
+  const polygon = node.shapeType && SHAPE_POLYGONS[node.shapeType];
+
+  if (polygon) {
+    const points = polygon.map(([px, py]) => `${round(box.x + box.width * px / 100)},${round(box.y + box.height * py / 100)}`).join(' ');
+    out.push(`<polygon points="${points}" fill="${attr(fill)}"/>`);
+  } else {
+    const radius = node.shapeType === 'circle' ? Math.min(box.width, box.height) / 2 : node.borderRadius || 0;
+    out.push(insetRect(box, node.borderWidth || 2, radius, fill, node.borderColor || '#94a3b8'));
+  }
+
+  const label = truncate(node.name, box.width - 8, 16, 700);
+  if (label) {
+    out.push(textLine(label, box.x + box.width / 2, box.y + box.height / 2 - 12, 24, 16, {
+      weight: 700, color: node.nameColor || '#1e293b', anchor: 'middle'
+    }));
+  }
+  return group(out);
+}
+
+function renderGroup(node: ChartNode, box: Box, boxes: Box[]): string {
+  const fill = node.backgroundColor && node.backgroundColor !== 'transparent' ? node.backgroundColor : 'none';
+  const out = [
+    `<rect x="${box.x + 1}" y="${box.y + 1}" width="${Math.max(0, box.width - 2)}" height="${Math.max(0, box.height - 2)}" rx="8" fill="${attr(fill)}" stroke="${attr(node.borderColor || '#cbd5e1')}" stroke-width="2" stroke-dasharray="6 4"/>`
+  ];
+
+  // Floating label on a white chip, straddling the top border
+  const label = node.name.toUpperCase();
+  const labelWidth = measureText(label, 14, 700, undefined, 0.05) + 16;
+  const labelBox: Box = { x: box.x + 12, y: box.y - 12, width: labelWidth, height: 20 };
+  if (label) {
+    out.push(`<rect x="${labelBox.x}" y="${labelBox.y}" width="${round(labelBox.width)}" height="${labelBox.height}" fill="#ffffff"/>`);
+    out.push(textLine(label, labelBox.x + 8, labelBox.y, 20, 14, {
+      weight: 700, color: node.nameColor || '#64748b', letterSpacing: 0.05
+    }));
+  }
+
+  boxes.push(box);
+  if (label) boxes.push(labelBox);
+  return group(out);
+}
+
+function renderCard(node: ChartNode, box: Box, images: Map<string, string>, boxes: Box[], ids: { clip: number }, look: CardLook): string {
+  if (look.template === 'compact') return renderCompactCard(node, box, images, boxes, ids, look);
+
+  const borderWidth = node.borderWidth || 2;
+  const inner = box.width - 32 - borderWidth * 2;
+  const centerX = box.x + box.width / 2;
+  const body: string[] = [];
+  let y = box.y + borderWidth + 16;
+
+  // Avatar
+  const radius = look.template === 'photo' ? 40 : 24;
+  body.push(renderAvatar(node, centerX, y + radius, radius, images, ids));
+  y += radius * 2 + (look.template === 'photo' ? 12 : 8);
+
+  // Name, role and department
+  wrapText(node.name, inner, 14, 700).forEach(line => {
+    body.push(textLine(line, centerX, y, 17.5, 14, { weight: 700, color: look.style?.nameColor || node.nameColor || '#1e293b', anchor: 'middle' }));
+    y += 17.5;
+  });
+  y += 4;
+  wrapText(node.role, inner, 12, 500).forEach(line => {
+    body.push(textLine(line, centerX, y, 16, 12, { weight: 500, color: node.roleColor || '#64748b', anchor: 'middle' }));
+    y += 16;
+  });
+  if (node.department) {
+    y += 8;
+    wrapText(node.department.toUpperCase(), inner, 10, 600, undefined, 0.05).forEach(line => {
+      body.push(textLine(line, centerX, y, 15, 10, { weight: 600, color: node.departmentColor || '#94a3b8', anchor: 'middle', letterSpacing: 0.05 }));
+      y += 15;
+    });
+  }
+
+  // Level chip
+  if (node.level && look.template !== 'photo') {
+    y += 8;
+    const chipText = truncate(node.level.split(' - ')[0], inner - 16, 10, 500);
+    const chipWidth = Math.min(inner, measureText(chipText, 10, 500) + 16);
+    body.push(`<rect x="${round(centerX - chipWidth / 2)}" y="${round(y)}" width="${round(chipWidth)}" height="19" rx="4" fill="#f1f5f9"/>`);
+    body.push(textLine(chipText, centerX, y + 2, 15, 10, { weight: 500, color: '#475569', anchor: 'middle' }));
+    y += 19;
+  }
+
+  // Custom fields: label on the left, value on the right
+  const rows = cardFieldRows(node, look.fields);
+  if (rows.length > 0) y += 8;
+  rows.forEach(row => {
+    const label = truncate(row.label, inner * 0.45, 10, 400);
+    const value = truncate(row.text, inner - measureText(label, 10, 400) - 8, 10, 500);
+    body.push(textLine(label, centerX - inner / 2, y, 14, 10, { weight: 400, color: '#94a3b8' }));
+    body.push(textLine(value, centerX + inner / 2, y, 14, 10, { weight: 500, color: row.href ? '#2563eb' : '#475569', anchor: 'end' }));
+    y += 14;
+  });
+
+  // Cards grow with their content, like the DOM version
+  const height = y + 16 + borderWidth - box.y;
+  return cardFrame(node, { ...box, height }, borderWidth, look, body, boxes);
+}
+
+// One row: small avatar, then name and role left-aligned
+function renderCompactCard(node: ChartNode, box: Box, images: Map<string, string>, boxes: Box[], ids: { clip: number }, look: CardLook): string {
+  const borderWidth = node.borderWidth || 2;
+  const textX = box.x + borderWidth + 12 + 36 + 12;
+  const inner = box.x + box.width - borderWidth - 12 - textX;
+  const top = box.y + borderWidth + 10;
+  const body = [
+    renderAvatar(node, box.x + borderWidth + 12 + 18, top + 18, 18, images, ids),
+    textLine(truncate(node.name, inner, 14, 700), textX, top + 1, 17.5, 14, { weight: 700, color: look.style?.nameColor || node.nameColor || '#1e293b' }),
+    textLine(truncate(node.role, inner, 12, 500), textX, top + 18.5, 16, 12, { weight: 500, color: node.roleColor || '#64748b' })
+  ];
+  return cardFrame(node, { ...box, height: 36 + 20 + borderWidth * 2 }, borderWidth, look, body, boxes);
+}
+
+// Background and border under the card's content, rule badges over its top edge
+function cardFrame(node: ChartNode, cardBox: Box, borderWidth: number, look: CardLook, body: string[], boxes: Box[]): string {
+  boxes.push(cardBox);
+  const out = [
+    insetRect(cardBox, borderWidth, look.radius, look.style?.backgroundColor || node.backgroundColor || '#ffffff', look.style?.borderColor || node.borderColor || '#e2e8f0'),
+    ...body
+  ];
+
+  let right = cardBox.x + cardBox.width - 12;
+  [...(look.style?.badges || [])].reverse().forEach(badge => {
+    const width = measureText(badge.label, 10, 700) + 12;
+    const pill: Box = { x: right - width, y: cardBox.y - 10, width, height: 18 };
+    out.push(`<rect x="${round(pill.x)}" y="${pill.y}" width="${round(width)}" height="18" rx="9" fill="${attr(badge.color)}"/>`);
+    out.push(textLine(badge.label, pill.x + width / 2, pill.y, 18, 10, { weight: 700, color: badgeTextColor(badge.color), anchor: 'middle' }));
+    boxes.push(pill);
+    right -= width + 4;
+  });
+  return group(out);
+}
+
+function renderAvatar(node: ChartNode, cx: number, cy: number, r: number, images: Map<string, string>, ids: { clip: number }): string {
+  const out: string[] = [];
+  const href = node.avatarType === 'image' && node.avatarImage ? images.get(node.avatarImage) : undefined;
+  if (href) {
+    const clipId = `cf-avatar-${ids.clip++}`;
+    out.push(`<clipPath id="${clipId}"><circle cx="${cx}" cy="${cy}" r="${r}"/></clipPath>`);
+    out.push(`<circle cx="${cx}" cy="${cy}" r="${r}" fill="#ffffff"/>`);
+    out.push(`<image x="${cx - r}" y="${cy - r}" width="${r * 2}" height="${r * 2}" href="${attr(href)}" xlink:href="${attr(href)}" preserveAspectRatio="xMidYMid meet" clip-path="url(#${clipId})"/>`);
+    out.push(`<circle cx="${cx}" cy="${cy}" r="${r - 0.5}" fill="none" stroke="#e2e8f0" stroke-width="1"/>`);
+  } else {
+    out.push(`<circle cx="${cx}" cy="${cy}" r="${r - 0.5}" fill="#f1f5f9" stroke="#e2e8f0" stroke-width="1"/>`);
+    // Icon fonts are not available outside the app, so only emoji avatars
+    // keep their glyph; Material icon names are replaced by initials
+    const icon = node.avatarIcon && !/^[a-z0-9_]+$/.test(node.avatarIcon) ? node.avatarIcon : initials(node.name);
+    const iconSize = Math.round((icon === node.avatarIcon ? 24 : 16) * r / 24);
+    out.push(textLine(icon, cx, cy - r / 2, r, iconSize, { weight: 600, color: '#64748b', anchor: 'middle' }));
+  }
+  return out.join('');
+}
+
+// Key to the styling rules, under the bottom-left corner of everything else
+function renderLegend(entries: { label: string; style: RuleStyle }[], boxes: Box[], textColor: string): string | null {
+  if (entries.length === 0 || boxes.length === 0) return null;
+  const x = Math.min(...boxes.map(b => b.x));
+  let y = Math.max(...boxes.map(b => b.y + b.height)) + 40;
+  const top = y;
+  const out = [textLine('Leyenda', x, y, 18, 12, { weight: 700, color: textColor })];
+  y += 24;
+  let width = measureText('Leyenda', 12, 700);
+
+  entries.forEach(({ label, style }) => {
+    let textX = x + 22;
+    out.push(`<rect x="${x + 1}" y="${y + 2}" width="14" height="14" rx="3" fill="${attr(style.backgroundColor || '#ffffff')}" stroke="${attr(style.borderColor || '#e2e8f0')}" stroke-width="2"/>`);
+    if (style.badge) {
+      const color = style.badgeColor || DEFAULT_BADGE_COLOR;
+      const pillWidth = measureText(style.badge, 10, 700) + 12;
+      out.push(`<rect x="${round(textX)}" y="${y + 1}" width="${round(pillWidth)}" height="16" rx="8" fill="${attr(color)}"/>`);
+      out.push(textLine(style.badge, textX + pillWidth / 2, y + 1, 16, 10, { weight: 700, color: badgeTextColor(color), anchor: 'middle' }));
+      textX += pillWidth + 6;
+    }
+    out.push(textLine(label, textX, y, 18, 12, { weight: 500, color: textColor }));
+    width = Math.max(width, textX + measureText(label, 12, 500) - x);
+    y += 22;
+  });
+
+  boxes.push({ x, y: top, width, height: y - top });
+  return group(out);
+}
+
+// --- Primitives ---
+
+// A rect whose stroke sits inside the box, like a CSS border
+function insetRect(box: Box, strokeWidth: number, radius: number, fill: string | null, stroke: string | null): string {
+  const half = stroke ? strokeWidth / 2 : 0;
+  const w = Math.max(0, box.width - half * 2);
+  const h = Math.max(0, box.height - half * 2);
+  const rx = Math.max(0, Math.min(radius - half, w / 2, h / 2));
+  const strokeAttrs = stroke ? ` stroke="${attr(stroke)}" stroke-width="${strokeWidth}"` : '';
+  return `<rect x="${round(box.x + half)}" y="${round(box.y + half)}" width="${round(w)}" height="${round(h)}" rx="${round(rx)}" fill="${attr(fill || 'none')}"${strokeAttrs}/>`;
+}
+
+interface TextStyle {
+  weight: number;
+  color: string;
+  family?: string;
+  italic?: boolean;
+  underline?: boolean;
+  anchor?: 'start' | 'middle' | 'end';
+  letterSpacing?: number; // em
+}
+
+// One line of text whose line box starts at `top`
+function textLine(text: string, x: number, top: number, lineHeight: number, fontSize: number, style: TextStyle): string {
+  const baseline = top + (lineHeight - fontSize) / 2 + fontSize * 0.8;
+  const attrs = [
+    `x="${round(x)}"`,
+    `y="${round(baseline)}"`,
+    `font-size="${fontSize}"`,
+    `font-weight="${style.weight}"`,
+    `fill="${attr(style.color)}"`
+  ];
+  if (style.family) attrs.push(`font-family="${attr(style.family)}"`);
+  if (style.italic) attrs.push('font-style="italic"');
+  if (style.underline) attrs.push('text-decoration="underline"');
+  if (style.anchor && style.anchor !== 'start') attrs.push(`text-anchor="${style.anchor}"`);
+  if (style.letterSpacing) attrs.push(`letter-spacing="${round(style.letterSpacing * fontSize)}"`);
+  return `<text ${attrs.join(' ')}>${escapeXml(text)}</text>`;
+}
+
+function group(children: string[]): string {
+  return `<g>${children.join('')}</g>`;
+}
+
+function initials(name: string): string {
+  return name.split(/\s+/).filter(Boolean).slice(0, 2).map(w => w[0].toUpperCase()).join('') || '?';
+}
+
+// --- Text measurement ---
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+function measureText(text: string, fontSize: number, weight: number, family = FONT_FAMILY, letterSpacing = 0): number {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+  }
+  const spacing = text.length * letterSpacing * fontSize;
+  if (!measureContext) return text.length * fontSize * 0.55 + spacing;
+  measureContext.font = `${weight} ${fontSize}px ${family}`;
+  return measureContext.measureText(text).width + spacing;
+}
+
+// Greedy word wrap; words longer than a line are broken by character
+function wrapText(text: string, maxWidth: number, fontSize: number, weight: number, family?: string, letterSpacing = 0): string[] {
+  const lines: string[] = [];
+  const fits = (s: string) => measureText(s, fontSize, weight, family, letterSpacing) <= maxWidth;
+
+  (text || '').split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (fits(candidate)) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = '';
+      for (const char of word) {
+        if (line && !fits(line + char)) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    });
+    lines.push(line);
+  });
+
+  // Drop the empty line left by a blank name
+  return lines.length === 1 && lines[0] === '' ? [] : lines;
+}
+
+function truncate(text: string, maxWidth: number, fontSize: number, weight: number): string {
+  if (!text || measureText(text, fontSize, weight) <= maxWidth) return text || '';
+  let result = text;
+  while (result.length > 0 && measureText(result + '…', fontSize, weight) > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return result + '…';
+}
+
+// --- Escaping ---
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function attr(value: string): string {
+  return escapeXml(value).replace(/"/g, '&quot;');
+}
+
+function markerId(color: string): string {
+  return 'cf-arrowhead-' + color.replace(/[^a-zA-Z0-9]/g, '');
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,54 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { ChartStateService } from './chart-state.service';
+import { DocumentStorageService } from './document-storage.service';
+import { StoredChartTemplate } from './chart-templates';
+
+// Charts the user saved as starting points, kept in IndexedDB next to the documents
+@Injectable({
+  providedIn: 'root'
+})
+export class TemplateLibraryService {
+  private chartState = inject(ChartStateService);
+  private storage = inject(DocumentStorageService);
+
+  customTemplates = signal<StoredChartTemplate[]>([]);
+
+  async refresh() {
+    try {
+      this.customTemplates.set(await this.storage.listTemplates());
+    } catch (error) {
+      console.error('Could not read the saved templates:', error);
+    }
+  }
+
+  /** Saves the current chart (content and layout, not history or viewport) as a template. */
+  async saveCurrentAsTemplate(name: string): Promise<boolean> {
+    const trimmed = name.trim();
+    if (!trimmed) return false;
+
+    const { chartType, nodes, positions, drawings, edges, layout, fields, cardDesign, theme } = this.chartState.getDocumentState();
+    try {
+      await this.storage.putTemplate({
+        id: Math.random().toString(36).substr(2, 9),
+        name: trimmed,
+        createdAt: Date.now(),
+        chartType, nodes, positions, drawings,
+        edges: edges ?? [],
+        layout: layout ?? this.chartState.layoutSettings(),
+        fields: fields ?? [],
+        cardDesign: cardDesign ?? this.chartState.cardDesign(),
+        theme: theme ?? this.chartState.theme()
+      });
+      await this.refresh();
+      return true;
+    } catch (error) {
+      console.error('Could not save the template:', error);
+      return false;
+    }
+  }
+
+  async deleteTemplate(id: string) {
+    await this.storage.deleteTemplate(id);
+    await this.refresh();
+  }
+}
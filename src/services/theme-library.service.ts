@@ -0,0 +1,80 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { ChartStateService } from './chart-state.service';
+import { ChartTheme, BUILT_IN_THEMES, buildThemeFile, parseThemeFile } from './chart-themes';
+import { downloadFile, toFileName } from './download';
+
+const CUSTOM_THEMES_KEY = 'chartflow:themes';
+
+// Built-in themes plus the ones imported on this browser (e.g. a company brand theme)
+@Injectable({
+  providedIn: 'root'
+})
+export class ThemeLibraryService {
+  private chartState = inject(ChartStateService);
+
+  customThemes = signal<ChartTheme[]>(this.loadCustomThemes());
+
+  // The open chart's theme is listed even when it came with a document and isn't in the library
+  themes = computed(() => {
+    const list = [...BUILT_IN_THEMES, ...this.customThemes()];
+    const current = this.chartState.theme();
+    return list.some(t => t.id === current.id) ? list : [...list, current];
+  });
+
+  isBuiltIn(id: string): boolean {
+    return BUILT_IN_THEMES.some(t => t.id === id);
+  }
+
+  isCustom(id: string): boolean {
+    return this.customThemes().some(t => t.id === id);
+  }
+
+  /**
+   * Adds the theme in an exported file to the library and applies it to the
+   * chart. Importing a theme again replaces the earlier copy. Returns what is
+   * wrong with the file; empty when it was imported.
+   */
+  importTheme(text: string): string[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return ['El archivo no es un JSON válido.'];
+    }
+    const parsed = parseThemeFile(data);
+    if ('errors' in parsed) return parsed.errors;
+
+    const theme = parsed.theme;
+    if (!theme.id || this.isBuiltIn(theme.id)) theme.id = `custom-${Math.random().toString(36).substr(2, 9)}`;
+    this.saveCustomThemes([...this.customThemes().filter(t => t.id !== theme.id), theme]);
+    this.chartState.setTheme(theme);
+    return [];
+  }
+
+  exportTheme(theme: ChartTheme) {
+    downloadFile(JSON.stringify(buildThemeFile(theme), null, 2), `${toFileName(theme.name, 'tema')}.theme.json`, 'application/json');
+  }
+
+  /** Removes an imported theme from the library; charts using it keep their copy. */
+  deleteTheme(id: string) {
+    this.saveCustomThemes(this.customThemes().filter(t => t.id !== id));
+  }
+
+  private saveCustomThemes(themes: ChartTheme[]) {
+    this.customThemes.set(themes);
+    localStorage.setItem(CUSTOM_THEMES_KEY, JSON.stringify(themes));
+  }
+
+  private loadCustomThemes(): ChartTheme[] {
+    try {
+      const raw = JSON.parse(localStorage.getItem(CUSTOM_THEMES_KEY) || '[]');
+      if (!Array.isArray(raw)) return [];
+      return raw
+        .map(entry => parseThemeFile(entry))
+        .filter((parsed): parsed is { theme: ChartTheme } => 'theme' in parsed && !!parsed.theme.id)
+        .map(parsed => parsed.theme);
+    } catch {
+      return [];
+    }
+  }
+}